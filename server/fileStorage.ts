@@ -0,0 +1,56 @@
+/**
+ * localStorage for Node, persisted to a JSON file.
+ *
+ * The simulated backend modules in src/lib keep their data in localStorage
+ * (issuer keys, payment records, validation log). Installed as the global
+ * localStorage, this lets the mock server run them unchanged, with every
+ * write flushed to disk so data survives restarts.
+ */
+
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  writeFileSync,
+} from "node:fs";
+import { dirname } from "node:path";
+
+export function createFileStorage(path: string): Storage {
+  const items = new Map<string, string>(
+    existsSync(path)
+      ? Object.entries(
+          JSON.parse(readFileSync(path, "utf8")) as Record<string, string>,
+        )
+      : [],
+  );
+
+  // Write to a temporary file first so a crash never leaves half a file
+  const flush = () => {
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(
+      path + ".tmp",
+      JSON.stringify(Object.fromEntries(items), null, 2),
+    );
+    renameSync(path + ".tmp", path);
+  };
+
+  return {
+    get length() {
+      return items.size;
+    },
+    key: (index) => [...items.keys()][index] ?? null,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, String(value));
+      flush();
+    },
+    removeItem: (key) => {
+      if (items.delete(key)) flush();
+    },
+    clear: () => {
+      items.clear();
+      flush();
+    },
+  };
+}
@@ -0,0 +1,647 @@
+/**
+ * Mock payment / ticket server.
+ *
+ * Serves the REST API of src/lib/backend.ts over HTTP, for integrators and
+ * for the app's "HTTP server" backend. Issuance, lookup, revocation and the
+ * validation log run the simulated backend (fakeBackend.ts) and issuer key
+ * registry (keyRegistry.ts) unchanged, over a JSON file (fileStorage.ts).
+ *
+ * Endpoints:
+ *   - POST   /payments                     → issue a ticket (201, or 200
+ *                                           with the ticket already issued
+ *                                           for the same payment; 402 unless
+ *                                           the PSP payment is captured for
+ *                                           the order's price and unused)
+ *   - GET    /payments                     → all records
+ *   - GET    /payments/:thumbprint         → one record (404 if unknown)
+ *   - DELETE /payments/:thumbprint         → delete a record (204)
+ *   - DELETE /payments                     → delete all records (204)
+ *   - POST   /payments/:thumbprint/revoke  → revoke, body { reason }
+ *   - POST   /payments/:thumbprint/refund  → cancel and refund, body
+ *                                           { reason } (409 if refused)
+ *   - POST   /payments/:thumbprint/rides   → count a validation against the
+ *                                           ticket's entitlement (409 if
+ *                                           revoked)
+ *   - GET    /accounts/:accountId/payments → an account's records
+ *   - POST   /validations                  → log a validation (201)
+ *   - GET    /validations                  → validation log, newest first
+ *   - GET    /issuer-keys                  → root-signed issuer key list
+ *   - POST   /issuer-keys/rotate           → rotate the active issuer key
+ *   - POST   /issuer-keys/:keyId/retire    → retire an issuer key
+ *   - POST   /time-tokens                  → the server's time, signed with
+ *                                           the active issuer key
+ *   - GET    /validation-bundle            → root-signed offline validation
+ *                                           bundle
+ *   - GET    /validation-bundle/since/:version
+ *                                         → delta since a bundle version
+ *   - PUT    /wrapped-secrets/:credentialId
+ *                                         → store a credential's wrapped
+ *                                           master secret, body
+ *                                           WrappedSecret (204; 401
+ *                                           without a valid session token,
+ *                                           403 unless that credential
+ *                                           opened the session)
+ *   - GET    /wrapped-secrets/:credentialId
+ *                                         → one wrapped secret (404 if
+ *                                           none)
+ *   - GET    /accounts/:accountId/wrapped-secrets
+ *                                         → an account's wrapped secrets
+ *   - POST   /psp/payments                 → create a PSP payment, body
+ *                                           CreatePaymentRequest (504 when
+ *                                           the answer is lost)
+ *   - POST   /psp/payments/:id/3ds         → answer 3-D Secure, body
+ *                                           { approved }
+ *   - POST   /psp/payments/:id/capture     → capture a PSP payment
+ *
+ * The /psp routes run the simulated payment provider (paymentProvider.ts)
+ * over the same file, so the server can check the payments it is sent.
+ *
+ * Session tokens (sessionToken.ts) come as `Authorization: Bearer <token>`.
+ *
+ * Errors are JSON { error } with a 4xx/5xx status. CORS is open so the app
+ * can call the server from the Vite dev server's origin.
+ */
+
+import { createServer } from "node:http";
+import type {
+  IncomingHttpHeaders,
+  IncomingMessage,
+  Server,
+  ServerResponse,
+} from "node:http";
+import type {
+  Backend,
+  PaymentRequest,
+  ValidationEvent,
+} from "../src/lib/backend";
+import { priceOrder } from "../src/lib/catalog";
+import { importEcdsaPublicKey } from "../src/lib/crypto";
+import {
+  PaymentRejectedError,
+  WrappedSecretRejectedError,
+  assertRefundable,
+  assertSamePayment,
+} from "../src/lib/fakeBackend";
+import type { WrappedSecret } from "../src/lib/fakeBackend";
+import { MIN_PBKDF2_ITERATIONS } from "../src/lib/keyWrapping";
+import { PaymentTimeoutError } from "../src/lib/paymentProvider";
+import type { CreatePaymentRequest } from "../src/lib/paymentProvider";
+import { createLocalStorageBackend } from "../src/lib/localStorageBackend";
+import {
+  listIssuerKeys,
+  retireIssuerKey,
+  rotateIssuerKey,
+} from "../src/lib/keyRegistry";
+import type { IssuerKeyRecord } from "../src/lib/keyRegistry";
+import { SessionError } from "../src/lib/sessionToken";
+import { createFileStorage } from "./fileStorage";
+
+/** Largest accepted request body */
+const MAX_BODY_BYTES = 1 << 20;
+
+export interface MockServerOptions {
+  port: number;
+  /** JSON file holding the server's data */
+  dataFile: string;
+}
+
+class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+interface Reply {
+  status: number;
+  body?: unknown;
+}
+
+type Handler = (
+  backend: Backend,
+  params: string[],
+  body: unknown,
+  headers: IncomingHttpHeaders,
+) => Promise<Reply>;
+
+/** Start listening; resolves once the port is bound. */
+export async function startMockServer({
+  port,
+  dataFile,
+}: MockServerOptions): Promise<Server> {
+  globalThis.localStorage = createFileStorage(dataFile);
+  const backend = createLocalStorageBackend();
+
+  const server = createServer((req, res) => {
+    handle(backend, req, res).catch((err) => {
+      const status = err instanceof HttpError ? err.status : 500;
+      console.log(`${req.method} ${req.url} → ${status}`);
+      send(res, status, {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(port, resolve));
+  console.log(`Mock server on http://localhost:${port} (data: ${dataFile})`);
+  return server;
+}
+
+// ---------------------------------------------------------------------------
+// Routes
+// ---------------------------------------------------------------------------
+
+const routes: { method: string; path: RegExp; handler: Handler }[] = [
+  {
+    method: "POST",
+    path: /^\/payments$/,
+    handler: async (backend, _, body) => {
+      const request = await paymentRequest(body);
+      const existing = await backend.lookupByPublicKey(request.ecdsaPublicKey);
+      if (existing) {
+        try {
+          assertSamePayment(existing, request);
+        } catch (err) {
+          throw new HttpError(
+            409,
+            err instanceof Error ? err.message : String(err),
+          );
+        }
+        return { status: 200, body: existing };
+      }
+      try {
+        return { status: 201, body: await backend.storePayment(request) };
+      } catch (err) {
+        if (err instanceof PaymentRejectedError) {
+          throw new HttpError(402, err.message);
+        }
+        throw err;
+      }
+    },
+  },
+  {
+    method: "GET",
+    path: /^\/payments$/,
+    handler: async (backend) => ({
+      status: 200,
+      body: await backend.listAllRecords(),
+    }),
+  },
+  {
+    method: "DELETE",
+    path: /^\/payments$/,
+    handler: async (backend) => {
+      await backend.clearAllRecords();
+      return { status: 204 };
+    },
+  },
+  {
+    method: "GET",
+    path: /^\/payments\/([\w-]+)$/,
+    handler: async (backend, [thumbprint]) => {
+      const record = (await backend.listAllRecords()).find(
+        (r) => r.thumbprint === thumbprint,
+      );
+      if (!record) throw new HttpError(404, `Unknown payment ${thumbprint}.`);
+      return { status: 200, body: record };
+    },
+  },
+  {
+    method: "DELETE",
+    path: /^\/payments\/([\w-]+)$/,
+    handler: async (backend, [thumbprint]) => {
+      await backend.deleteRecord(thumbprint);
+      return { status: 204 };
+    },
+  },
+  {
+    method: "POST",
+    path: /^\/payments\/([\w-]+)\/revoke$/,
+    handler: async (backend, [thumbprint], body) => {
+      const { reason } = (body ?? {}) as { reason?: unknown };
+      const records = await backend.listAllRecords();
+      if (!records.some((r) => r.thumbprint === thumbprint)) {
+        throw new HttpError(404, `Unknown payment ${thumbprint}.`);
+      }
+      return {
+        status: 200,
+        body: await backend.revokeRecord(
+          thumbprint,
+          typeof reason === "string" ? reason : "",
+        ),
+      };
+    },
+  },
+  {
+    method: "POST",
+    path: /^\/payments\/([\w-]+)\/refund$/,
+    handler: async (backend, [thumbprint], body) => {
+      const { reason } = (body ?? {}) as { reason?: unknown };
+      const record = (await backend.listAllRecords()).find(
+        (r) => r.thumbprint === thumbprint,
+      );
+      if (!record) throw new HttpError(404, `Unknown payment ${thumbprint}.`);
+      try {
+        assertRefundable(record, new Date());
+      } catch (err) {
+        throw new HttpError(
+          409,
+          err instanceof Error ? err.message : String(err),
+        );
+      }
+      return {
+        status: 200,
+        body: await backend.refundPayment(
+          thumbprint,
+          typeof reason === "string" ? reason : "",
+        ),
+      };
+    },
+  },
+  {
+    method: "POST",
+    path: /^\/payments\/([\w-]+)\/rides$/,
+    handler: async (backend, [thumbprint]) => {
+      const records = await backend.listAllRecords();
+      if (!records.some((r) => r.thumbprint === thumbprint)) {
+        throw new HttpError(404, `Unknown payment ${thumbprint}.`);
+      }
+      try {
+        return { status: 200, body: await backend.redeemRide(thumbprint) };
+      } catch (err) {
+        throw new HttpError(
+          409,
+          err instanceof Error ? err.message : String(err),
+        );
+      }
+    },
+  },
+  {
+    method: "GET",
+    path: /^\/accounts\/([\w-]+)\/payments$/,
+    handler: async (backend, [accountId]) => ({
+      status: 200,
+      body: await backend.listRecordsForAccount(accountId),
+    }),
+  },
+  {
+    method: "PUT",
+    path: /^\/wrapped-secrets\/([\w-]+)$/,
+    handler: async (backend, [credentialId], body, headers) => {
+      const wrapped = wrappedSecret(credentialId, body);
+      try {
+        await backend.storeWrappedSecret(bearerToken(headers), wrapped);
+      } catch (err) {
+        if (err instanceof SessionError) throw new HttpError(401, err.message);
+        if (err instanceof WrappedSecretRejectedError) {
+          throw new HttpError(403, err.message);
+        }
+        throw err;
+      }
+      return { status: 204 };
+    },
+  },
+  {
+    method: "GET",
+    path: /^\/wrapped-secrets\/([\w-]+)$/,
+    handler: async (backend, [credentialId]) => {
+      const wrapped = await backend.fetchWrappedSecret(credentialId);
+      if (!wrapped) {
+        throw new HttpError(404, `No wrapped secret for ${credentialId}.`);
+      }
+      return { status: 200, body: wrapped };
+    },
+  },
+  {
+    method: "GET",
+    path: /^\/accounts\/([\w-]+)\/wrapped-secrets$/,
+    handler: async (backend, [accountId]) => ({
+      status: 200,
+      body: await backend.listWrappedSecrets(accountId),
+    }),
+  },
+  {
+    method: "POST",
+    path: /^\/validations$/,
+    handler: async (backend, _, body) => {
+      const event = validationEvent(body);
+      await backend.logValidation(event);
+      return { status: 201, body: event };
+    },
+  },
+  {
+    method: "GET",
+    path: /^\/validations$/,
+    handler: async (backend) => ({
+      status: 200,
+      body: await backend.listValidations(),
+    }),
+  },
+  {
+    method: "GET",
+    path: /^\/issuer-keys$/,
+    handler: async (backend) => ({
+      status: 200,
+      body: await backend.fetchKeyList(),
+    }),
+  },
+  {
+    method: "POST",
+    path: /^\/issuer-keys\/rotate$/,
+    handler: async () => ({
+      status: 200,
+      body: publicPart(await rotateIssuerKey()),
+    }),
+  },
+  {
+    method: "POST",
+    path: /^\/issuer-keys\/(\d+)\/retire$/,
+    handler: async (_, [keyId]) => {
+      if (!listIssuerKeys().some((k) => k.keyId === Number(keyId))) {
+        throw new HttpError(404, `Unknown issuer key ${keyId}.`);
+      }
+      await retireIssuerKey(Number(keyId));
+      return { status: 204 };
+    },
+  },
+  {
+    method: "GET",
+    path: /^\/validation-bundle$/,
+    handler: async (backend) => ({
+      status: 200,
+      body: await backend.exportValidationBundle(),
+    }),
+  },
+  {
+    method: "GET",
+    path: /^\/validation-bundle\/since\/(\d+)$/,
+    handler: async (backend, [since]) => ({
+      status: 200,
+      body: await backend.exportValidationBundle(Number(since)),
+    }),
+  },
+  {
+    method: "POST",
+    path: /^\/psp\/payments$/,
+    handler: async (backend, _, body) =>
+      pspCall(() =>
+        backend.paymentProvider.createPayment(createPaymentRequest(body)),
+      ),
+  },
+  {
+    method: "POST",
+    path: /^\/psp\/payments\/([\w-]+)\/3ds$/,
+    handler: async (backend, [paymentId], body) => {
+      const { approved } = (body ?? {}) as { approved?: unknown };
+      if (typeof approved !== "boolean") {
+        throw new HttpError(400, "Missing approved.");
+      }
+      return pspCall(() =>
+        backend.paymentProvider.completeThreeDSecure(paymentId, approved),
+      );
+    },
+  },
+  {
+    method: "POST",
+    path: /^\/psp\/payments\/([\w-]+)\/capture$/,
+    handler: async (backend, [paymentId]) =>
+      pspCall(() => backend.paymentProvider.capturePayment(paymentId)),
+  },
+  {
+    method: "POST",
+    path: /^\/time-tokens$/,
+    handler: async (backend) => ({
+      status: 200,
+      body: await backend.issueTimeToken(),
+    }),
+  },
+];
+
+async function handle(
+  backend: Backend,
+  req: IncomingMessage,
+  res: ServerResponse,
+): Promise<void> {
+  if (req.method === "OPTIONS") {
+    send(res, 204);
+    return;
+  }
+  const { pathname } = new URL(req.url ?? "/", "http://localhost");
+  const matching = routes.filter((r) => r.path.test(pathname));
+  const route = matching.find((r) => r.method === req.method);
+  if (!route) {
+    throw matching.length
+      ? new HttpError(405, `${req.method} not allowed on ${pathname}.`)
+      : new HttpError(404, `No route for ${pathname}.`);
+  }
+
+  const params = route.path.exec(pathname)!.slice(1).map(decodeURIComponent);
+  const reply = await route.handler(
+    backend,
+    params,
+    await readJson(req),
+    req.headers,
+  );
+  console.log(`${req.method} ${pathname} → ${reply.status}`);
+  send(res, reply.status, reply.body);
+}
+
+// ---------------------------------------------------------------------------
+// Request validation
+// ---------------------------------------------------------------------------
+
+async function paymentRequest(body: unknown): Promise<PaymentRequest> {
+  const b = (body ?? {}) as Partial<PaymentRequest>;
+  for (const field of [
+    "ticketId",
+    "accountId",
+    "credentialId",
+    "paymentRef",
+    "paymentDate",
+  ] as const) {
+    if (typeof b[field] !== "string" || !b[field]) {
+      throw new HttpError(400, `Missing ${field}.`);
+    }
+  }
+  if (Number.isNaN(Date.parse(b.paymentDate!))) {
+    throw new HttpError(400, "paymentDate is not a date.");
+  }
+  if (b.ecdsaPublicKey?.kty !== "EC" || b.ecdsaPublicKey.crv !== "P-256") {
+    throw new HttpError(400, "ecdsaPublicKey must be a P-256 public JWK.");
+  }
+  const { x, y, kty, crv } = b.ecdsaPublicKey;
+  // Public members only, whatever the client sent; the import checks that
+  // they are a point on the curve before the issuer signs them
+  const ecdsaPublicKey = { kty, crv, x, y };
+  await importEcdsaPublicKey(ecdsaPublicKey).catch(() => {
+    throw new HttpError(400, "ecdsaPublicKey is not a valid P-256 point.");
+  });
+  if (typeof b.order?.productId !== "string" || !b.order.quantities) {
+    throw new HttpError(400, "Missing order.");
+  }
+  // Reject orders the catalog cannot price before issuing anything
+  try {
+    priceOrder(b.order);
+  } catch (err) {
+    throw new HttpError(400, err instanceof Error ? err.message : String(err));
+  }
+  if (b.timeZone !== undefined && !isTimeZone(b.timeZone)) {
+    throw new HttpError(400, `Unknown time zone ${b.timeZone}.`);
+  }
+  return {
+    ticketId: b.ticketId!,
+    accountId: b.accountId!,
+    credentialId: b.credentialId!,
+    paymentRef: b.paymentRef!,
+    paymentDate: b.paymentDate!,
+    ecdsaPublicKey,
+    order: { productId: b.order.productId, quantities: b.order.quantities },
+    timeZone: b.timeZone,
+  };
+}
+
+function createPaymentRequest(body: unknown): CreatePaymentRequest {
+  const b = (body ?? {}) as Partial<CreatePaymentRequest>;
+  for (const field of ["idempotencyKey", "currency", "cardNumber"] as const) {
+    if (typeof b[field] !== "string" || !b[field]) {
+      throw new HttpError(400, `Missing ${field}.`);
+    }
+  }
+  if (!Number.isInteger(b.amount) || b.amount! <= 0) {
+    throw new HttpError(400, "amount must be a positive integer.");
+  }
+  return {
+    idempotencyKey: b.idempotencyKey!,
+    amount: b.amount!,
+    currency: b.currency!,
+    cardNumber: b.cardNumber!,
+  };
+}
+
+/** Run a PSP call: 504 when its answer is lost, 409 when it refuses. */
+async function pspCall(call: () => Promise<unknown>): Promise<Reply> {
+  try {
+    return { status: 200, body: await call() };
+  } catch (err) {
+    if (err instanceof PaymentTimeoutError) {
+      throw new HttpError(504, err.message);
+    }
+    throw new HttpError(409, err instanceof Error ? err.message : String(err));
+  }
+}
+
+function isTimeZone(name: unknown): boolean {
+  if (typeof name !== "string") return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: name });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The session token of `Authorization: Bearer <token>` ("" without). */
+function bearerToken(headers: IncomingHttpHeaders): string {
+  const match = /^Bearer (\S+)$/.exec(headers.authorization ?? "");
+  return match ? match[1] : "";
+}
+
+/** A wrapped secret PUT at its credential's path. */
+function wrappedSecret(credentialId: string, body: unknown): WrappedSecret {
+  const b = (body ?? {}) as Partial<WrappedSecret>;
+  for (const field of [
+    "credentialId",
+    "accountId",
+    "iv",
+    "ciphertext",
+    "createdAt",
+  ] as const) {
+    if (typeof b[field] !== "string" || !b[field]) {
+      throw new HttpError(400, `Missing ${field}.`);
+    }
+  }
+  if (b.credentialId !== credentialId) {
+    throw new HttpError(400, "credentialId does not match the path.");
+  }
+  if (b.kdf !== "prf" && b.kdf !== "pbkdf2") {
+    throw new HttpError(400, "kdf must be prf or pbkdf2.");
+  }
+  if (
+    b.kdf === "pbkdf2" &&
+    (typeof b.kdfSalt !== "string" ||
+      !Number.isInteger(b.kdfIterations) ||
+      b.kdfIterations! < MIN_PBKDF2_ITERATIONS)
+  ) {
+    throw new HttpError(
+      400,
+      `pbkdf2 needs kdfSalt and at least ${MIN_PBKDF2_ITERATIONS} kdfIterations.`,
+    );
+  }
+  return {
+    credentialId,
+    accountId: b.accountId!,
+    kdf: b.kdf,
+    ...(b.kdf === "pbkdf2"
+      ? { kdfSalt: b.kdfSalt, kdfIterations: b.kdfIterations }
+      : {}),
+    iv: b.iv!,
+    ciphertext: b.ciphertext!,
+    createdAt: b.createdAt!,
+  };
+}
+
+function validationEvent(body: unknown): ValidationEvent {
+  const b = (body ?? {}) as Partial<ValidationEvent>;
+  if (typeof b.thumbprint !== "string" || typeof b.ticketId !== "string") {
+    throw new HttpError(400, "Missing thumbprint or ticketId.");
+  }
+  if (typeof b.valid !== "boolean") throw new HttpError(400, "Missing valid.");
+  return {
+    thumbprint: b.thumbprint,
+    ticketId: b.ticketId,
+    valid: b.valid,
+    details: typeof b.details === "string" ? b.details : "",
+    validatedAt:
+      typeof b.validatedAt === "string"
+        ? b.validatedAt
+        : new Date().toISOString(),
+  };
+}
+
+/** An issuer key without its private half. */
+function publicPart(key: IssuerKeyRecord): Partial<IssuerKeyRecord> {
+  const published: Partial<IssuerKeyRecord> = { ...key };
+  delete published.privateKeyJwk;
+  return published;
+}
+
+// ---------------------------------------------------------------------------
+// HTTP plumbing
+// ---------------------------------------------------------------------------
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, "Body too large.");
+    chunks.push(chunk as Buffer);
+  }
+  if (size === 0) return undefined;
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new HttpError(400, "Body is not JSON.");
+  }
+}
+
+function send(res: ServerResponse, status: number, body?: unknown): void {
+  res.writeHead(status, {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type, Authorization",
+    ...(body === undefined ? {} : { "Content-Type": "application/json" }),
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
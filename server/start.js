@@ -0,0 +1,28 @@
+// Starts the mock REST server (server/mockServer.ts).
+//
+// Node cannot run the TypeScript sources directly, so Vite's SSR loader
+// transpiles the server and the src/lib modules it shares with the app.
+//
+//   PORT       listening port (default 8787)
+//   DATA_FILE  JSON data file (default server/data/db.json)
+
+import { fileURLToPath } from "node:url";
+import { createServer } from "vite";
+
+const vite = await createServer({
+  root: fileURLToPath(new URL("..", import.meta.url)),
+  configFile: false,
+  appType: "custom",
+  logLevel: "warn",
+  server: { middlewareMode: true, hmr: false, watch: null },
+  optimizeDeps: { noDiscovery: true, include: [] },
+});
+const { startMockServer } = await vite.ssrLoadModule("/server/mockServer.ts");
+await vite.close();
+
+await startMockServer({
+  port: Number(process.env.PORT ?? 8787),
+  dataFile:
+    process.env.DATA_FILE ??
+    fileURLToPath(new URL("data/db.json", import.meta.url)),
+});
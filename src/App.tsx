@@ -1,13 +1,35 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import AuthScreen from "./components/AuthScreen";
+import type { AuthSession } from "./components/AuthScreen";
 import PaymentScreen from "./components/PaymentScreen";
 import TicketScreen from "./components/TicketScreen";
 import VerifierScreen from "./components/VerifierScreen";
 import BackendExplorer from "./components/BackendExplorer";
-import { deriveKeys, bytesToHex } from "./lib/crypto";
-import { lookupByPublicKey } from "./lib/fakeBackend";
+import {
+  deriveKeys,
+  deriveTicketKeys,
+  bytesToHex,
+  base64urlEncode,
+  jwkThumbprint,
+} from "./lib/crypto";
+import { useBackend } from "./lib/backendContext";
 import type { PaymentRecord } from "./lib/fakeBackend";
 import type { DerivedKeys } from "./lib/crypto";
+import {
+  openVault,
+  getMetadata,
+  putMetadata,
+  putTicket,
+  putLastPayload,
+  listTickets,
+  countEntries,
+} from "./lib/vault";
+import type { Vault } from "./lib/vault";
+import type { TicketBarcode } from "./lib/ticketBarcode";
+import { WebAuthnError } from "./lib/webauthnErrors";
+import WebAuthnErrorPanel from "./components/WebAuthnErrorPanel";
+import { probeCapabilities } from "./lib/webauthn";
+import type { WebAuthnCapabilities } from "./lib/webauthn";
 
 // ---------------------------------------------------------------------------
 // Application state machine
@@ -16,86 +38,191 @@ import type { DerivedKeys } from "./lib/crypto";
 type AppState = "auth" | "payment" | "ticket" | "error";
 type Tab = "app" | "verifier" | "backend";
 
+/** A ticket whose key pair has been re-derived from the passkey. */
+interface UnlockedTicket {
+  record: PaymentRecord;
+  keys: DerivedKeys;
+}
+
 function App() {
+  const backend = useBackend();
+
   // State machine
   const [appState, setAppState] = useState<AppState>("auth");
   const [activeTab, setActiveTab] = useState<Tab>("app");
   const [error, setError] = useState("");
+  // Typed ceremony failure, and the screen to return to on retry
+  const [failure, setFailure] = useState<WebAuthnError | null>(null);
+  const [failedState, setFailedState] = useState<AppState>("auth");
+
 
   // Crypto state (displayed in debug panel)
+  const [credentialId, setCredentialId] = useState<Uint8Array | null>(null);
   const [prfOutputHex, setPrfOutputHex] = useState("");
-  const [derivedKeysState, setDerivedKeysState] = useState<DerivedKeys | null>(
-    null,
-  );
-  const [paymentRecord, setPaymentRecord] = useState<PaymentRecord | null>(
-    null,
+  const [session, setSession] = useState<AuthSession | null>(null);
+  const [accountKeys, setAccountKeys] = useState<DerivedKeys | null>(null);
+  const [tickets, setTickets] = useState<UnlockedTicket[]>([]);
+  const [activeTicketId, setActiveTicketId] = useState("");
+
+  // Encrypted local vault (account AES key)
+  const [vault, setVault] = useState<Vault | null>(null);
+  const [email, setEmail] = useState("");
+  const [ticketSource, setTicketSource] = useState<"backend" | "vault" | "">(
+    "",
   );
+  const [vaultEntryCount, setVaultEntryCount] = useState(0);
+  const [rpVerified, setRpVerified] = useState<boolean | null>(null);
+  const activeTicket =
+    tickets.find((t) => t.record.ticketId === activeTicketId) ?? null;
 
   // Debug panel toggle
   const [showDebug, setShowDebug] = useState(true);
 
+  // Browser / authenticator capabilities, probed before any ceremony (again
+  // on returning to the app: the software authenticator may be toggled)
+  const [capabilities, setCapabilities] =
+    useState<WebAuthnCapabilities | null>(null);
+  useEffect(() => {
+    if (activeTab === "app") probeCapabilities().then(setCapabilities);
+  }, [activeTab]);
+
   // -------------------------------------------------------------------------
   // Auth → derive keys → check backend → payment or ticket
   // -------------------------------------------------------------------------
-  const handleAuthenticated = async (params: {
-    email: string;
-    prfOutput: Uint8Array;
-    credentialId: Uint8Array;
-    mode: "register" | "signin";
-  }) => {
+  const handleAuthenticated = async (params: AuthSession) => {
     try {
       setError("");
-      setPrfOutputHex(bytesToHex(params.prfOutput));
-
-      // Derive keys from PRF output
-      const keys = await deriveKeys(params.prfOutput);
-      setDerivedKeysState(keys);
-
-      // Check fake backend for existing payment
-      const record = await lookupByPublicKey(keys.ecdsaKeyPair.publicKeyJwk);
+      setSession(params);
+      setCredentialId(params.credentialId);
+      setRpVerified(params.rpVerified);
+      setPrfOutputHex(params.prfOutput ? bytesToHex(params.prfOutput) : "");
+
+      // Derive account-level keys from the master secret (the same whichever
+      // passkey unwrapped it)
+      const keys = await deriveKeys(params.masterSecret);
+      setAccountKeys(keys);
+
+      // Unlock the local vault with the account AES key
+      const credentialIdB64u = base64urlEncode(params.credentialId);
+      const openedVault = await openVault(keys.aesKey, params.accountId);
+      const meta = await getMetadata(openedVault);
+      const now = new Date().toISOString();
+      const userEmail =
+        params.mode === "register" ? params.email : (meta?.email ?? params.email);
+      await putMetadata(openedVault, {
+        email: userEmail,
+        accountId: params.accountId,
+        credentialId: credentialIdB64u,
+        createdAt: meta?.createdAt ?? now,
+        lastUnlockAt: now,
+      });
+      setVault(openedVault);
+      setEmail(userEmail);
+
+      // Tickets held by the account: backend first, vault if unavailable
+      let records: PaymentRecord[];
+      try {
+        records = await backend.listRecordsForAccount(params.accountId);
+        for (const record of records) await putTicket(openedVault, record);
+        setTicketSource("backend");
+      } catch {
+        records = await listTickets(openedVault);
+        setTicketSource("vault");
+      }
+      setVaultEntryCount(await countEntries(openedVault));
 
-      if (record) {
-        // Existing payment found → go to ticket
-        setPaymentRecord(record);
-        setAppState("ticket");
-      } else {
-        // No payment → go to payment screen
+      if (records.length === 0) {
+        // No ticket yet → go to payment screen
         setAppState("payment");
+        return;
       }
+
+      // Re-derive every ticket's key (master secret + Ticket ID)
+      const ticketKeys = await deriveTicketKeys(
+        params.masterSecret,
+        records.map((r) => r.ticketId),
+      );
+      const unlocked: UnlockedTicket[] = [];
+      for (const record of records) {
+        const recordKeys = ticketKeys.get(record.ticketId)!;
+        const thumbprint = await jwkThumbprint(
+          recordKeys.ecdsaKeyPair.publicKeyJwk,
+        );
+        if (thumbprint !== record.thumbprint) {
+          throw new Error(
+            `Derived key does not match ticket ${record.ticketId}.`,
+          );
+        }
+        unlocked.push({ record, keys: recordKeys });
+      }
+
+      setTickets(unlocked);
+      setActiveTicketId(unlocked[unlocked.length - 1].record.ticketId);
+      setAppState("ticket");
     } catch (err) {
       handleError(err instanceof Error ? err.message : String(err));
     }
   };
 
   // -------------------------------------------------------------------------
-  // Payment complete → store record → ticket
+  // Payment complete → ticket
   // -------------------------------------------------------------------------
-  const handlePaymentComplete = async () => {
-    if (!derivedKeysState) return;
-    try {
-      // Look up the freshly stored record
-      const record = await lookupByPublicKey(
-        derivedKeysState.ecdsaKeyPair.publicKeyJwk,
-      );
-      if (!record) throw new Error("Payment record not found after storage.");
-      setPaymentRecord(record);
-      setAppState("ticket");
-    } catch (err) {
-      handleError(err instanceof Error ? err.message : String(err));
+  const handlePaymentComplete = async (
+    record: PaymentRecord,
+    keys: DerivedKeys,
+  ) => {
+    setTickets((prev) => [...prev, { record, keys }]);
+    setActiveTicketId(record.ticketId);
+    setAppState("ticket");
+    if (vault) {
+      await putTicket(vault, record);
+      setVaultEntryCount(await countEntries(vault));
     }
   };
 
-  const handleError = (msg: string) => {
-    setError(msg);
+  // Keep the last signed barcode of each ticket in the vault
+  const handleSigned = async (ticketId: string, barcode: TicketBarcode) => {
+    if (!vault) return;
+    await putLastPayload(vault, {
+      ticketId,
+      barcodeHex: bytesToHex(barcode.bytes),
+      signatureDate: barcode.signatureDate.toISOString(),
+    });
+  };
+
+  // A cancelled ticket stays listed, revoked, on the backend and the vault
+  const handleCancelled = async (record: PaymentRecord) => {
+    setTickets((prev) =>
+      prev.map((t) =>
+        t.record.ticketId === record.ticketId ? { ...t, record } : t,
+      ),
+    );
+    if (vault) await putTicket(vault, record);
+  };
+
+  const handleError = (err: unknown) => {
+    setError(err instanceof Error ? err.message : String(err));
+    setFailure(err instanceof WebAuthnError ? err : null);
+    setFailedState(appState);
     setAppState("error");
   };
 
   const handleReset = () => {
     setAppState("auth");
     setError("");
+    setFailure(null);
+    setCredentialId(null);
+    setSession(null);
     setPrfOutputHex("");
-    setDerivedKeysState(null);
-    setPaymentRecord(null);
+    setAccountKeys(null);
+    setTickets([]);
+    setActiveTicketId("");
+    vault?.db.close();
+    setVault(null);
+    setEmail("");
+    setTicketSource("");
+    setVaultEntryCount(0);
+    setRpVerified(null);
   };
 
   // -------------------------------------------------------------------------
@@ -157,32 +284,64 @@ function App() {
             {/* Main content based on state */}
             {appState === "auth" && (
               <AuthScreen
+                capabilities={capabilities}
                 onAuthenticated={handleAuthenticated}
-                onError={(msg) => handleError(msg)}
+                onError={handleError}
               />
             )}
 
-            {appState === "payment" && derivedKeysState && (
+            {appState === "payment" && session && (
               <PaymentScreen
-                ecdsaPublicKeyJwk={derivedKeysState.ecdsaKeyPair.publicKeyJwk}
+                accountId={session.accountId}
+                credentialId={session.credentialId}
+                masterSecret={session.masterSecret}
                 onPaymentComplete={handlePaymentComplete}
-                onError={(msg) => handleError(msg)}
+                onError={handleError}
               />
             )}
 
-            {appState === "ticket" &&
-              derivedKeysState &&
-              paymentRecord && (
+            {appState === "ticket" && activeTicket && (
+              <>
+                {ticketSource === "vault" && (
+                  <div className="bg-amber-900/40 text-amber-300 border border-amber-800 rounded-md p-3 text-sm">
+                    Backend unavailable — tickets loaded from the encrypted
+                    local vault.
+                  </div>
+                )}
+                <TicketPicker
+                  tickets={tickets}
+                  activeTicketId={activeTicketId}
+                  onSelect={setActiveTicketId}
+                  onBuyAnother={() => setAppState("payment")}
+                />
                 <TicketScreen
-                  record={paymentRecord}
-                  ecdsaPrivateKey={derivedKeysState.ecdsaKeyPair.privateKey}
+                  key={activeTicket.record.ticketId}
+                  record={activeTicket.record}
+                  ecdsaPrivateKey={activeTicket.keys.ecdsaKeyPair.privateKey}
                   ecdsaPublicKeyJwk={
-                    derivedKeysState.ecdsaKeyPair.publicKeyJwk
+                    activeTicket.keys.ecdsaKeyPair.publicKeyJwk
+                  }
+                  onSigned={(barcode) =>
+                    handleSigned(activeTicket.record.ticketId, barcode)
                   }
+                  onCancelled={handleCancelled}
                 />
-              )}
+              </>
+            )}
 
-            {appState === "error" && (
+            {appState === "error" && failure && (
+              <WebAuthnErrorPanel
+                error={failure}
+                actions={{
+                  retry: () => setAppState(failedState),
+                  "use-another-authenticator": handleReset,
+                }}
+                onDismiss={handleReset}
+                dismissLabel="Start over"
+              />
+            )}
+
+            {appState === "error" && !failure && (
               <div className="bg-red-900/50 text-red-300 border border-red-800 rounded-lg p-5 space-y-3">
                 <h2 className="font-semibold">Error</h2>
                 <p className="text-sm">{error}</p>
@@ -200,9 +359,17 @@ function App() {
               show={showDebug}
               onToggle={() => setShowDebug(!showDebug)}
               appState={appState}
+              capabilities={capabilities}
+              credentialId={credentialId}
+              session={session}
+              rpVerified={rpVerified}
+              email={email}
+              ticketSource={ticketSource}
+              vaultEntryCount={vaultEntryCount}
               prfOutputHex={prfOutputHex}
-              derivedKeys={derivedKeysState}
-              paymentRecord={paymentRecord}
+              accountKeys={accountKeys}
+              ticketKeys={activeTicket?.keys ?? null}
+              paymentRecord={activeTicket?.record ?? null}
             />
           </div>
         )}
@@ -212,8 +379,9 @@ function App() {
 
         {/* Footer */}
         <footer className="text-center text-gray-600 text-xs py-4">
-          This is a demo application. The "backend" is localStorage. No data
-          leaves your browser.
+          This is a demo application. The "backend" is localStorage, and tickets
+          are cached in an encrypted IndexedDB vault. No data leaves your
+          browser.
         </footer>
       </div>
     </div>
@@ -228,15 +396,31 @@ function DebugPanel({
   show,
   onToggle,
   appState,
+  capabilities,
+  credentialId,
+  session,
+  rpVerified,
+  email,
+  ticketSource,
+  vaultEntryCount,
   prfOutputHex,
-  derivedKeys,
+  accountKeys,
+  ticketKeys,
   paymentRecord,
 }: {
   show: boolean;
   onToggle: () => void;
   appState: AppState;
+  capabilities: WebAuthnCapabilities | null;
+  credentialId: Uint8Array | null;
+  session: AuthSession | null;
+  rpVerified: boolean | null;
+  email: string;
+  ticketSource: "backend" | "vault" | "";
+  vaultEntryCount: number;
   prfOutputHex: string;
-  derivedKeys: DerivedKeys | null;
+  accountKeys: DerivedKeys | null;
+  ticketKeys: DerivedKeys | null;
   paymentRecord: PaymentRecord | null;
 }) {
   return (
@@ -253,31 +437,99 @@ function DebugPanel({
         <div className="bg-gray-900/50 p-4 space-y-4 text-xs">
           <DebugRow label="App state" value={appState} />
 
+          {capabilities && (
+            <DebugRow
+              label="WebAuthn capabilities (probed before registration)"
+              value={formatCapabilities(capabilities)}
+              pre
+            />
+          )}
+
+          {credentialId && (
+            <DebugRow
+              label="Credential ID (base64url)"
+              value={base64urlEncode(credentialId)}
+            />
+          )}
+
+          {rpVerified !== null && (
+            <DebugRow
+              label="Relying party verification"
+              value={
+                rpVerified
+                  ? "Assertion verified by the backend (challenge, origin, rpIdHash, UP/UV, signature, counter)"
+                  : "Skipped — backend unavailable, unlocked from the local vault"
+              }
+            />
+          )}
+
           {prfOutputHex && (
-            <DebugRow label="PRF output (32 bytes, hex)" value={prfOutputHex} />
+            <DebugRow
+              label="PRF output of this passkey (fixed salt, 32 bytes, hex)"
+              value={prfOutputHex}
+            />
+          )}
+
+          {session && (
+            <>
+              <DebugRow
+                label="Account (WebAuthn user handle)"
+                value={session.accountId}
+              />
+              <DebugRow
+                label="Master secret (wrapped per passkey)"
+                value={`[32 bytes — ${
+                  session.secretSource === "new"
+                    ? "generated at registration"
+                    : `unwrapped, blob from ${session.secretSource}`
+                }]`}
+              />
+              <DebugRow
+                label="Unlocked with"
+                value={
+                  session.unlockedWith === "prf"
+                    ? "PRF output (hardware-bound)"
+                    : "Passphrase (PBKDF2 fallback — weaker assurance)"
+                }
+              />
+            </>
+          )}
+
+          {accountKeys && (
+            <>
+              <DebugRow
+                label="Account AES-GCM-256 key"
+                value="[CryptoKey — non-extractable, encrypts the local vault]"
+              />
+              <DebugRow label="Account email (vault metadata)" value={email} />
+              <DebugRow
+                label="Local vault (IndexedDB dosipas-vault)"
+                value={`${vaultEntryCount} encrypted entries · tickets loaded from ${ticketSource || "—"}`}
+              />
+            </>
           )}
 
-          {derivedKeys && (
+          {ticketKeys && paymentRecord && (
             <>
               <DebugRow
-                label="ECDSA scalar (hex)"
-                value={derivedKeys.ecdsaScalarHex}
+                label="Ticket ID (HKDF salt input)"
+                value={paymentRecord.ticketId}
+              />
+              <DebugRow
+                label="Ticket ECDSA scalar (hex)"
+                value={ticketKeys.ecdsaScalarHex}
               />
               <DebugRow
-                label="ECDSA public key (JWK)"
+                label="Ticket ECDSA public key (JWK)"
                 value={JSON.stringify(
-                  derivedKeys.ecdsaKeyPair.publicKeyJwk,
+                  ticketKeys.ecdsaKeyPair.publicKeyJwk,
                   null,
                   2,
                 )}
                 pre
               />
               <DebugRow
-                label="AES-GCM-256 key"
-                value="[CryptoKey — non-extractable, encrypt+decrypt]"
-              />
-              <DebugRow
-                label="ECDSA private key"
+                label="Ticket ECDSA private key"
                 value="[CryptoKey — extractable, sign]"
               />
             </>
@@ -291,7 +543,7 @@ function DebugPanel({
             />
           )}
 
-          {!prfOutputHex && (
+          {!session && (
             <p className="text-gray-600 italic">
               Authenticate to populate internal state.
             </p>
@@ -302,6 +554,74 @@ function DebugPanel({
   );
 }
 
+// ---------------------------------------------------------------------------
+// Ticket picker — one passkey can hold several tickets
+// ---------------------------------------------------------------------------
+
+function TicketPicker({
+  tickets,
+  activeTicketId,
+  onSelect,
+  onBuyAnother,
+}: {
+  tickets: UnlockedTicket[];
+  activeTicketId: string;
+  onSelect: (ticketId: string) => void;
+  onBuyAnother: () => void;
+}) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {tickets.map(({ record }, i) => (
+        <button
+          key={record.ticketId}
+          onClick={() => onSelect(record.ticketId)}
+          title={record.ticketId}
+          className={`rounded-md px-3 py-1.5 text-xs font-medium transition-colors cursor-pointer ${
+            record.ticketId === activeTicketId
+              ? "bg-emerald-800 text-emerald-100"
+              : "bg-gray-800 text-gray-400 hover:text-gray-200"
+          }`}
+        >
+          Ticket {i + 1}
+          {record.revokedAt && (record.refund ? " (cancelled)" : " (revoked)")}
+        </button>
+      ))}
+      <button
+        onClick={onBuyAnother}
+        className="rounded-md bg-gray-700 hover:bg-gray-600 px-3 py-1.5 text-xs font-medium transition-colors cursor-pointer"
+      >
+        + Buy another ticket
+      </button>
+    </div>
+  );
+}
+
+function formatCapabilities(caps: WebAuthnCapabilities): string {
+  const lines = [
+    `WebAuthn API:            ${caps.webauthn ? "yes" : "no"}`,
+    `Secure context:          ${caps.secureContext ? "yes" : "no"}`,
+    `Platform authenticator:  ${caps.platformAuthenticator}`,
+    `Conditional mediation:   ${caps.conditionalMediation}`,
+    `Hybrid transport:        ${caps.hybridTransport}`,
+    `PRF extension:           ${caps.prf}`,
+    `hmac-secret extension:   ${caps.hmacSecret}`,
+    `Signal API:              ${caps.signalApi ? "yes" : "no"}`,
+  ];
+  if (caps.virtualAuthenticator) {
+    lines.unshift("Software authenticator (dev setting)", "");
+    return lines.join("\n");
+  }
+  if (caps.clientCapabilities) {
+    lines.push("", "getClientCapabilities():");
+    for (const [key, value] of Object.entries(caps.clientCapabilities)) {
+      lines.push(`  ${key}: ${value}`);
+    }
+  } else {
+    lines.push("", "getClientCapabilities(): not implemented");
+  }
+  return lines.join("\n");
+}
+
 function DebugRow({
   label,
   value,
@@ -1,107 +1,666 @@
-import { useState } from "react";
-import { register, authenticate } from "../lib/webauthn";
+import { useEffect, useRef, useState } from "react";
+import {
+  register,
+  authenticate,
+  isAbortError,
+  isConditionalMediationAvailable,
+  signalUnknownCredential,
+} from "../lib/webauthn";
+import type {
+  AttestationResponse,
+  AuthenticateResult,
+  WebAuthnCapabilities,
+} from "../lib/webauthn";
+import {
+  PrfNoResultError,
+  PrfUnsupportedError,
+  WebAuthnError,
+} from "../lib/webauthnErrors";
+import { useBackend } from "../lib/backendContext";
+import { base64urlEncode } from "../lib/crypto";
+import { isBackendOnline } from "../lib/fakeBackend";
+import {
+  DEFAULT_PBKDF2_ITERATIONS,
+  enrollCredential,
+  generateMasterSecret,
+  loadWrappedSecret,
+  unwrapMasterSecret,
+} from "../lib/keyWrapping";
+import type { UnlockSecret } from "../lib/keyWrapping";
+import {
+  beginAddCredential,
+  beginAuthentication,
+  beginRegistration,
+  finishAuthentication,
+  finishRegistration,
+} from "../lib/relyingParty";
+import { rememberAccount, resolveAccount } from "../lib/accountStore";
+import CredentialManager from "./CredentialManager";
+import WebAuthnErrorPanel from "./WebAuthnErrorPanel";
+
+/** An unlocked account: the master secret recovered with one passkey. */
+export interface AuthSession {
+  email: string;
+  /** Account (WebAuthn user handle, base64url) */
+  accountId: string;
+  /** Passkey used for this unlock */
+  credentialId: Uint8Array;
+  /** That passkey's PRF output (null in passphrase mode) */
+  prfOutput: Uint8Array | null;
+  masterSecret: Uint8Array;
+  /** What unwrapped the master secret: PRF, or the weaker passphrase */
+  unlockedWith: "prf" | "passphrase";
+  mode: "register" | "signin";
+  /** The backend verified the assertion (false during an outage) */
+  rpVerified: boolean;
+  /** Backend session the verified assertion opened (null during an outage) */
+  rpSessionToken: string | null;
+  /** Where the wrapped master secret came from */
+  secretSource: "new" | "backend" | "device";
+}
 
 interface AuthScreenProps {
-  onAuthenticated: (params: {
-    email: string;
-    prfOutput: Uint8Array;
-    credentialId: Uint8Array;
-    mode: "register" | "signin";
-  }) => void;
+  /** Probed capabilities (null while probing) */
+  capabilities: WebAuthnCapabilities | null;
+  onAuthenticated: (session: AuthSession) => void;
   onError: (error: string) => void;
 }
 
+/** Pending passphrase entry, resolved by the PassphrasePrompt form. */
+interface PassphraseRequest {
+  purpose: "create" | "unlock";
+  error?: string;
+  resolve: (answer: { passphrase: string; iterations: number } | null) => void;
+}
+
+const PASSPHRASE_MIN_LENGTH = 10;
+const PBKDF2_COST_OPTIONS = [310_000, DEFAULT_PBKDF2_ITERATIONS, 1_200_000];
+
 export default function AuthScreen({
+  capabilities,
   onAuthenticated,
   onError,
 }: AuthScreenProps) {
+  const backend = useBackend();
   const [email, setEmail] = useState("");
   const [loading, setLoading] = useState(false);
+  // Signed-in session whose passkeys are being managed before continuing
+  const [managed, setManaged] = useState<AuthSession | null>(null);
+  const [passphraseRequest, setPassphraseRequest] =
+    useState<PassphraseRequest | null>(null);
+  // Passkey autofill: detected support, and the pending conditional request
+  const [autofill, setAutofill] = useState(false);
+  const [autofillRun, setAutofillRun] = useState(0);
+  const autofillRef = useRef<AbortController | null>(null);
+  // Failed ceremony shown with its recovery action, and what "retry" reruns
+  const [failure, setFailure] = useState<WebAuthnError | null>(null);
+  const retryRef = useRef<() => void>(() => {});
+
+  const fail = (err: unknown) => {
+    if (err instanceof WebAuthnError) setFailure(err);
+    else onError(err instanceof Error ? err.message : String(err));
+  };
+
+  const askPassphrase = (purpose: "create" | "unlock", error?: string) =>
+    new Promise<{ passphrase: string; iterations: number } | null>(
+      (resolve) =>
+        setPassphraseRequest({
+          purpose,
+          error,
+          resolve: (answer) => {
+            setPassphraseRequest(null);
+            resolve(answer);
+          },
+        }),
+    );
+
+  /**
+   * Secret that wraps the master secret for a new credential: its PRF
+   * output, or a passphrase when the authenticator has no PRF.
+   */
+  const enrollmentSecret = async (
+    prfEnabled: boolean,
+    prfOutput: Uint8Array | null,
+  ): Promise<UnlockSecret> => {
+    if (prfEnabled) {
+      if (!prfOutput) throw new PrfNoResultError();
+      return { kind: "prf", prfOutput };
+    }
+    const answer = await askPassphrase("create");
+    if (!answer) throw new PrfUnsupportedError("registration");
+    return { kind: "passphrase", ...answer };
+  };
+
+  /**
+   * Wrap a fresh master secret for an account's first credential. Also
+   * finishes an account whose registration stopped before this step.
+   */
+  const setUpAccount = async (
+    account: { userHandle: string; email: string },
+    auth: AuthenticateResult,
+    sessionToken: string,
+    prfEnabled: boolean,
+    mode: AuthSession["mode"],
+  ): Promise<AuthSession> => {
+    const unlock = await enrollmentSecret(prfEnabled, auth.prfOutput);
+    const masterSecret = generateMasterSecret();
+    await enrollCredential({
+      backend,
+      sessionToken,
+      masterSecret,
+      unlock,
+      credentialId: base64urlEncode(auth.credentialId),
+      accountId: account.userHandle,
+    });
+    return {
+      email: account.email,
+      accountId: account.userHandle,
+      credentialId: auth.credentialId,
+      prfOutput: auth.prfOutput,
+      masterSecret,
+      unlockedWith: unlock.kind,
+      mode,
+      rpVerified: true,
+      rpSessionToken: sessionToken,
+      secretSource: "new",
+    };
+  };
 
   const handleRegister = async () => {
     if (!email.trim()) {
       onError("Please enter an email address.");
       return;
     }
+    stopAutofill();
+    setFailure(null);
+    retryRef.current = handleRegister;
     setLoading(true);
     try {
-      const result = await register(email.trim());
-      if (!result.prfSupported) {
-        onError(
-          "Your authenticator does not support the PRF extension. " +
-            "Try a FIDO2 security key or a platform authenticator with PRF support (Chrome 116+, Safari 18+).",
+      const { challenge, userHandle, excludeCredentials } =
+        await beginRegistration(email.trim());
+      const result = await register(email.trim(), {
+        challenge,
+        userId: userHandle,
+        excludeCredentials,
+      });
+      // Backend verifies the attestation and stores the public key
+      const { account } = await finishOrDiscard(
+        result.credentialId,
+        result.attestation,
+      );
+      rememberAccount(
+        account.userHandle,
+        account.email,
+        base64urlEncode(result.credentialId),
+      );
+      // The account exists now: retrying means signing in to finish it
+      retryRef.current = handleSignIn;
+
+      // Now authenticate to get PRF output, and wrap a fresh master secret
+      // under it (or under a passphrase if the authenticator lacks PRF)
+      const { auth, sessionToken } = await verifiedAuthenticate(
+        result.credentialId,
+      );
+      onAuthenticated(
+        await setUpAccount(
+          account,
+          auth,
+          sessionToken,
+          result.prfSupported,
+          "register",
+        ),
+      );
+    } catch (err) {
+      fail(err);
+      restartAutofill();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Discoverable sign-in with any enrolled passkey, from a modal prompt or
+   * from autofill. The backend verifies the assertion and resolves it to an
+   * account; during an outage the user handle and credential ID are
+   * resolved against the accounts known on this device, and the master
+   * secret comes from this device's copy. Passphrase-mode credentials
+   * prompt for the passphrase until it unwraps the secret.
+   */
+  const signIn = async (
+    options: { mediation?: "conditional"; signal?: AbortSignal } = {},
+  ): Promise<AuthSession> => {
+    const login = isBackendOnline() ? await beginAuthentication() : null;
+    const auth = await authenticate({ challenge: login?.challenge, ...options });
+    const credentialId = base64urlEncode(auth.credentialId);
+    const verified = login
+      ? await finishAuthentication(auth.credentialId, auth.assertion)
+      : null;
+    const account = verified
+      ? rememberAccount(
+          verified.account.userHandle,
+          verified.account.email,
+          credentialId,
+        )
+      : resolveAccount(
+          credentialId,
+          auth.userHandle ? base64urlEncode(auth.userHandle) : null,
         );
-        setLoading(false);
-        return;
+    const loaded = await loadWrappedSecret(backend, credentialId);
+    if (
+      !loaded &&
+      verified &&
+      (await backend.listWrappedSecrets(account.userHandle)).length === 0
+    ) {
+      // Registration stopped before the master secret was wrapped (e.g. the
+      // passphrase prompt was cancelled): finish setting up the account
+      return setUpAccount(
+        account,
+        auth,
+        verified.sessionToken,
+        verified.credential.prfEnabled,
+        "register",
+      );
+    }
+    if (!loaded) {
+      throw new Error(
+        "This passkey holds no wrapped master secret: it was revoked, or never enrolled.",
+      );
+    }
+    if (loaded.wrapped.accountId !== account.userHandle) {
+      throw new Error("This passkey's wrapped master secret belongs to another account.");
+    }
+
+    let masterSecret: Uint8Array;
+    if (loaded.wrapped.kdf === "pbkdf2") {
+      let error: string | undefined;
+      for (;;) {
+        const answer = await askPassphrase("unlock", error);
+        if (!answer) throw new Error("Passphrase entry cancelled.");
+        try {
+          masterSecret = await unwrapMasterSecret(loaded.wrapped, {
+            kind: "passphrase",
+            passphrase: answer.passphrase,
+          });
+          break;
+        } catch (err) {
+          error = err instanceof Error ? err.message : String(err);
+        }
+      }
+    } else {
+      if (!auth.prfOutput) {
+        throw auth.prfSupported
+          ? new PrfNoResultError()
+          : new PrfUnsupportedError("sign-in");
       }
-      // Now authenticate to get PRF output
-      const prfOutput = await authenticate(result.credentialId);
-      onAuthenticated({
-        email: email.trim(),
-        prfOutput,
-        credentialId: result.credentialId,
-        mode: "register",
+      masterSecret = await unwrapMasterSecret(loaded.wrapped, {
+        kind: "prf",
+        prfOutput: auth.prfOutput,
       });
+    }
+
+    return {
+      email: account.email,
+      accountId: account.userHandle,
+      credentialId: auth.credentialId,
+      prfOutput: auth.prfOutput,
+      masterSecret,
+      unlockedWith: loaded.wrapped.kdf === "pbkdf2" ? "passphrase" : "prf",
+      mode: "signin",
+      rpVerified: verified !== null,
+      rpSessionToken: verified?.sessionToken ?? null,
+      secretSource: loaded.source,
+    };
+  };
+
+  // Latest handlers for the long-lived autofill request
+  const autofillHandlers = useRef({ signIn, onAuthenticated, fail });
+  useEffect(() => {
+    autofillHandlers.current = { signIn, onAuthenticated, fail };
+  });
+
+  // Offer passkeys in the email field's autofill while the screen is idle.
+  // A modal ceremony aborts the pending request; it restarts afterwards.
+  useEffect(() => {
+    const controller = new AbortController();
+    autofillRef.current = controller;
+
+    const run = async () => {
+      const available = await isConditionalMediationAvailable();
+      if (controller.signal.aborted) return;
+      setAutofill(available);
+      if (!available) return;
+      const handlers = autofillHandlers.current;
+      try {
+        const session = await handlers.signIn({
+          mediation: "conditional",
+          signal: controller.signal,
+        });
+        handlers.onAuthenticated(session);
+      } catch (err) {
+        if (!isAbortError(err) && !controller.signal.aborted) {
+          handlers.fail(err);
+        }
+      }
+    };
+    run();
+
+    return () => controller.abort();
+  }, [autofillRun]);
+
+  /** Abort pending autofill: only one WebAuthn request can be in flight. */
+  const stopAutofill = () => autofillRef.current?.abort();
+  const restartAutofill = () => setAutofillRun((n) => n + 1);
+
+  const handleSignIn = async () => {
+    stopAutofill();
+    setFailure(null);
+    retryRef.current = handleSignIn;
+    setLoading(true);
+    try {
+      onAuthenticated(await signIn());
     } catch (err) {
-      onError(err instanceof Error ? err.message : String(err));
+      fail(err);
+      restartAutofill();
     } finally {
       setLoading(false);
     }
   };
 
-  const handleSignIn = async () => {
+  const handleManage = async () => {
+    stopAutofill();
+    setFailure(null);
+    retryRef.current = handleManage;
     setLoading(true);
     try {
-      // Discoverable credential — no credential ID needed
-      const prfOutput = await authenticate();
-      onAuthenticated({
-        email: "(discoverable)",
-        prfOutput,
-        credentialId: new Uint8Array(0),
-        mode: "signin",
-      });
+      const session = await signIn();
+      if (!session.rpSessionToken) {
+        throw new Error("Managing passkeys needs the backend.");
+      }
+      setManaged(session);
     } catch (err) {
-      onError(err instanceof Error ? err.message : String(err));
+      fail(err);
+      restartAutofill();
     } finally {
       setLoading(false);
     }
   };
 
+  /**
+   * Register a backup passkey and wrap the same master secret for it. The
+   * signed-in passkey confirms the request first: the backend only adds a
+   * passkey right after an assertion.
+   */
+  const addBackup = async (session: AuthSession) => {
+    const { sessionToken } = await verifiedAuthenticate(session.credentialId);
+    const options = await beginAddCredential(sessionToken);
+    const result = await register(options.email, {
+      challenge: options.challenge,
+      userId: options.userHandle,
+      excludeCredentials: options.excludeCredentials,
+    });
+    await finishOrDiscard(result.credentialId, result.attestation);
+    rememberAccount(
+      session.accountId,
+      session.email,
+      base64urlEncode(result.credentialId),
+    );
+
+    // Evaluate the new passkey's PRF and wrap the same master secret, in
+    // the session it opens
+    const { auth, sessionToken: backupSession } = await verifiedAuthenticate(
+      result.credentialId,
+    );
+    await enrollCredential({
+      backend,
+      sessionToken: backupSession,
+      masterSecret: session.masterSecret,
+      unlock: await enrollmentSecret(result.prfSupported, auth.prfOutput),
+      credentialId: base64urlEncode(auth.credentialId),
+      accountId: session.accountId,
+    });
+  };
+
+  // WebAuthn cannot run at all here: no ceremony button can succeed
+  const unavailable =
+    capabilities !== null &&
+    (!capabilities.webauthn || !capabilities.secureContext);
+
+  if (passphraseRequest) {
+    return <PassphrasePrompt request={passphraseRequest} />;
+  }
+
+  if (managed) {
+    return (
+      <CredentialManager
+        email={managed.email}
+        accountId={managed.accountId}
+        currentCredentialId={base64urlEncode(managed.credentialId)}
+        sessionToken={managed.rpSessionToken!}
+        onAddBackup={() => addBackup(managed)}
+        onContinue={() => onAuthenticated(managed)}
+        onError={onError}
+      />
+    );
+  }
+
   return (
     <section className="bg-gray-900 rounded-lg p-6 space-y-5 border border-gray-800">
       <h2 className="text-xl font-semibold">Authenticate</h2>
       <p className="text-gray-400 text-sm">
         Register a new passkey or sign in with an existing one. The PRF
-        extension derives deterministic cryptographic keys from your
-        authenticator.
+        extension unwraps your account's master secret, from which every
+        ticket key is derived.
       </p>
 
+      {capabilities && <CapabilityNotice capabilities={capabilities} />}
+
+      {failure && (
+        <WebAuthnErrorPanel
+          error={failure}
+          actions={{
+            retry: () => retryRef.current(),
+            "sign-in": handleSignIn,
+            "use-another-authenticator": handleSignIn,
+            // Signing in with the new passkey resumes its enrollment
+            "use-fallback": handleSignIn,
+          }}
+          onDismiss={() => setFailure(null)}
+        />
+      )}
+
       <div className="space-y-3">
         <input
           type="email"
+          autoComplete="username webauthn"
           placeholder="Email address"
           value={email}
           onChange={(e) => setEmail(e.target.value)}
           disabled={loading}
           className="w-full rounded-md bg-gray-800 border border-gray-700 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
         />
+        {autofill && (
+          <p className="text-xs text-gray-500">
+            Saved passkeys are also offered in the email field's autofill.
+          </p>
+        )}
         <div className="flex gap-3">
           <button
             onClick={handleRegister}
-            disabled={loading}
+            disabled={loading || unavailable}
             className="flex-1 rounded-md bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 px-5 py-2.5 text-sm font-medium transition-colors cursor-pointer"
           >
             {loading ? "Working..." : "Register new passkey"}
           </button>
           <button
             onClick={handleSignIn}
-            disabled={loading}
+            disabled={loading || unavailable}
             className="flex-1 rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50 px-5 py-2.5 text-sm font-medium transition-colors cursor-pointer"
           >
             {loading ? "Working..." : "Sign in with passkey"}
           </button>
         </div>
+        <button
+          onClick={handleManage}
+          disabled={loading || unavailable}
+          className="text-xs text-gray-500 hover:text-gray-300 disabled:opacity-50 cursor-pointer"
+        >
+          Sign in and manage backup passkeys…
+        </button>
+      </div>
+    </section>
+  );
+}
+
+/**
+ * What the capability probe means for this user, before any ceremony:
+ * WebAuthn unusable, no PRF (passphrase mode ahead), or no built-in
+ * authenticator (a security key or phone is needed).
+ */
+function CapabilityNotice({
+  capabilities,
+}: {
+  capabilities: WebAuthnCapabilities;
+}) {
+  if (!capabilities.webauthn || !capabilities.secureContext) {
+    return (
+      <div className="bg-red-900/50 text-red-300 border border-red-800 rounded-md p-3 text-sm">
+        {!capabilities.webauthn
+          ? "This browser does not support passkeys (WebAuthn)."
+          : "Passkeys need a secure context: open the app over HTTPS or on localhost."}
+      </div>
+    );
+  }
+  return (
+    <>
+      {capabilities.prf === "unsupported" && (
+        <div className="bg-amber-900/40 text-amber-300 border border-amber-800 rounded-md p-3 text-sm">
+          This browser reports no PRF support: a new passkey's keys will be
+          protected by a passphrase instead — a weaker assurance level.
+        </div>
+      )}
+      {capabilities.platformAuthenticator === "unsupported" && (
+        <p className="text-xs text-gray-500">
+          No built-in authenticator detected: use a security key
+          {capabilities.hybridTransport !== "unsupported" && " or your phone"}.
+        </p>
+      )}
+    </>
+  );
+}
+
+/**
+ * Passphrase entry for authenticators without PRF. Creating one also picks
+ * the PBKDF2 cost, stored with the wrapped secret.
+ */
+function PassphrasePrompt({ request }: { request: PassphraseRequest }) {
+  const [passphrase, setPassphrase] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [iterations, setIterations] = useState(DEFAULT_PBKDF2_ITERATIONS);
+  const creating = request.purpose === "create";
+
+  let problem = "";
+  if (creating && passphrase.length < PASSPHRASE_MIN_LENGTH) {
+    problem = `Use at least ${PASSPHRASE_MIN_LENGTH} characters.`;
+  } else if (creating && confirm !== passphrase) {
+    problem = "Passphrases do not match.";
+  }
+
+  return (
+    <section className="bg-gray-900 rounded-lg p-6 space-y-5 border border-gray-800">
+      <h2 className="text-xl font-semibold">
+        {creating ? "Choose a passphrase" : "Enter your passphrase"}
+      </h2>
+      {creating ? (
+        <div className="bg-amber-900/40 text-amber-300 border border-amber-800 rounded-md p-3 text-sm">
+          This authenticator does not support the PRF extension. Your keys
+          will be protected by a passphrase instead — a weaker assurance
+          level: tickets are marked as passphrase-protected and verifiers may
+          refuse them.
+        </div>
+      ) : (
+        <p className="text-gray-400 text-sm">
+          This passkey uses passphrase mode: the passphrase unlocks your
+          account keys.
+        </p>
+      )}
+
+      <div className="space-y-3">
+        <input
+          type="password"
+          placeholder="Passphrase"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          autoFocus
+          className="w-full rounded-md bg-gray-800 border border-gray-700 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        {creating && (
+          <>
+            <input
+              type="password"
+              placeholder="Confirm passphrase"
+              value={confirm}
+              onChange={(e) => setConfirm(e.target.value)}
+              className="w-full rounded-md bg-gray-800 border border-gray-700 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <label className="flex items-center gap-2 text-xs text-gray-400">
+              Key derivation cost (PBKDF2-SHA256 iterations)
+              <select
+                value={iterations}
+                onChange={(e) => setIterations(Number(e.target.value))}
+                className="rounded-md bg-gray-800 border border-gray-700 px-2 py-1 text-xs"
+              >
+                {PBKDF2_COST_OPTIONS.map((n) => (
+                  <option key={n} value={n}>
+                    {n.toLocaleString("en")}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </>
+        )}
+        {(request.error || (passphrase && problem)) && (
+          <p className="text-red-400 text-xs">{request.error ?? problem}</p>
+        )}
+        <div className="flex gap-3">
+          <button
+            onClick={() => request.resolve({ passphrase, iterations })}
+            disabled={!passphrase || problem !== ""}
+            className="flex-1 rounded-md bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 px-5 py-2.5 text-sm font-medium transition-colors cursor-pointer"
+          >
+            {creating ? "Protect keys with passphrase" : "Unlock"}
+          </button>
+          <button
+            onClick={() => request.resolve(null)}
+            className="flex-1 rounded-md bg-gray-700 hover:bg-gray-600 px-5 py-2.5 text-sm font-medium transition-colors cursor-pointer"
+          >
+            Cancel
+          </button>
+        </div>
       </div>
     </section>
   );
 }
+
+/**
+ * Have the backend verify a new credential. If it refuses it (e.g. a second
+ * account for the same email), ask the authenticator to drop the orphan.
+ */
+async function finishOrDiscard(
+  credentialId: Uint8Array,
+  attestation: AttestationResponse,
+) {
+  try {
+    return await finishRegistration(credentialId, attestation);
+  } catch (err) {
+    await signalUnknownCredential(base64urlEncode(credentialId));
+    throw err;
+  }
+}
+
+/** Authenticate with a backend-issued challenge and have it verified. */
+async function verifiedAuthenticate(credentialId: Uint8Array) {
+  const { challenge } = await beginAuthentication(credentialId);
+  const auth = await authenticate({ credentialId, challenge });
+  const verified = await finishAuthentication(auth.credentialId, auth.assertion);
+  return { auth, ...verified };
+}
@@ -1,27 +1,135 @@
-import { useState } from "react";
-import {
-  listAllRecords,
-  deleteRecord,
-  clearAllRecords,
-} from "../lib/fakeBackend";
+import { useEffect, useState } from "react";
+import { isBackendOnline, setBackendOnline } from "../lib/fakeBackend";
 import type { PaymentRecord } from "../lib/fakeBackend";
+import { BACKEND_KINDS, DEFAULT_HTTP_BASE_URL } from "../lib/backend";
+import type { BackendKind, ValidationEvent } from "../lib/backend";
+import { useBackend, useBackendSelection } from "../lib/backendContext";
+import { describeEntitlement } from "../lib/catalog";
+import {
+  listIssuerKeys,
+  publishKeyList,
+  retireIssuerKey,
+  rotateIssuerKey,
+} from "../lib/keyRegistry";
+import type { IssuerKeyRecord } from "../lib/keyRegistry";
+import { listAccounts, listCredentials } from "../lib/relyingParty";
+import type { RpAccount } from "../lib/relyingParty";
+import {
+  clearVirtualCredentials,
+  getVirtualAuthenticatorSettings,
+  listVirtualCredentials,
+  setVirtualAuthenticatorSettings,
+} from "../lib/virtualAuthenticator";
+import type {
+  VirtualAuthenticatorSettings,
+  VirtualCredential,
+} from "../lib/virtualAuthenticator";
 
 export default function BackendExplorer() {
-  const [records, setRecords] = useState<PaymentRecord[]>(() =>
-    listAllRecords(),
+  const backend = useBackend();
+  const { config, selectBackend } = useBackendSelection();
+  const [records, setRecords] = useState<PaymentRecord[]>([]);
+  const [recordsError, setRecordsError] = useState("");
+  const [validations, setValidations] = useState<ValidationEvent[]>([]);
+  const [reloads, setReloads] = useState(0);
+  const [baseUrl, setBaseUrl] = useState(
+    config.baseUrl ?? DEFAULT_HTTP_BASE_URL,
   );
 
+  const [online, setOnline] = useState(() => isBackendOnline());
+  const [issuerKeys, setIssuerKeys] = useState<IssuerKeyRecord[]>(() =>
+    listIssuerKeys(),
+  );
+  const [keyListJson, setKeyListJson] = useState<string | null>(null);
+  const [accounts, setAccounts] = useState<RpAccount[]>(() => listAccounts());
+  const [virtualSettings, setVirtualSettings] =
+    useState<VirtualAuthenticatorSettings>(() =>
+      getVirtualAuthenticatorSettings(),
+    );
+  const [virtualCredentials, setVirtualCredentials] = useState<
+    VirtualCredential[]
+  >(() => listVirtualCredentials());
+
+  const handleToggleOnline = () => {
+    setBackendOnline(!online);
+    setOnline(!online);
+  };
+
+  const updateVirtualSettings = (settings: VirtualAuthenticatorSettings) => {
+    setVirtualAuthenticatorSettings(settings);
+    setVirtualSettings(settings);
+  };
+
+  const handleClearVirtual = () => {
+    clearVirtualCredentials();
+    setVirtualCredentials([]);
+  };
+
+  // Records come from the selected backend, possibly over the network
+  useEffect(() => {
+    let current = true;
+    Promise.all([backend.listAllRecords(), backend.listValidations()]).then(
+      ([all, log]) => {
+        if (!current) return;
+        setRecords(all);
+        setValidations(log);
+        setRecordsError("");
+      },
+      (err) => {
+        if (!current) return;
+        setRecords([]);
+        setValidations([]);
+        setRecordsError(err instanceof Error ? err.message : String(err));
+      },
+    );
+    return () => {
+      current = false;
+    };
+  }, [backend, reloads]);
+
+  const handleSelectKind = (kind: BackendKind) => {
+    selectBackend(kind === "http" ? { kind, baseUrl } : { kind });
+  };
+
   const refresh = () => {
-    setRecords(listAllRecords());
+    setReloads((n) => n + 1);
+    setIssuerKeys(listIssuerKeys());
+    setAccounts(listAccounts());
+    setVirtualCredentials(listVirtualCredentials());
+  };
+
+  const handleRotate = async () => {
+    await rotateIssuerKey();
+    setKeyListJson(null);
+    refresh();
   };
 
-  const handleDelete = (thumbprint: string) => {
-    deleteRecord(thumbprint);
+  const handleRetire = async (keyId: number) => {
+    await retireIssuerKey(keyId);
+    setKeyListJson(null);
     refresh();
   };
 
-  const handleClearAll = () => {
-    clearAllRecords();
+  const handlePublish = async () => {
+    setKeyListJson(JSON.stringify(await publishKeyList(), null, 2));
+  };
+
+  const handleDelete = async (thumbprint: string) => {
+    await backend.deleteRecord(thumbprint).catch(() => {});
+    refresh();
+  };
+
+  const handleRevoke = async (thumbprint: string) => {
+    await backend
+      .revokeRecord(thumbprint, "Revoked from the backend explorer")
+      .catch((err) =>
+        setRecordsError(err instanceof Error ? err.message : String(err)),
+      );
+    refresh();
+  };
+
+  const handleClearAll = async () => {
+    await backend.clearAllRecords().catch(() => {});
     refresh();
   };
 
@@ -47,12 +155,236 @@ export default function BackendExplorer() {
         </div>
       </div>
 
+      <div className="bg-gray-800 rounded-lg p-4 border border-gray-700 space-y-2 text-sm text-gray-300">
+        <span className="text-xs text-gray-500 uppercase tracking-wide">
+          Payment backend
+        </span>
+        <select
+          value={config.kind}
+          onChange={(e) => handleSelectKind(e.target.value as BackendKind)}
+          className="w-full rounded-md bg-gray-900 border border-gray-700 px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+          {BACKEND_KINDS.map((k) => (
+            <option key={k.kind} value={k.kind}>
+              {k.label}
+            </option>
+          ))}
+        </select>
+        {config.kind === "http" && (
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              selectBackend({ kind: "http", baseUrl });
+            }}
+          >
+            <input
+              value={baseUrl}
+              onChange={(e) => setBaseUrl(e.target.value)}
+              placeholder={DEFAULT_HTTP_BASE_URL}
+              className="flex-1 rounded-md bg-gray-900 border border-gray-700 px-2 py-1.5 text-xs font-mono focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <button
+              type="submit"
+              className="rounded-md bg-gray-700 hover:bg-gray-600 px-3 py-1.5 text-xs font-medium transition-colors cursor-pointer"
+            >
+              Connect
+            </button>
+          </form>
+        )}
+        <p className="text-xs text-gray-500">
+          Switching backends does not copy records: tickets bought on one are
+          unknown to the others.
+        </p>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={!online}
+          disabled={backend.kind === "http"}
+          onChange={handleToggleOnline}
+          className="accent-red-500"
+        />
+        Simulate backend outage
+        <span className="text-xs text-gray-500">
+          (API calls fail; the app falls back to its encrypted local vault)
+        </span>
+      </label>
+
+      <div className="bg-gray-800 rounded-lg p-4 border border-gray-700 space-y-2 text-sm text-gray-300">
+        <span className="text-xs text-gray-500 uppercase tracking-wide">
+          Developer
+        </span>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={virtualSettings.enabled}
+            onChange={(e) =>
+              updateVirtualSettings({
+                ...virtualSettings,
+                enabled: e.target.checked,
+              })
+            }
+            className="accent-indigo-500"
+          />
+          Software authenticator
+          <span className="text-xs text-gray-500">
+            (replaces navigator.credentials; keys stored in the clear)
+          </span>
+        </label>
+        <label className="flex items-center gap-2 cursor-pointer pl-6">
+          <input
+            type="checkbox"
+            checked={virtualSettings.prf}
+            disabled={!virtualSettings.enabled}
+            onChange={(e) =>
+              updateVirtualSettings({
+                ...virtualSettings,
+                prf: e.target.checked,
+              })
+            }
+            className="accent-indigo-500"
+          />
+          Emulate PRF for new passkeys
+        </label>
+        {virtualCredentials.length > 0 && (
+          <div className="space-y-1 pl-6">
+            <ul className="font-mono text-xs text-gray-400 space-y-0.5">
+              {virtualCredentials.map((c) => (
+                <li key={c.credentialId} className="break-all">
+                  {c.userName} · {c.credentialId.slice(0, 16)}… · counter{" "}
+                  {c.signCount}
+                  {c.prfSecret ? " · PRF" : " · no PRF"}
+                </li>
+              ))}
+            </ul>
+            <button
+              onClick={handleClearVirtual}
+              className="text-xs text-red-400 hover:text-red-300 cursor-pointer"
+            >
+              Delete software passkeys
+            </button>
+          </div>
+        )}
+      </div>
+
+      {backend.kind === "http" ? (
+        <p className="bg-gray-800 rounded-lg p-4 border border-gray-700 text-xs text-gray-400">
+          Issuer keys are managed by the server: GET /issuer-keys, POST
+          /issuer-keys/rotate, POST /issuer-keys/:keyId/retire.
+        </p>
+      ) : (
+        <div className="bg-gray-800 rounded-lg p-4 border border-gray-700 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-gray-500 uppercase tracking-wide">
+              Issuer keys
+            </span>
+            <div className="flex gap-2">
+              <button
+                onClick={handlePublish}
+                className="rounded-md bg-gray-700 hover:bg-gray-600 px-3 py-1.5 text-xs font-medium transition-colors cursor-pointer"
+              >
+                Show signed key list
+              </button>
+              <button
+                onClick={handleRotate}
+                className="rounded-md bg-indigo-600 hover:bg-indigo-500 px-3 py-1.5 text-xs font-medium transition-colors cursor-pointer"
+              >
+                Rotate
+              </button>
+            </div>
+          </div>
+
+          {issuerKeys.length === 0 ? (
+            <p className="text-gray-500 text-xs">
+              No issuer key yet; one is generated with the first sale.
+            </p>
+          ) : (
+            <ul className="space-y-1">
+              {issuerKeys.map((k) => (
+                <li
+                  key={k.keyId}
+                  className="flex items-center justify-between text-xs font-mono"
+                >
+                  <span
+                    className={
+                      k.state === "active"
+                        ? "text-emerald-400"
+                        : k.state === "retired"
+                          ? "text-gray-500 line-through"
+                          : "text-gray-300"
+                    }
+                  >
+                    {k.securityProviderNum}/{k.keyId} · {k.state} ·{" "}
+                    {k.validFrom.slice(0, 10)} → {k.validUntil.slice(0, 10)}
+                  </span>
+                  {k.state !== "retired" && (
+                    <button
+                      onClick={() => handleRetire(k.keyId)}
+                      className="text-red-400 hover:text-red-300 cursor-pointer"
+                    >
+                      Retire
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {keyListJson && (
+            <pre className="bg-gray-900 rounded-md p-2 text-xs text-gray-400 break-all whitespace-pre-wrap select-all">
+              {keyListJson}
+            </pre>
+          )}
+        </div>
+      )}
+
+      <div className="bg-gray-800 rounded-lg p-4 border border-gray-700 space-y-3">
+        <span className="text-xs text-gray-500 uppercase tracking-wide">
+          WebAuthn accounts (relying party)
+        </span>
+        {accounts.length === 0 ? (
+          <p className="text-gray-500 text-xs">No registered account.</p>
+        ) : (
+          <ul className="space-y-2">
+            {accounts.map((account) => (
+              <li key={account.userHandle} className="text-xs space-y-1">
+                <p className="text-gray-200">
+                  {account.email}{" "}
+                  <span className="text-gray-500 font-mono">
+                    user handle {account.userHandle}
+                  </span>
+                </p>
+                <ul className="pl-3 space-y-0.5 font-mono text-gray-400">
+                  {listCredentials(account.userHandle).map((c) => (
+                    <li key={c.credentialId} className="break-all">
+                      {c.name && `"${c.name}" · `}
+                      {c.credentialId.slice(0, 16)}… · counter {c.signCount} ·{" "}
+                      {c.attestationFormat}
+                      {c.prfEnabled ? " · PRF" : " · no PRF"}
+                      {c.backupEligible &&
+                        (c.backedUp ? " · synced" : " · backup eligible")}
+                      {c.lastUsedAt && ` · last used ${c.lastUsedAt}`}
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
       <p className="text-gray-400 text-sm">
-        All payment records stored in the fake backend (localStorage). Keyed by
-        ECDSA public key JWK thumbprint.
+        All payment records stored in the backend ({backend.description}).
+        Keyed by ECDSA public key JWK thumbprint.
       </p>
 
-      {records.length === 0 ? (
+      {recordsError ? (
+        <div className="bg-red-900/50 text-red-300 border border-red-800 rounded-md p-3 text-xs">
+          {recordsError}
+        </div>
+      ) : records.length === 0 ? (
         <div className="bg-gray-800 rounded-md p-6 text-center text-gray-500 text-sm">
           No records in the backend.
         </div>
@@ -66,16 +398,57 @@ export default function BackendExplorer() {
               <div className="flex items-start justify-between">
                 <span className="text-xs text-gray-500 font-mono">
                   {record.thumbprint}
+                  {record.revokedAt && (
+                    <span className="ml-2 text-red-400">
+                      {record.refund ? "cancelled" : "revoked"}{" "}
+                      {record.revokedAt}
+                      {record.refund && `, refunded ${record.refund.refundRef}`}
+                    </span>
+                  )}
                 </span>
-                <button
-                  onClick={() => handleDelete(record.thumbprint)}
-                  className="text-xs text-red-400 hover:text-red-300 cursor-pointer"
-                >
-                  Delete
-                </button>
+                <div className="flex gap-3 shrink-0">
+                  {!record.revokedAt && (
+                    <button
+                      onClick={() => handleRevoke(record.thumbprint)}
+                      className="text-xs text-amber-400 hover:text-amber-300 cursor-pointer"
+                    >
+                      Revoke
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleDelete(record.thumbprint)}
+                    className="text-xs text-red-400 hover:text-red-300 cursor-pointer"
+                  >
+                    Delete
+                  </button>
+                </div>
               </div>
 
               <div className="grid grid-cols-2 gap-3 text-sm">
+                <div>
+                  <span className="text-xs text-gray-500 uppercase tracking-wide">
+                    Ticket ID
+                  </span>
+                  <p className="text-gray-200 font-mono text-xs mt-1 break-all">
+                    {record.ticketId}
+                  </p>
+                </div>
+                <div>
+                  <span className="text-xs text-gray-500 uppercase tracking-wide">
+                    Account (user handle)
+                  </span>
+                  <p className="text-gray-200 font-mono text-xs mt-1 break-all">
+                    {record.accountId}
+                  </p>
+                </div>
+                <div>
+                  <span className="text-xs text-gray-500 uppercase tracking-wide">
+                    Bought with passkey (credential ID)
+                  </span>
+                  <p className="text-gray-200 font-mono text-xs mt-1 break-all">
+                    {record.credentialId}
+                  </p>
+                </div>
                 <div>
                   <span className="text-xs text-gray-500 uppercase tracking-wide">
                     Payment Ref
@@ -92,6 +465,14 @@ export default function BackendExplorer() {
                     {record.paymentDate}
                   </p>
                 </div>
+                <div>
+                  <span className="text-xs text-gray-500 uppercase tracking-wide">
+                    Rides used
+                  </span>
+                  <p className="text-gray-200 font-mono text-xs mt-1">
+                    {`${record.ridesUsed} (${describeEntitlement(record.entitlement)})`}
+                  </p>
+                </div>
               </div>
 
               <div>
@@ -105,7 +486,7 @@ export default function BackendExplorer() {
 
               <div>
                 <span className="text-xs text-gray-500 uppercase tracking-wide">
-                  Raw localStorage value
+                  Raw stored value
                 </span>
                 <pre className="bg-gray-900 rounded-md p-2 mt-1 text-xs text-gray-400 break-all whitespace-pre-wrap">
                   {JSON.stringify(record, null, 2)}
@@ -117,9 +498,29 @@ export default function BackendExplorer() {
       )}
 
       <p className="text-gray-600 text-xs">
-        {records.length} record{records.length !== 1 ? "s" : ""} in localStorage
-        (prefix: dosipas:)
+        {records.length} record{records.length !== 1 ? "s" : ""} in{" "}
+        {backend.description}
       </p>
+
+      {validations.length > 0 && (
+        <div className="bg-gray-800 rounded-lg p-4 border border-gray-700 space-y-2">
+          <span className="text-xs text-gray-500 uppercase tracking-wide">
+            Validation log
+          </span>
+          <ul className="space-y-1 text-xs font-mono">
+            {validations.slice(0, 50).map((v, i) => (
+              <li
+                key={`${v.validatedAt}-${i}`}
+                className={v.valid ? "text-emerald-400" : "text-red-400"}
+                title={v.details}
+              >
+                {v.validatedAt} · {v.valid ? "valid" : "invalid"} ·{" "}
+                {v.ticketId || v.thumbprint.slice(0, 16)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
     </section>
   );
 }
@@ -0,0 +1,44 @@
+import { useMemo, useState } from "react";
+import {
+  createBackend,
+  loadBackendConfig,
+  saveBackendConfig,
+} from "../lib/backend";
+import type { BackendConfig } from "../lib/backend";
+import { BackendContext } from "../lib/backendContext";
+
+interface BackendProviderProps {
+  /** Backend to use instead of the persisted choice (e.g. in-memory for tests) */
+  config?: BackendConfig;
+  children: React.ReactNode;
+}
+
+/**
+ * Provides the selected backend to the app. Selecting another one persists
+ * the choice and replaces the instance; records are not migrated.
+ */
+export default function BackendProvider({
+  config: fixedConfig,
+  children,
+}: BackendProviderProps) {
+  const [config, setConfig] = useState<BackendConfig>(
+    () => fixedConfig ?? loadBackendConfig(),
+  );
+  const backend = useMemo(() => createBackend(config), [config]);
+
+  const value = useMemo(
+    () => ({
+      backend,
+      config,
+      selectBackend: (next: BackendConfig) => {
+        if (!fixedConfig) saveBackendConfig(next);
+        setConfig(next);
+      },
+    }),
+    [backend, config, fixedConfig],
+  );
+
+  return (
+    <BackendContext.Provider value={value}>{children}</BackendContext.Provider>
+  );
+}
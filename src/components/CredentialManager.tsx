@@ -0,0 +1,289 @@
+import { useEffect, useState } from "react";
+import {
+  listCredentials,
+  renameCredential,
+  revokeCredential,
+} from "../lib/relyingParty";
+import type { StoredCredential } from "../lib/relyingParty";
+import { forgetWrappedSecret } from "../lib/keyWrapping";
+import { forgetKnownCredential } from "../lib/accountStore";
+import {
+  isSignalApiAvailable,
+  signalAcceptedCredentials,
+  signalUnknownCredential,
+} from "../lib/webauthn";
+import { WebAuthnError } from "../lib/webauthnErrors";
+import WebAuthnErrorPanel from "./WebAuthnErrorPanel";
+
+interface CredentialManagerProps {
+  email: string;
+  /** Account (WebAuthn user handle, base64url) */
+  accountId: string;
+  /** Passkey the session signed in with (base64url) */
+  currentCredentialId: string;
+  /** Backend session of that sign-in, which authorizes the changes */
+  sessionToken: string;
+  /** Register another passkey for the account and wrap its master secret */
+  onAddBackup: () => Promise<void>;
+  onContinue: () => void;
+  onError: (error: string) => void;
+}
+
+/**
+ * The signed-in account's passkeys: when they were added and last used,
+ * whether they unlock with PRF or a passphrase, and how the authenticator
+ * is reached. Passkeys can be renamed, and removed from the backend — the
+ * authenticator is then told through the WebAuthn signal API, where the
+ * browser has it, so it stops offering the stale credential.
+ */
+export default function CredentialManager({
+  email,
+  accountId,
+  currentCredentialId,
+  sessionToken,
+  onAddBackup,
+  onContinue,
+  onError,
+}: CredentialManagerProps) {
+  const [credentials, setCredentials] = useState<StoredCredential[]>(() =>
+    listCredentials(accountId),
+  );
+  const [busy, setBusy] = useState(false);
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(
+    null,
+  );
+  const [confirmRemove, setConfirmRemove] = useState("");
+  const [notice, setNotice] = useState("");
+  const [failure, setFailure] = useState<WebAuthnError | null>(null);
+
+  // Let the authenticator drop credentials the backend no longer knows
+  useEffect(() => {
+    signalAcceptedCredentials(
+      accountId,
+      listCredentials(accountId).map((c) => c.credentialId),
+    );
+  }, [accountId]);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setFailure(null);
+    try {
+      await action();
+      setCredentials(listCredentials(accountId));
+    } catch (err) {
+      if (err instanceof WebAuthnError) setFailure(err);
+      else onError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRename = (credentialId: string, name: string) =>
+    run(async () => {
+      await renameCredential(sessionToken, credentialId, name);
+      setRenaming(null);
+    });
+
+  const handleRemove = (credentialId: string) =>
+    run(async () => {
+      setConfirmRemove("");
+      await revokeCredential(sessionToken, credentialId);
+      forgetWrappedSecret(credentialId);
+      forgetKnownCredential(credentialId);
+
+      const unknown = await signalUnknownCredential(credentialId);
+      const accepted = await signalAcceptedCredentials(
+        accountId,
+        listCredentials(accountId).map((c) => c.credentialId),
+      );
+      setNotice(
+        unknown || accepted
+          ? "Passkey removed. Your browser was asked to delete it from the authenticator."
+          : "Passkey removed from your account. This browser cannot update the authenticator: delete the passkey from your password manager or security key yourself.",
+      );
+    });
+
+  return (
+    <section className="bg-gray-900 rounded-lg p-6 space-y-5 border border-gray-800">
+      <h2 className="text-xl font-semibold">Passkeys</h2>
+      <p className="text-gray-400 text-sm">
+        Every passkey below unlocks the same account keys and tickets for{" "}
+        <span className="text-gray-200">{email}</span>. Enroll a backup on
+        another authenticator (security key, phone) and remove a passkey you
+        have lost.
+      </p>
+
+      {failure && (
+        <WebAuthnErrorPanel
+          error={failure}
+          actions={{
+            retry: () => run(onAddBackup),
+            "use-another-authenticator": () => run(onAddBackup),
+          }}
+          onDismiss={() => setFailure(null)}
+        />
+      )}
+
+      {notice && (
+        <div className="bg-gray-800 text-gray-300 border border-gray-700 rounded-md p-3 text-xs">
+          {notice}
+        </div>
+      )}
+
+      <ul className="space-y-2">
+        {credentials.map((c) => (
+          <li
+            key={c.credentialId}
+            className="bg-gray-800 rounded-md px-3 py-2 border border-gray-700 text-xs space-y-1"
+          >
+            <div className="flex items-center justify-between gap-3">
+              {renaming?.id === c.credentialId ? (
+                <form
+                  className="flex flex-1 gap-2"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    handleRename(c.credentialId, renaming.name);
+                  }}
+                >
+                  <input
+                    value={renaming.name}
+                    onChange={(e) =>
+                      setRenaming({ id: c.credentialId, name: e.target.value })
+                    }
+                    autoFocus
+                    className="flex-1 rounded bg-gray-900 border border-gray-700 px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  />
+                  <button
+                    type="submit"
+                    disabled={busy}
+                    className="text-indigo-400 hover:text-indigo-300 disabled:opacity-50 cursor-pointer"
+                  >
+                    Save
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setRenaming(null)}
+                    className="text-gray-400 hover:text-gray-300 cursor-pointer"
+                  >
+                    Cancel
+                  </button>
+                </form>
+              ) : (
+                <p className="text-gray-200 text-sm">
+                  {c.name || "Passkey"}
+                  {c.credentialId === currentCredentialId && (
+                    <span className="ml-2 text-emerald-400 text-xs">
+                      (this passkey)
+                    </span>
+                  )}
+                </p>
+              )}
+              {renaming?.id !== c.credentialId && (
+                <div className="flex gap-3 shrink-0">
+                  <button
+                    onClick={() =>
+                      setRenaming({ id: c.credentialId, name: c.name ?? "" })
+                    }
+                    disabled={busy}
+                    className="text-gray-400 hover:text-gray-300 disabled:opacity-50 cursor-pointer"
+                  >
+                    Rename
+                  </button>
+                  {c.credentialId !== currentCredentialId &&
+                    (confirmRemove === c.credentialId ? (
+                      <button
+                        onClick={() => handleRemove(c.credentialId)}
+                        disabled={busy}
+                        className="text-red-400 hover:text-red-300 font-medium disabled:opacity-50 cursor-pointer"
+                      >
+                        Confirm removal
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => setConfirmRemove(c.credentialId)}
+                        disabled={busy}
+                        className="text-red-400 hover:text-red-300 disabled:opacity-50 cursor-pointer"
+                      >
+                        Remove
+                      </button>
+                    ))}
+                </div>
+              )}
+            </div>
+            <p className="text-gray-500 font-mono">
+              {c.credentialId.slice(0, 24)}…
+            </p>
+            <p className="text-gray-500">
+              Added {formatDate(c.createdAt)} · last used{" "}
+              {c.lastUsedAt ? formatDate(c.lastUsedAt) : "never"}
+            </p>
+            <p className="flex flex-wrap gap-1.5">
+              {c.prfEnabled ? (
+                <Badge className="bg-emerald-900/50 text-emerald-300">PRF</Badge>
+              ) : (
+                <Badge className="bg-amber-900/50 text-amber-300">
+                  No PRF (passphrase)
+                </Badge>
+              )}
+              {c.backedUp && (
+                <Badge className="bg-gray-700 text-gray-300">synced</Badge>
+              )}
+              {(c.transports.length ? c.transports : ["transport unknown"]).map(
+                (t) => (
+                  <Badge key={t} className="bg-gray-700 text-gray-300">
+                    {t}
+                  </Badge>
+                ),
+              )}
+            </p>
+          </li>
+        ))}
+      </ul>
+
+      {!isSignalApiAvailable() && (
+        <p className="text-xs text-gray-500">
+          This browser does not support the WebAuthn signal API: removed
+          passkeys stay on the authenticator until you delete them there.
+        </p>
+      )}
+
+      <div className="flex gap-3">
+        <button
+          onClick={() => run(onAddBackup)}
+          disabled={busy}
+          className="flex-1 rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50 px-5 py-2.5 text-sm font-medium transition-colors cursor-pointer"
+        >
+          {busy ? "Working..." : "Add backup passkey"}
+        </button>
+        <button
+          onClick={onContinue}
+          disabled={busy}
+          className="flex-1 rounded-md bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 px-5 py-2.5 text-sm font-medium transition-colors cursor-pointer"
+        >
+          Continue to tickets
+        </button>
+      </div>
+    </section>
+  );
+}
+
+function Badge({
+  className,
+  children,
+}: {
+  className: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <span className={`rounded px-1.5 py-0.5 text-[10px] ${className}`}>
+      {children}
+    </span>
+  );
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
@@ -0,0 +1,221 @@
+import {
+  formatPrice,
+  issuingDate,
+  openTicketValidity,
+  reservationTimes,
+} from "../lib/fcb";
+import type {
+  DocumentData,
+  FcbTicket,
+  IssuingData,
+  PassengerType,
+  TariffType,
+  TravelClass,
+} from "../lib/fcb";
+
+const PASSENGER_LABELS: Record<PassengerType, string> = {
+  adult: "Adult",
+  senior: "Senior",
+  child: "Child",
+  youth: "Youth",
+  dog: "Dog",
+  bicycle: "Bicycle",
+  freeAddonPassenger: "Free add-on passenger",
+  freeAddonChild: "Free add-on child",
+};
+
+const CLASS_LABELS: Record<TravelClass, string> = {
+  notApplicable: "n/a",
+  first: "1st class",
+  second: "2nd class",
+  tourist: "Tourist class",
+  comfort: "Comfort class",
+  premium: "Premium class",
+  business: "Business class",
+  all: "All classes",
+  premiumFirst: "Premium 1st class",
+  standardFirst: "Standard 1st class",
+  premiumSecond: "Premium 2nd class",
+  standardSecond: "Standard 2nd class",
+};
+
+/**
+ * Human-readable rendering of decoded FCB ticket content, shared by the
+ * ticket and verifier screens.
+ */
+export default function FcbTicketView({ ticket }: { ticket: FcbTicket }) {
+  const issuing = ticket.issuingDetail;
+  const travelers = ticket.travelerDetail?.traveler ?? [];
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3 text-sm">
+        <Field label="Issuer" value={issuing.issuerName ?? "—"} />
+        <Field label="Booking Ref (PNR)" value={issuing.issuerPNR ?? "—"} mono />
+        <Field label="Issued" value={formatDate(issuingDate(issuing))} mono />
+        <Field
+          label="Status"
+          value={[
+            issuing.activated ? "Activated" : "Not activated",
+            issuing.specimen ? "Specimen" : null,
+          ]
+            .filter(Boolean)
+            .join(", ")}
+        />
+      </div>
+
+      {travelers.length > 0 && (
+        <div>
+          <span className="text-xs text-gray-500 uppercase tracking-wide">
+            Travelers
+          </span>
+          <ul className="text-gray-200 text-xs mt-1 space-y-0.5">
+            {travelers.map((t, i) => (
+              <li key={i}>
+                {[t.firstName, t.lastName].filter(Boolean).join(" ") ||
+                  "Anonymous"}
+                {t.passengerType && ` — ${PASSENGER_LABELS[t.passengerType]}`}
+                {t.ticketHolder && " (ticket holder)"}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {(ticket.transportDocument ?? []).map((doc, i) => (
+        <DocumentView key={i} issuing={issuing} doc={doc} />
+      ))}
+    </div>
+  );
+}
+
+function DocumentView({
+  issuing,
+  doc,
+}: {
+  issuing: IssuingData;
+  doc: DocumentData;
+}) {
+  if (doc.kind === "openTicket") {
+    const t = doc.openTicket;
+    const validity = openTicketValidity(issuing, t);
+    return (
+      <div className="bg-gray-800 rounded-md p-3 border border-gray-700 space-y-2">
+        <p className="text-gray-300 text-xs font-medium">
+          Open ticket{t.productIdIA5 && ` · ${t.productIdIA5}`}
+          {t.classCode && ` · ${CLASS_LABELS[t.classCode]}`}
+          {t.returnIncluded && " · Return included"}
+        </p>
+        <div className="grid grid-cols-2 gap-3 text-sm">
+          {(t.fromStationNameUTF8 || t.toStationNameUTF8) && (
+            <Field
+              label="Route"
+              value={`${t.fromStationNameUTF8 ?? "?"} → ${t.toStationNameUTF8 ?? "?"}`}
+            />
+          )}
+          {t.referenceIA5 && (
+            <Field label="Reference" value={t.referenceIA5} mono />
+          )}
+          {t.validRegionDesc && (
+            <Field label="Valid region" value={t.validRegionDesc} />
+          )}
+          <Field label="Valid from" value={formatDate(validity.from)} mono />
+          <Field label="Valid until" value={formatDate(validity.until)} mono />
+        </div>
+        <FareView issuing={issuing} tariffs={t.tariffs} price={t.price} />
+        {t.infoText && <p className="text-gray-400 text-xs">{t.infoText}</p>}
+      </div>
+    );
+  }
+
+  const r = doc.reservation;
+  const times = reservationTimes(issuing, r);
+  return (
+    <div className="bg-gray-800 rounded-md p-3 border border-gray-700 space-y-2">
+      <p className="text-gray-300 text-xs font-medium">
+        Reservation{r.serviceBrandNameUTF8 && ` · ${r.serviceBrandNameUTF8}`}
+        {r.trainIA5 && ` · Train ${r.trainIA5}`} · {CLASS_LABELS[r.classCode]}
+      </p>
+      <div className="grid grid-cols-2 gap-3 text-sm">
+        <Field
+          label="Route"
+          value={`${r.fromStationNameUTF8 ?? "?"} → ${r.toStationNameUTF8 ?? "?"}`}
+        />
+        {r.places && (
+          <Field
+            label="Place"
+            value={[
+              r.places.coach && `Coach ${r.places.coach}`,
+              r.places.placeString && `Seat ${r.places.placeString}`,
+            ]
+              .filter(Boolean)
+              .join(", ")}
+          />
+        )}
+        <Field label="Departure" value={formatDate(times.departure)} mono />
+        {times.arrival && (
+          <Field label="Arrival" value={formatDate(times.arrival)} mono />
+        )}
+      </div>
+      <FareView issuing={issuing} tariffs={r.tariffs} price={r.price} />
+      {r.infoText && <p className="text-gray-400 text-xs">{r.infoText}</p>}
+    </div>
+  );
+}
+
+function FareView({
+  issuing,
+  tariffs,
+  price,
+}: {
+  issuing: IssuingData;
+  tariffs?: TariffType[];
+  price?: number;
+}) {
+  if (!tariffs?.length && price === undefined) return null;
+  return (
+    <div className="flex items-end justify-between text-xs">
+      <ul className="text-gray-400 space-y-0.5">
+        {(tariffs ?? []).map((t, i) => (
+          <li key={i}>
+            {t.numberOfPassengers} ×{" "}
+            {t.tariffDesc ??
+              (t.passengerType ? PASSENGER_LABELS[t.passengerType] : "Fare")}
+          </li>
+        ))}
+      </ul>
+      {price !== undefined && (
+        <span className="text-emerald-400 font-semibold">
+          {formatPrice(issuing, price)}
+        </span>
+      )}
+    </div>
+  );
+}
+
+function Field({
+  label,
+  value,
+  mono,
+}: {
+  label: string;
+  value: string;
+  mono?: boolean;
+}) {
+  return (
+    <div>
+      <span className="text-xs text-gray-500 uppercase tracking-wide">
+        {label}
+      </span>
+      <p
+        className={`text-gray-200 text-xs mt-1 break-all ${mono ? "font-mono" : ""}`}
+      >
+        {value}
+      </p>
+    </div>
+  );
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().replace("T", " ").slice(0, 16) + " UTC";
+}
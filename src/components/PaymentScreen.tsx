@@ -1,62 +1,350 @@
-import { useState } from "react";
-import { storePayment } from "../lib/fakeBackend";
+import { useRef, useState } from "react";
+import type { PaymentRecord } from "../lib/fakeBackend";
+import { authenticate } from "../lib/webauthn";
+import { beginAuthentication, finishAuthentication } from "../lib/relyingParty";
+import { base64urlEncode, deriveTicketKeys } from "../lib/crypto";
+import type { DerivedKeys } from "../lib/crypto";
+import { useBackend } from "../lib/backendContext";
+import {
+  FARE_CATEGORIES,
+  FARE_CATEGORY_LABELS,
+  MAX_PASSENGERS_PER_ORDER,
+  describeEntitlement,
+  describeValidity,
+  formatAmount,
+  listProducts,
+  priceOrder,
+} from "../lib/catalog";
+import type { FareCategory, Order, Quote } from "../lib/catalog";
+import { PaymentTimeoutError, TEST_CARDS } from "../lib/paymentProvider";
+import type { PaymentStatus, ProviderPayment } from "../lib/paymentProvider";
 
 interface PaymentScreenProps {
-  ecdsaPublicKeyJwk: JsonWebKey;
-  onPaymentComplete: () => void;
-  onError: (error: string) => void;
+  accountId: string;
+  credentialId: Uint8Array;
+  masterSecret: Uint8Array;
+  onPaymentComplete: (record: PaymentRecord, keys: DerivedKeys) => void;
+  /** Receives the raw error, so typed WebAuthn errors keep their action */
+  onError: (error: unknown) => void;
 }
 
+/**
+ * One purchase attempt. Kept across retries so that the provider and the
+ * backend see the same idempotency key and ticket, and dropped once the
+ * payment fails or the order or card changes.
+ */
+interface Checkout {
+  idempotencyKey: string;
+  ticketId: string;
+  keys: DerivedKeys;
+}
+
+const LIFECYCLE: PaymentStatus[] = ["pending", "authorized", "captured"];
+
 export default function PaymentScreen({
-  ecdsaPublicKeyJwk,
+  accountId,
+  credentialId,
+  masterSecret,
   onPaymentComplete,
   onError,
 }: PaymentScreenProps) {
+  const backend = useBackend();
+  const products = listProducts();
+  const [order, setOrder] = useState<Order>({
+    productId: products[0].id,
+    quantities: { adult: 1 },
+  });
+  const [cardNumber, setCardNumber] = useState("4242 4242 4242 4242");
   const [processing, setProcessing] = useState(false);
-  const [step, setStep] = useState<"form" | "processing" | "done">("form");
+  const [step, setStep] = useState<
+    "form" | "deriving" | "processing" | "challenge" | "issuing" | "done"
+  >("form");
+  const [payment, setPayment] = useState<ProviderPayment | null>(null);
+  const [paymentError, setPaymentError] = useState("");
+  const checkoutRef = useRef<Checkout | null>(null);
+
+  const product = products.find((p) => p.id === order.productId)!;
+  const passengers = FARE_CATEGORIES.reduce(
+    (n, c) => n + (order.quantities[c] ?? 0),
+    0,
+  );
+  const quote = quoteOrNull(order);
+
+  const selectProduct = (productId: string) => {
+    const next = products.find((p) => p.id === productId)!;
+    // Keep the quantities of the categories the new product sells
+    const quantities = Object.fromEntries(
+      FARE_CATEGORIES.filter(
+        (c) => next.fares[c] !== undefined && order.quantities[c],
+      ).map((c) => [c, order.quantities[c]]),
+    );
+    checkoutRef.current = null;
+    setOrder({
+      productId,
+      quantities: Object.keys(quantities).length ? quantities : { adult: 1 },
+    });
+  };
+
+  const setQuantity = (category: FareCategory, quantity: number) => {
+    checkoutRef.current = null;
+    setOrder({
+      ...order,
+      quantities: { ...order.quantities, [category]: quantity },
+    });
+  };
+
+  const selectCard = (number: string) => {
+    checkoutRef.current = null;
+    setCardNumber(number);
+  };
 
   const handlePay = async () => {
+    if (!quote) return;
     setProcessing(true);
-    setStep("processing");
+    setPaymentError("");
+    setPayment(null);
+    setStep("deriving");
+
+    let checkout = checkoutRef.current;
     try {
-      // Simulate payment processing delay
-      await new Promise((r) => setTimeout(r, 1200));
+      // The purchase is authorized by a passkey ceremony the backend verifies
+      const { challenge } = await beginAuthentication(credentialId);
+      const auth = await authenticate({ credentialId, challenge });
+      await finishAuthentication(auth.credentialId, auth.assertion);
+
+      // Derive this ticket's key pair from the master secret + Ticket ID
+      if (!checkout) {
+        const ticketId = `TKT-${crypto.randomUUID()}`;
+        const keys = (await deriveTicketKeys(masterSecret, [ticketId])).get(
+          ticketId,
+        )!;
+        checkout = { idempotencyKey: crypto.randomUUID(), ticketId, keys };
+        checkoutRef.current = checkout;
+      }
+    } catch (err) {
+      setProcessing(false);
+      setStep("form");
+      onError(err);
+      return;
+    }
+
+    await runPayment(checkout, async () => {
+      setStep("processing");
+      const created = await backend.paymentProvider.createPayment({
+        idempotencyKey: checkout.idempotencyKey,
+        amount: quote.total,
+        currency: quote.currency,
+        cardNumber,
+      });
+      setPayment(created);
+      return created;
+    });
+  };
 
-      const paymentRef = `PAY-${crypto.randomUUID()}`;
-      const paymentDate = new Date().toISOString();
+  /** The cardholder's answer to the bank's 3-D Secure challenge. */
+  const handleChallenge = async (approved: boolean) => {
+    const checkout = checkoutRef.current;
+    if (!checkout || !payment) return;
+    setProcessing(true);
+    await runPayment(checkout, async () => {
+      setStep("processing");
+      const answered = await backend.paymentProvider.completeThreeDSecure(
+        payment.id,
+        approved,
+      );
+      setPayment(answered);
+      return answered;
+    });
+  };
+
+  /**
+   * Take a provider payment to a ticket: wait for a 3-D Secure answer if
+   * needed, capture it and have the backend issue the ticket. Declines end
+   * the checkout; timeouts and backend errors keep it for a safe retry.
+   */
+  const runPayment = async (
+    checkout: Checkout,
+    authorize: () => Promise<ProviderPayment>,
+  ) => {
+    try {
+      let current = await authorize();
+      if (current.status === "pending" && current.threeDSecure === "required") {
+        setStep("challenge");
+        return;
+      }
+      if (current.status === "failed") {
+        checkoutRef.current = null;
+        setPaymentError(current.failureReason ?? "The payment failed.");
+        setStep("form");
+        return;
+      }
+      current = await backend.paymentProvider.capturePayment(current.id);
+      setPayment(current);
 
-      // Store in fake backend
-      await storePayment({
-        paymentRef,
-        paymentDate,
-        ecdsaPublicKey: ecdsaPublicKeyJwk,
+      // The provider's payment ID is the ticket's payment reference
+      setStep("issuing");
+      const record = await backend.storePayment({
+        ticketId: checkout.ticketId,
+        accountId,
+        credentialId: base64urlEncode(credentialId),
+        paymentRef: current.id,
+        paymentDate: current.history[current.history.length - 1].at,
+        ecdsaPublicKey: checkout.keys.ecdsaKeyPair.publicKeyJwk,
+        order,
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
       });
 
       setStep("done");
+      checkoutRef.current = null;
 
       // Brief pause to show success before navigating
       await new Promise((r) => setTimeout(r, 500));
 
-      onPaymentComplete();
+      onPaymentComplete(record, checkout.keys);
     } catch (err) {
-      onError(err instanceof Error ? err.message : String(err));
+      setPaymentError(
+        err instanceof PaymentTimeoutError
+          ? err.message
+          : `${err instanceof Error ? err.message : String(err)} Retrying will not charge you twice.`,
+      );
+      setStep("form");
     } finally {
       setProcessing(false);
     }
   };
 
+  const busy = processing || step === "challenge";
+
   return (
     <section className="bg-gray-900 rounded-lg p-6 space-y-5 border border-gray-800">
-      <h2 className="text-xl font-semibold">Buy Event Ticket</h2>
+      <h2 className="text-xl font-semibold">Buy a Ticket</h2>
+
+      <div className="space-y-2">
+        {products.map((p) => (
+          <label
+            key={p.id}
+            className={`flex items-start gap-3 rounded-lg p-3 border cursor-pointer transition-colors ${
+              p.id === order.productId
+                ? "bg-gray-800 border-emerald-700"
+                : "bg-gray-800/50 border-gray-700 hover:border-gray-600"
+            }`}
+          >
+            <input
+              type="radio"
+              name="product"
+              checked={p.id === order.productId}
+              onChange={() => selectProduct(p.id)}
+              disabled={busy}
+              className="mt-1 accent-emerald-500"
+            />
+            <div className="flex-1 space-y-0.5">
+              <div className="flex justify-between gap-3">
+                <span className="text-gray-200 text-sm font-medium">
+                  {p.name}
+                </span>
+                <span className="text-gray-300 text-sm">
+                  from{" "}
+                  {formatAmount(
+                    Math.min(...Object.values(p.fares)),
+                    p.currency,
+                    p.currencyFract,
+                  )}
+                </span>
+              </div>
+              <p className="text-gray-500 text-xs">
+                {p.description} Validity: {describeValidity(p.validity)}.{" "}
+                {describeEntitlement(p.entitlement)}.
+              </p>
+            </div>
+          </label>
+        ))}
+      </div>
 
       <div className="bg-gray-800 rounded-lg p-5 border border-gray-700 space-y-4">
-        <div className="flex justify-between items-center">
-          <span className="text-gray-300 font-medium">Event Ticket</span>
-          <span className="text-2xl font-bold text-emerald-400">5.00 EUR</span>
+        <div className="space-y-2">
+          {FARE_CATEGORIES.map((category) => {
+            const fare = product.fares[category];
+            const quantity = order.quantities[category] ?? 0;
+            return (
+              <div
+                key={category}
+                className="flex items-center justify-between text-sm"
+              >
+                <span
+                  className={
+                    fare === undefined ? "text-gray-600" : "text-gray-300"
+                  }
+                >
+                  {FARE_CATEGORY_LABELS[category]}
+                  <span className="ml-2 text-xs text-gray-500">
+                    {fare === undefined
+                      ? "not sold"
+                      : formatAmount(
+                          fare,
+                          product.currency,
+                          product.currencyFract,
+                        )}
+                  </span>
+                </span>
+                <div className="flex items-center gap-2">
+                  <Stepper
+                    label="−"
+                    onClick={() => setQuantity(category, quantity - 1)}
+                    disabled={busy || quantity === 0}
+                  />
+                  <span className="w-6 text-center font-mono text-gray-200">
+                    {quantity}
+                  </span>
+                  <Stepper
+                    label="+"
+                    onClick={() => setQuantity(category, quantity + 1)}
+                    disabled={
+                      busy ||
+                      fare === undefined ||
+                      passengers >= MAX_PASSENGERS_PER_ORDER
+                    }
+                  />
+                </div>
+              </div>
+            );
+          })}
         </div>
         <hr className="border-gray-700" />
 
-        {/* Fake credit card form */}
+        {/* Price breakdown */}
+        {quote ? (
+          <div className="space-y-1 text-xs">
+            {quote.lines.map((l) => (
+              <div
+                key={l.category}
+                className="flex justify-between text-gray-400"
+              >
+                <span>
+                  {l.quantity} × {FARE_CATEGORY_LABELS[l.category]} at{" "}
+                  {formatAmount(
+                    l.unitPrice,
+                    quote.currency,
+                    quote.currencyFract,
+                  )}
+                </span>
+                <span className="font-mono">
+                  {formatAmount(l.amount, quote.currency, quote.currencyFract)}
+                </span>
+              </div>
+            ))}
+            <div className="flex justify-between items-center pt-2">
+              <span className="text-gray-300 font-medium text-sm">Total</span>
+              <span className="text-2xl font-bold text-emerald-400">
+                {formatAmount(quote.total, quote.currency, quote.currencyFract)}
+              </span>
+            </div>
+          </div>
+        ) : (
+          <p className="text-gray-500 text-xs">Add at least one passenger.</p>
+        )}
+        <hr className="border-gray-700" />
+
+        {/* Credit card form, paid through the simulated provider */}
         <div className="space-y-3">
           <div>
             <label className="text-xs text-gray-500 uppercase tracking-wide">
@@ -64,10 +352,30 @@ export default function PaymentScreen({
             </label>
             <input
               type="text"
-              value="4242 4242 4242 4242"
-              readOnly
-              className="w-full rounded-md bg-gray-900 border border-gray-600 px-3 py-2 text-sm text-gray-300 mt-1"
+              value={cardNumber}
+              onChange={(e) => selectCard(e.target.value)}
+              disabled={busy}
+              inputMode="numeric"
+              className="w-full rounded-md bg-gray-900 border border-gray-600 px-3 py-2 text-sm text-gray-300 mt-1 font-mono focus:outline-none focus:ring-2 focus:ring-emerald-500"
             />
+            <div className="flex flex-wrap gap-1.5 mt-2">
+              {TEST_CARDS.map((card) => (
+                <button
+                  key={card.number}
+                  type="button"
+                  onClick={() => selectCard(formatCardNumber(card.number))}
+                  disabled={busy}
+                  title={formatCardNumber(card.number)}
+                  className={`rounded px-2 py-0.5 text-xs transition-colors cursor-pointer disabled:opacity-50 ${
+                    cardNumber.replace(/\D/g, "") === card.number
+                      ? "bg-emerald-900 text-emerald-200"
+                      : "bg-gray-700 text-gray-400 hover:text-gray-200"
+                  }`}
+                >
+                  {card.label}
+                </button>
+              ))}
+            </div>
           </div>
           <div className="flex gap-3">
             <div className="flex-1">
@@ -96,16 +404,63 @@ export default function PaymentScreen({
         </div>
       </div>
 
+      {payment && <PaymentProgress payment={payment} />}
+
+      {step === "challenge" && payment && quote && (
+        <div className="bg-gray-800 rounded-lg p-4 space-y-3 border border-indigo-700">
+          <p className="text-sm font-medium text-indigo-300">
+            3-D Secure — your bank asks you to confirm this payment
+          </p>
+          <p className="text-xs text-gray-400">
+            {formatAmount(payment.amount, quote.currency, quote.currencyFract)}{" "}
+            with the card ending in {payment.cardLast4}.
+          </p>
+          <div className="flex gap-3">
+            <button
+              onClick={() => handleChallenge(true)}
+              disabled={processing}
+              className="flex-1 rounded-md bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 px-4 py-2 text-sm font-medium transition-colors cursor-pointer"
+            >
+              Complete authentication
+            </button>
+            <button
+              onClick={() => handleChallenge(false)}
+              disabled={processing}
+              className="flex-1 rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50 px-4 py-2 text-sm font-medium transition-colors cursor-pointer"
+            >
+              Fail authentication
+            </button>
+          </div>
+        </div>
+      )}
+
+      {paymentError && (
+        <div className="bg-red-900/50 text-red-300 border border-red-800 rounded-md p-3 text-sm">
+          {paymentError}
+        </div>
+      )}
+
       <button
         onClick={handlePay}
-        disabled={processing}
+        disabled={busy || !quote}
         className="w-full rounded-md bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 px-5 py-3 text-sm font-semibold transition-colors cursor-pointer"
       >
-        {step === "form" && "Pay 5.00 EUR"}
+        {step === "form" &&
+          (quote
+            ? `Pay ${formatAmount(quote.total, quote.currency, quote.currencyFract)}`
+            : "Pay")}
+        {step === "deriving" && "Confirm with your passkey..."}
         {step === "processing" && "Processing payment..."}
+        {step === "challenge" && "Waiting for 3-D Secure..."}
+        {step === "issuing" && "Issuing your ticket..."}
         {step === "done" && "Payment accepted!"}
       </button>
 
+      {step === "deriving" && (
+        <p className="text-center text-gray-500 text-xs animate-pulse">
+          Confirm with your passkey; a dedicated key is then derived for this ticket...
+        </p>
+      )}
       {step === "processing" && (
         <p className="text-center text-gray-500 text-xs animate-pulse">
           Contacting payment provider...
@@ -119,3 +474,75 @@ export default function PaymentScreen({
     </section>
   );
 }
+
+/** The provider payment's place in its status lifecycle. */
+function PaymentProgress({ payment }: { payment: ProviderPayment }) {
+  const steps: PaymentStatus[] =
+    payment.status === "failed" ? ["pending", "failed"] : LIFECYCLE;
+  const reached = steps.indexOf(payment.status);
+  return (
+    <div className="bg-gray-800 rounded-md p-3 space-y-2">
+      <div className="flex items-center gap-2 text-xs">
+        {steps.map((status, i) => (
+          <span key={status} className="flex items-center gap-2">
+            {i > 0 && <span className="text-gray-600">→</span>}
+            <span
+              className={
+                i > reached
+                  ? "text-gray-600"
+                  : status === "failed"
+                    ? "text-red-400 font-medium"
+                    : i === reached
+                      ? "text-emerald-400 font-medium"
+                      : "text-gray-400"
+              }
+            >
+              {status}
+            </span>
+          </span>
+        ))}
+        {payment.threeDSecure && (
+          <span className="ml-auto text-gray-500">
+            3-D Secure: {payment.threeDSecure}
+          </span>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 font-mono break-all">{payment.id}</p>
+    </div>
+  );
+}
+
+/** "4242 4242 4242 4242" */
+function formatCardNumber(number: string): string {
+  return number.replace(/(\d{4})(?=\d)/g, "$1 ");
+}
+
+function Stepper({
+  label,
+  onClick,
+  disabled,
+}: {
+  label: string;
+  onClick: () => void;
+  disabled: boolean;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={disabled}
+      className="w-7 h-7 rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-40 text-sm font-medium transition-colors cursor-pointer"
+    >
+      {label}
+    </button>
+  );
+}
+
+/** The order's price, or null while it cannot be priced (no passenger). */
+function quoteOrNull(order: Order): Quote | null {
+  try {
+    return priceOrder(order);
+  } catch {
+    return null;
+  }
+}
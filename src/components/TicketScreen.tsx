@@ -1,70 +1,172 @@
 import { useEffect, useRef, useState } from "react";
+import { refundAmount } from "../lib/fakeBackend";
 import type { PaymentRecord } from "../lib/fakeBackend";
-import {
-  canonicalJsonStringify,
-  signPayload,
-} from "../lib/crypto";
+import { useBackend } from "../lib/backendContext";
+import { describeEntitlement, formatAmount, ridesLeft } from "../lib/catalog";
+import { bytesToHex } from "../lib/crypto";
+import { encodeLevel1Data } from "../lib/dosipas";
+import { encodeFcbTicket, ticketValidity, validityPhase } from "../lib/fcb";
 import { renderAztecCode } from "../lib/aztec";
+import { buildTicketBarcode } from "../lib/ticketBarcode";
+import {
+  SLOT_SECONDS,
+  normalizeNonce,
+  slotStart,
+  timeSlot,
+} from "../lib/antiReplay";
+import {
+  ANCHOR_REFRESH_MS,
+  acceptTimeToken,
+  anchoredNow,
+  formatSkew,
+  getTimeAnchor,
+} from "../lib/timeAnchor";
+import { createSessionKey, isSessionKeyExpiring } from "../lib/sessionKey";
+import type { SessionKey } from "../lib/sessionKey";
+import type { TicketBarcode } from "../lib/ticketBarcode";
+import FcbTicketView from "./FcbTicketView";
 
 interface TicketScreenProps {
   record: PaymentRecord;
   ecdsaPrivateKey: CryptoKey;
   ecdsaPublicKeyJwk: JsonWebKey;
+  /** Called after every fresh signature (e.g. to cache it in the vault) */
+  onSigned?: (barcode: TicketBarcode) => void;
+  /** Called with the revoked record once the ticket is cancelled */
+  onCancelled?: (record: PaymentRecord) => void;
 }
 
-interface SignedPayload {
-  ecdsaPublicKey: JsonWebKey;
-  paymentDate: string;
-  paymentRef: string;
-  signatureDate: string;
-  signature: string;
-}
+/** How often the ride balance is refreshed from the backend */
+const BALANCE_REFRESH_MS = 10_000;
+
+const CANCELLATION_REASONS = [
+  "Change of plans",
+  "Bought by mistake",
+  "Event cancelled",
+];
 
 export default function TicketScreen({
   record,
   ecdsaPrivateKey,
   ecdsaPublicKeyJwk,
+  onSigned,
+  onCancelled,
 }: TicketScreenProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [signedPayload, setSignedPayload] = useState<SignedPayload | null>(
-    null,
-  );
+  const onSignedRef = useRef(onSigned);
+  // Ephemeral key signing the barcodes, delegated to by the ticket key
+  const sessionKeyRef = useRef<SessionKey | null>(null);
+  const [barcode, setBarcode] = useState<TicketBarcode | null>(null);
   const [sigCount, setSigCount] = useState(0);
   const [error, setError] = useState("");
+  const [now, setNow] = useState(() => anchoredNow());
+  // Latest backend time token; the device clock is used until one arrives
+  const [timeAnchor, setTimeAnchor] = useState(getTimeAnchor);
+  // Verifier's challenge nonce, signed along with the time slot
+  const [challenge, setChallenge] = useState("");
+  const backend = useBackend();
+  // Verifiers use rides on the backend: the record's count goes stale
+  const [usage, setUsage] = useState({
+    ridesUsed: record.ridesUsed,
+    lastRideAt: record.lastRideAt,
+  });
+  const left = ridesLeft(record.entitlement, usage.ridesUsed);
+
+  // Signatures are only produced inside the ticket's validity window, and
+  // never once it is revoked or has no rides left
+  const validity = ticketValidity(record.ticket);
+  const phase = validity ? validityPhase(validity, now) : "valid";
+  const active = phase === "valid" && !record.revokedAt && left !== 0;
+
+  useEffect(() => {
+    onSignedRef.current = onSigned;
+  });
+
+  // Clock for the countdowns and the window boundaries
+  useEffect(() => {
+    const interval = setInterval(() => setNow(anchoredNow()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Fetch a time token now, whenever the device comes back online, and
+  // every ANCHOR_REFRESH_MS while it stays online
+  useEffect(() => {
+    let current = true;
+    const refresh = () => {
+      backend
+        .issueTimeToken()
+        .then((token) => {
+          if (current) setTimeAnchor(acceptTimeToken(token));
+        })
+        .catch(() => {});
+    };
+    refresh();
+    const interval = setInterval(refresh, ANCHOR_REFRESH_MS);
+    window.addEventListener("online", refresh);
+    return () => {
+      current = false;
+      clearInterval(interval);
+      window.removeEventListener("online", refresh);
+    };
+  }, [backend]);
 
   useEffect(() => {
+    let current = true;
+    const refresh = () =>
+      backend
+        .lookupByPublicKey(ecdsaPublicKeyJwk)
+        .then((latest) => {
+          if (current && latest) {
+            setUsage({
+              ridesUsed: latest.ridesUsed,
+              lastRideAt: latest.lastRideAt,
+            });
+          }
+        })
+        .catch(() => {});
+    refresh();
+    const interval = setInterval(refresh, BALANCE_REFRESH_MS);
+    return () => {
+      current = false;
+      clearInterval(interval);
+    };
+  }, [backend, ecdsaPublicKeyJwk]);
+
+  useEffect(() => {
+    if (!active) return;
     let cancelled = false;
 
-    const signAndRender = async () => {
+    const signAndRender = async (slot: number) => {
       try {
-        const signatureDate = new Date().toISOString();
+        // The ticket key only signs delegations: a new session key before
+        // the current one expires
+        const signatureDate = slotStart(slot);
+        let sessionKey = sessionKeyRef.current;
+        if (!sessionKey || isSessionKeyExpiring(sessionKey, signatureDate)) {
+          sessionKey = await createSessionKey(ecdsaPrivateKey, signatureDate);
+          sessionKeyRef.current = sessionKey;
+        }
 
-        // Build the payload to sign (canonical JSON, without signature field)
-        const payloadObj = {
-          ecdsaPublicKey: ecdsaPublicKeyJwk,
-          paymentDate: record.paymentDate,
-          paymentRef: record.paymentRef,
+        // Build the DOSIPAS container and sign level 2 data
+        const signed = await buildTicketBarcode({
+          record,
+          ecdsaPrivateKey,
+          ecdsaPublicKeyJwk,
           signatureDate,
-        };
-        const payloadString = canonicalJsonStringify(payloadObj);
-
-        // Sign
-        const signature = await signPayload(ecdsaPrivateKey, payloadString);
+          challenge: challenge || undefined,
+          timeAnchor: timeAnchor ?? undefined,
+          sessionKey,
+        });
 
         if (cancelled) return;
 
-        const fullPayload: SignedPayload = {
-          ...payloadObj,
-          signature,
-        };
-
-        setSignedPayload(fullPayload);
+        setBarcode(signed);
         setSigCount((c) => c + 1);
+        onSignedRef.current?.(signed);
 
-        // Render Aztec code
-        const fullPayloadString = canonicalJsonStringify(fullPayload);
+        // Render Aztec code (binary mode)
         if (canvasRef.current) {
-          await renderAztecCode(canvasRef.current, fullPayloadString, 3);
+          await renderAztecCode(canvasRef.current, signed.bytes, 3);
         }
       } catch (err) {
         if (!cancelled) {
@@ -73,15 +175,29 @@ export default function TicketScreen({
       }
     };
 
-    // Sign immediately, then every 4 seconds
-    signAndRender();
-    const interval = setInterval(signAndRender, 4000);
+    // Sign the current time slot now, then each new slot as it starts
+    let signedSlot = -1;
+    const tick = () => {
+      const slot = timeSlot(anchoredNow(timeAnchor));
+      if (slot === signedSlot) return;
+      signedSlot = slot;
+      signAndRender(slot);
+    };
+    tick();
+    const interval = setInterval(tick, 250);
 
     return () => {
       cancelled = true;
       clearInterval(interval);
     };
-  }, [ecdsaPrivateKey, ecdsaPublicKeyJwk, record]);
+  }, [
+    ecdsaPrivateKey,
+    ecdsaPublicKeyJwk,
+    record,
+    active,
+    challenge,
+    timeAnchor,
+  ]);
 
   // Compute raw public key bytes for display
   const pubKeyDisplay = ecdsaPublicKeyJwk.x && ecdsaPublicKeyJwk.y
@@ -99,20 +215,113 @@ export default function TicketScreen({
         </span>
       </div>
 
+      {record.keyAssurance === "passphrase" && (
+        <div className="bg-amber-900/40 text-amber-300 border border-amber-800 rounded-md p-3 text-xs">
+          Passphrase mode — this ticket's key is protected by a passphrase
+          rather than your authenticator (lower assurance). The barcode says
+          so, and some verifiers may refuse it.
+        </div>
+      )}
+
+      {record.revokedAt && (
+        <div className="bg-red-900/50 text-red-300 border border-red-800 rounded-md p-3 text-sm space-y-1">
+          <p>
+            {record.refund ? "Cancelled" : "Revoked"} on{" "}
+            {new Date(record.revokedAt).toLocaleString()}
+            {record.revocationReason && ` — ${record.revocationReason}`}. The
+            ticket no longer produces barcodes.
+          </p>
+          {record.refund && (
+            <p className="text-xs">
+              Refunded{" "}
+              {formatAmount(
+                record.refund.amount,
+                record.quote.currency,
+                record.quote.currencyFract,
+              )}{" "}
+              (<span className="font-mono">{record.refund.refundRef}</span>).
+            </p>
+          )}
+        </div>
+      )}
+      {!record.revokedAt && validity && phase === "notYetValid" && (
+        <div className="bg-amber-900/40 text-amber-300 border border-amber-800 rounded-md p-3 text-sm">
+          Not valid yet — valid from {validity.from.toLocaleString()}, in{" "}
+          {formatDuration(validity.from.getTime() - now.getTime())}.
+        </div>
+      )}
+      {/* The window's last minute is included, as in validityPhase() */}
+      {active && validity && (
+        <div className="bg-gray-800 text-gray-300 rounded-md p-3 text-sm">
+          Valid until {validity.until.toLocaleString()} —{" "}
+          {formatDuration(validity.until.getTime() + 60_000 - now.getTime())}{" "}
+          left.
+        </div>
+      )}
+      {!record.revokedAt && validity && phase === "expired" && (
+        <div className="bg-red-900/50 text-red-300 border border-red-800 rounded-md p-3 text-sm">
+          Expired on {validity.until.toLocaleString()}. The ticket no longer
+          produces barcodes.
+        </div>
+      )}
+
+      {!record.revokedAt && (
+        <div
+          className={`rounded-md p-3 text-sm flex justify-between gap-3 ${
+            left === 0
+              ? "bg-red-900/50 text-red-300 border border-red-800"
+              : "bg-gray-800 text-gray-300"
+          }`}
+        >
+          <span>{describeEntitlement(record.entitlement)}</span>
+          <span className="text-right">
+            {left === null
+              ? `${usage.ridesUsed} validation${usage.ridesUsed === 1 ? "" : "s"}`
+              : left === 0
+                ? record.entitlement.kind === "single"
+                  ? "Used"
+                  : "No rides left"
+                : record.entitlement.kind === "carnet"
+                  ? `${left} of ${record.entitlement.rides} rides left`
+                  : "Not used yet"}
+            {usage.lastRideAt &&
+              ` · last ${new Date(usage.lastRideAt).toLocaleString()}`}
+          </span>
+        </div>
+      )}
+
       {error && (
         <div className="bg-red-900/50 text-red-300 border border-red-800 rounded-md p-3 text-sm">
           {error}
         </div>
       )}
 
-      {/* Aztec code */}
-      <div className="flex justify-center bg-white rounded-lg p-4">
+      {/* Aztec code, hidden outside the validity window or once revoked */}
+      <div
+        className={`justify-center bg-white rounded-lg p-4 ${active ? "flex" : "hidden"}`}
+      >
         <canvas ref={canvasRef} />
       </div>
 
-      <p className="text-center text-gray-500 text-xs">
-        Aztec code refreshes every 4 seconds with a new signature
-      </p>
+      {active && (
+        <>
+          <p className="text-center text-gray-500 text-xs">
+            Aztec code is re-signed for every {SLOT_SECONDS}-second time slot
+            {barcode && ` (slot ${barcode.slot})`}
+          </p>
+          <label className="flex items-center gap-3 text-xs text-gray-400">
+            <span className="shrink-0">Verifier code</span>
+            <input
+              type="text"
+              value={challenge}
+              onChange={(e) => setChallenge(normalizeNonce(e.target.value))}
+              placeholder="If the verifier shows one"
+              maxLength={12}
+              className="flex-1 rounded-md bg-gray-800 border border-gray-700 px-2 py-1.5 text-sm font-mono tracking-widest text-gray-200 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+            />
+          </label>
+        </>
+      )}
 
       {/* Ticket info */}
       <div className="space-y-3">
@@ -135,6 +344,14 @@ export default function TicketScreen({
           </div>
         </div>
 
+        <FcbTicketView ticket={record.ticket} />
+
+        <DebugSection title="FCB Ticket Data (UPER, hex)">
+          <pre className="text-xs break-all whitespace-pre-wrap">
+            {bytesToHex(encodeFcbTicket(record.ticket))}
+          </pre>
+        </DebugSection>
+
         <DebugSection title="ECDSA Public Key (JWK)">
           <pre className="text-xs break-all whitespace-pre-wrap">
             {pubKeyDisplay}
@@ -145,39 +362,178 @@ export default function TicketScreen({
           <pre className="text-xs break-all">{record.thumbprint}</pre>
         </DebugSection>
 
-        {signedPayload && (
+        {barcode && active && (
           <>
-            <DebugSection title="Signed Payload (canonical JSON)">
+            <DebugSection title="Level 1 Data (UPER, hex)">
               <pre className="text-xs break-all whitespace-pre-wrap">
-                {canonicalJsonStringify({
-                  ecdsaPublicKey: signedPayload.ecdsaPublicKey,
-                  paymentDate: signedPayload.paymentDate,
-                  paymentRef: signedPayload.paymentRef,
-                  signatureDate: signedPayload.signatureDate,
-                })}
+                {bytesToHex(
+                  encodeLevel1Data(barcode.header.level2SignedData.level1Data),
+                )}
               </pre>
             </DebugSection>
 
-            <DebugSection title="ECDSA Signature (ASN.1 DER, base64url)">
-              <pre className="text-xs break-all">{signedPayload.signature}</pre>
+            <DebugSection title="Level 2 Signature (ASN.1 DER, hex)">
+              <pre className="text-xs break-all">
+                {bytesToHex(barcode.header.level2Signature ?? new Uint8Array())}
+              </pre>
             </DebugSection>
 
-            <DebugSection title="Full Aztec Payload">
+            <DebugSection
+              title={`Full Aztec Payload (UicBarcodeHeader, ${barcode.bytes.length} bytes, hex)`}
+            >
               <pre className="text-xs break-all whitespace-pre-wrap">
-                {canonicalJsonStringify(signedPayload)}
+                {bytesToHex(barcode.bytes)}
               </pre>
             </DebugSection>
 
-            <DebugSection title="Signature Date">
-              <pre className="text-xs">{signedPayload.signatureDate}</pre>
+            {barcode.delegation && (
+              <DebugSection title="Session Key (delegated, non-extractable)">
+                <pre className="text-xs break-all whitespace-pre-wrap">
+                  {bytesToHex(barcode.delegation.sessionPublicKey)}
+                  {`\nValid ${new Date(barcode.delegation.validFrom).toISOString()}`}
+                  {` – ${new Date(barcode.delegation.validUntil).toISOString()}`}
+                </pre>
+              </DebugSection>
+            )}
+
+            <DebugSection title="Time Slot">
+              <pre className="text-xs">
+                {`#${barcode.slot}, from ${barcode.signatureDate.toISOString()}`}
+                {barcode.challengeResponse &&
+                  `\nChallenge response: ${barcode.challengeResponse}`}
+                {barcode.timeAnchor && timeAnchor
+                  ? `\nAnchored to backend time ${new Date(
+                      timeAnchor.token.issuedAt,
+                    ).toISOString()} + ${barcode.timeAnchor.offsetMs} ms` +
+                    `\nDevice clock off by ${formatSkew(
+                      timeAnchor.deviceSkewMs,
+                    )}`
+                  : "\nDevice clock (no current backend time token)"}
+              </pre>
             </DebugSection>
           </>
         )}
       </div>
+
+      {/* Unlimited tickets (left === null) are refunded until first ridden */}
+      {!record.revokedAt &&
+        phase !== "expired" &&
+        left !== 0 &&
+        (left !== null || usage.ridesUsed === 0) && (
+          <CancelTicket
+            record={{ ...record, ...usage }}
+            onCancelled={onCancelled}
+          />
+        )}
     </section>
   );
 }
 
+// ---------------------------------------------------------------------------
+// Cancellation — refunds the payment and revokes the ticket
+// ---------------------------------------------------------------------------
+
+function CancelTicket({
+  record,
+  onCancelled,
+}: {
+  record: PaymentRecord;
+  onCancelled?: (record: PaymentRecord) => void;
+}) {
+  const backend = useBackend();
+  const [confirming, setConfirming] = useState(false);
+  const [reason, setReason] = useState(CANCELLATION_REASONS[0]);
+  const [cancelling, setCancelling] = useState(false);
+  const [error, setError] = useState("");
+  const { quote } = record;
+
+  const handleCancel = async () => {
+    setError("");
+    setCancelling(true);
+    try {
+      onCancelled?.(await backend.refundPayment(record.thumbprint, reason));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  if (!confirming) {
+    return (
+      <button
+        onClick={() => setConfirming(true)}
+        className="w-full rounded-md bg-gray-800 hover:bg-gray-700 px-5 py-2 text-sm text-red-300 transition-colors cursor-pointer"
+      >
+        Cancel ticket and request a refund
+      </button>
+    );
+  }
+
+  return (
+    <div className="bg-gray-800 rounded-md p-4 space-y-3 border border-red-900">
+      <p className="text-sm text-gray-300">
+        Cancel this ticket? You will be refunded{" "}
+        {formatAmount(
+          refundAmount(record),
+          quote.currency,
+          quote.currencyFract,
+        )}
+        {record.entitlement.kind === "carnet" &&
+          ` (${ridesLeft(record.entitlement, record.ridesUsed)} of ${record.entitlement.rides} rides left)`}{" "}
+        and the ticket will stop working immediately, on this device and any
+        other.
+      </p>
+      <label className="block text-xs text-gray-400">
+        Reason
+        <select
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          disabled={cancelling}
+          className="mt-1 w-full rounded-md bg-gray-900 border border-gray-700 px-2 py-1.5 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-red-500"
+        >
+          {CANCELLATION_REASONS.map((r) => (
+            <option key={r}>{r}</option>
+          ))}
+        </select>
+      </label>
+      {error && (
+        <div className="bg-red-900/50 text-red-300 border border-red-800 rounded-md p-3 text-xs">
+          {error}
+        </div>
+      )}
+      <div className="flex gap-3">
+        <button
+          onClick={handleCancel}
+          disabled={cancelling}
+          className="flex-1 rounded-md bg-red-700 hover:bg-red-600 disabled:opacity-50 px-4 py-2 text-sm font-medium transition-colors cursor-pointer"
+        >
+          {cancelling ? "Cancelling..." : "Cancel and refund"}
+        </button>
+        <button
+          onClick={() => setConfirming(false)}
+          disabled={cancelling}
+          className="flex-1 rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50 px-4 py-2 text-sm font-medium transition-colors cursor-pointer"
+        >
+          Keep ticket
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/** "2d 04h", "1h 05m" or "4m 09s" */
+function formatDuration(ms: number): string {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const days = Math.floor(total / 86400);
+  const hours = Math.floor((total % 86400) / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  if (days > 0) return `${days}d ${pad(hours)}h`;
+  if (hours > 0) return `${hours}h ${pad(minutes)}m`;
+  return `${minutes}m ${pad(total % 60)}s`;
+}
+
 function DebugSection({
   title,
   children,
@@ -1,27 +1,133 @@
 import { useState } from "react";
+import { bytesEqual, jwkThumbprint } from "../lib/crypto";
 import {
-  canonicalJsonStringify,
-  verifySignature,
-  jwkThumbprint,
-} from "../lib/crypto";
-import { lookupByPublicKey } from "../lib/fakeBackend";
+  encodeFcbTicket,
+  issuingDate,
+  ticketReference,
+  ticketValidity,
+  validityPhase,
+} from "../lib/fcb";
+import type { FcbTicket, ValidityPhase } from "../lib/fcb";
+import { useBackend } from "../lib/backendContext";
+import { countRide } from "../lib/backend";
+import type { BackendStatus, RideRedemption } from "../lib/backend";
+import { describeEntitlement, getProduct } from "../lib/catalog";
+import type { Entitlement } from "../lib/catalog";
+import {
+  SLOT_SECONDS,
+  SLOT_TOLERANCE,
+  createChallengeNonce,
+  createReplayCache,
+  isSlotFresh,
+  slotAge,
+} from "../lib/antiReplay";
+import {
+  ANCHOR_SKEW_TOLERANCE_MS,
+  MAX_ANCHOR_AGE_MS,
+  MAX_ANCHOR_OFFSET_MS,
+  formatInterval,
+  formatSkew,
+} from "../lib/timeAnchor";
+import type { TimeAnchorReport } from "../lib/timeAnchor";
+import type { DelegationReport } from "../lib/sessionKey";
+import {
+  importValidationBundle,
+  loadValidationBundle,
+  lookupValidationBundle,
+} from "../lib/validationBundle";
+import type {
+  BundleRevocation,
+  BundleStatus,
+  SignedValidationBundle,
+  StoredBundle,
+} from "../lib/validationBundle";
+import { parseBarcodeText, readTicketBarcode } from "../lib/ticketBarcode";
+import { importKeyList, loadKeyList } from "../lib/trust";
+import type { IssuerKeyStatus, SignedKeyList } from "../lib/trust";
+import type { KeyAssurance } from "../lib/ticketBarcode";
+import FcbTicketView from "./FcbTicketView";
+
+/**
+ * Outcome of the offline check against the validation bundle; a ticket
+ * issued after the bundle cannot be listed in it yet.
+ */
+type BundleCheck = BundleStatus | "issuedAfter";
 
 interface VerificationResult {
   valid: boolean;
+  /** Issuer key reference from level 1, e.g. "9999/1" */
+  issuerKeyRef: string;
+  issuerKeyStatus: IssuerKeyStatus;
+  issuerSignatureValid: boolean;
+  holderSignatureValid: boolean;
+  /** Session key the holder key delegated to (null when it signed itself) */
+  delegation: DelegationReport | null;
+  /** Declared holder key assurance (null when the ticket has none) */
+  keyAssurance: KeyAssurance | null;
+  /** The assurance level is acceptable under the verifier's policy */
+  assuranceAccepted: boolean;
   signatureDate: string;
-  paymentRef: string;
-  paymentDate: string;
+  /** The ticket's own validity window (null when it has none) */
+  ticketWindow: { from: Date; until: Date } | null;
+  /** Where the verification time falls in that window */
+  ticketPhase: ValidityPhase | null;
+  ticket: FcbTicket;
   publicKeyThumbprint: string;
-  timeDelta: number;
-  backendMatch: boolean;
+  /** Signed time slot and its age in slots (null for barcodes without one) */
+  slot: number | null;
+  slotAge: number | null;
+  slotFresh: boolean;
+  /** The same signature was already accepted in the current window */
+  replayed: boolean;
+  /** Backend time anchor signed with the slot (null when there is none) */
+  timeAnchor: TimeAnchorReport | null;
+  /** The anchor checks out, or its absence is acceptable under the policy */
+  anchorAccepted: boolean;
+  /** Nonce this verifier required, and what the barcode answered */
+  challenge: string | null;
+  challengeResponse: string | null;
+  /** null when the online cross-check was not requested */
+  backendStatus: BackendStatus | null;
+  /** Revocation date and reason reported by the online cross-check */
+  revokedAt: string | null;
+  revocationReason: string;
+  /** null when no validation bundle is imported */
+  bundleStatus: BundleCheck | null;
+  bundleRevocation: BundleRevocation | null;
+  bundleVersion: number | null;
+  /** The product's entitlement, known offline from the ticket's product ID */
+  entitlement: Entitlement | null;
+  /** The ride counted by the online check (null when not counted) */
+  redemption: RideRedemption | null;
+  /**
+   * Why a single-entry or carnet ride could not be counted online (no
+   * matching record, backend unreachable or failing); such tickets are then
+   * refused
+   */
+  redemptionError: string | null;
+  /** The online check was on, so rides could be counted */
+  onlineCheck: boolean;
   details: string;
 }
 
 export default function VerifierScreen() {
-  const [jsonInput, setJsonInput] = useState("");
+  const backend = useBackend();
+  const [barcodeInput, setBarcodeInput] = useState("");
   const [result, setResult] = useState<VerificationResult | null>(null);
   const [error, setError] = useState("");
   const [verifying, setVerifying] = useState(false);
+  const [onlineCheck, setOnlineCheck] = useState(false);
+  const [acceptPassphrase, setAcceptPassphrase] = useState(true);
+  const [requireAnchor, setRequireAnchor] = useState(false);
+  // Challenge the holder must sign; null when not required
+  const [challenge, setChallenge] = useState<string | null>(null);
+  const [replayCache] = useState(createReplayCache);
+  const [keyList, setKeyList] = useState<SignedKeyList | null>(() =>
+    loadKeyList(),
+  );
+  const [bundle, setBundle] = useState<StoredBundle | null>(() =>
+    loadValidationBundle(),
+  );
 
   const handleVerify = async () => {
     setError("");
@@ -29,68 +135,278 @@ export default function VerifierScreen() {
     setVerifying(true);
 
     try {
-      const parsed = JSON.parse(jsonInput);
-      const {
-        ecdsaPublicKey,
-        paymentRef,
-        paymentDate,
-        signatureDate,
-        signature,
-      } = parsed;
+      // Decode the DOSIPAS container and verify the chain
+      // issuer → holder key (level 1) → dynamic content (level 2), offline
+      const decoded = await readTicketBarcode(
+        parseBarcodeText(barcodeInput),
+        keyList?.keys ?? [],
+      );
+      const { ecdsaPublicKey, ticket } = decoded;
+      const { level1Data } = decoded.header.level2SignedData;
+      const issuerKeyRef = `${level1Data.securityProviderNum ?? "?"}/${level1Data.keyId ?? "?"}`;
+      const issuerValid =
+        decoded.issuerKeyStatus === "valid" && decoded.issuerSignatureValid;
+      // Holder → session key delegation: signed (checked with level 2) and
+      // not expired
+      const delegationValid =
+        decoded.delegation === null || decoded.delegation.status === "valid";
+      // Operator policy on the weaker passphrase fallback
+      const assuranceAccepted =
+        decoded.keyAssurance !== "passphrase" || acceptPassphrase;
+      const signatureDate = decoded.signatureDate.toISOString();
 
-      if (!ecdsaPublicKey || !paymentRef || !paymentDate || !signatureDate || !signature) {
-        throw new Error(
-          "Missing required fields: ecdsaPublicKey, paymentRef, paymentDate, signatureDate, signature",
+      // Anti-replay: a current time slot, a slot and challenge not accepted
+      // before for this ticket (remembered below once the scan is valid),
+      // and this verifier's challenge when it shows one
+      const now = Date.now();
+      const thumbprint = await jwkThumbprint(ecdsaPublicKey);
+      const age =
+        decoded.slot === null ? null : slotAge(decoded.slot, new Date(now));
+      const slotFresh =
+        decoded.slot !== null && isSlotFresh(decoded.slot, new Date(now));
+      const replayed =
+        decoded.signatureValid &&
+        decoded.slot !== null &&
+        replayCache.hasSeen(
+          thumbprint,
+          decoded.slot,
+          decoded.challengeResponse,
+          new Date(now),
         );
-      }
+      const challengeAnswered =
+        challenge === null || decoded.challengeResponse === challenge;
+      // Trusted time: the slot was read from a backend-signed time token
+      const { timeAnchor } = decoded;
+      const anchorAccepted = timeAnchor
+        ? timeAnchor.status === "valid" &&
+          timeAnchor.slotConsistent &&
+          timeAnchor.offsetInRange &&
+          timeAnchor.offsetConsistent &&
+          timeAnchor.ageMs <= MAX_ANCHOR_AGE_MS
+        : !requireAnchor;
+      const dynamicValid =
+        slotFresh && !replayed && challengeAnswered && anchorAccepted;
 
-      // Re-import the public key
-      const publicKey = await crypto.subtle.importKey(
-        "jwk",
-        ecdsaPublicKey,
-        { name: "ECDSA", namedCurve: "P-256" },
-        true,
-        ["verify"],
-      );
-
-      // Rebuild the canonical payload (without signature)
-      const payloadObj = {
-        ecdsaPublicKey,
-        paymentDate,
-        paymentRef,
-        signatureDate,
-      };
-      const payloadString = canonicalJsonStringify(payloadObj);
+      // The ticket itself must be valid now, whatever its signatures
+      const ticketWindow = ticketValidity(ticket);
+      const ticketPhase = ticketWindow
+        ? validityPhase(ticketWindow, new Date(now))
+        : null;
 
-      // Verify signature
-      const valid = await verifySignature(publicKey, payloadString, signature);
+      // Optional online cross-check against the fake backend
+      let backendStatus: BackendStatus | null = null;
+      let revokedAt: string | null = null;
+      let revocationReason = "";
+      if (onlineCheck) {
+        const backendRecord = await backend
+          .lookupByPublicKey(ecdsaPublicKey)
+          .catch(() => undefined);
+        if (backendRecord === undefined) {
+          backendStatus = "unreachable";
+        } else if (backendRecord?.revokedAt) {
+          backendStatus = "revoked";
+          revokedAt = backendRecord.revokedAt;
+          revocationReason = backendRecord.revocationReason ?? "";
+        } else {
+          backendStatus =
+            backendRecord !== null &&
+            backendRecord.paymentRef === ticket.issuingDetail.issuerPNR &&
+            bytesEqual(
+              encodeFcbTicket(backendRecord.ticket),
+              decoded.ticketBytes,
+            )
+              ? "match"
+              : "noRecord";
+        }
+      }
+      // Offline check against the imported validation bundle
+      let bundleStatus: BundleCheck | null = null;
+      let bundleRevocation: BundleRevocation | null = null;
+      if (bundle) {
+        const listing = lookupValidationBundle(bundle, thumbprint);
+        bundleRevocation = listing.revocation;
+        // Issuing times are to the minute: a ticket issued during the
+        // bundle's minute may be missing from it
+        bundleStatus =
+          listing.status === "notListed" &&
+          issuingDate(ticket.issuingDetail).getTime() + 60_000 > bundle.version
+            ? "issuedAfter"
+            : listing.status;
+      }
+      const bundleAccepted =
+        bundleStatus !== "revoked" && bundleStatus !== "notListed";
 
-      // Check time delta
-      const sigTime = new Date(signatureDate).getTime();
-      const now = Date.now();
-      const timeDelta = Math.abs(now - sigTime) / 1000;
+      // A ticket that passes every other check uses one of its rides; the
+      // backend refuses a used single entry or an empty carnet. Counted
+      // rides fail closed: a single entry or carnet whose ride cannot be
+      // counted online is refused rather than let through uncounted.
+      const doc = ticket.transportDocument?.[0];
+      const entitlement =
+        doc?.kind === "openTicket"
+          ? entitlementOf(doc.openTicket.productIdIA5)
+          : null;
+      const countedRides =
+        entitlement !== null && entitlement.kind !== "unlimited";
+      const redeemable =
+        issuerValid &&
+        decoded.signatureValid &&
+        delegationValid &&
+        dynamicValid &&
+        assuranceAccepted &&
+        bundleAccepted &&
+        ticketPhase !== "notYetValid" &&
+        ticketPhase !== "expired";
+      let redemption: RideRedemption | null = null;
+      let redemptionError: string | null = null;
+      if (redeemable && backendStatus !== null) {
+        const count = await countRide(
+          backend,
+          thumbprint,
+          backendStatus,
+          countedRides,
+        );
+        redemption = count.redemption;
+        redemptionError = count.error;
+      }
 
-      // Look up in fake backend
-      const backendRecord = await lookupByPublicKey(ecdsaPublicKey);
+      const valid =
+        issuerValid &&
+        decoded.signatureValid &&
+        delegationValid &&
+        dynamicValid &&
+        assuranceAccepted &&
+        ticketPhase !== "notYetValid" &&
+        ticketPhase !== "expired" &&
+        !revokedAt &&
+        bundleAccepted &&
+        redemptionError === null &&
+        (redemption === null || redemption.outcome === "accepted");
+      if (valid && decoded.slot !== null) {
+        replayCache.remember(
+          thumbprint,
+          decoded.slot,
+          decoded.challengeResponse,
+          new Date(now),
+        );
+      }
 
-      // Compute thumbprint for display
-      const thumbprint = await jwkThumbprint(ecdsaPublicKey);
+      let details: string;
+      if (decoded.issuerKeyStatus === "unknown") {
+        details = `Ticket references issuer key ${issuerKeyRef}, which is not in the trusted key list (unknown or retired). Its content cannot be trusted.`;
+      } else if (decoded.issuerKeyStatus === "expired") {
+        details = `Issuer key ${issuerKeyRef} expired on ${decoded.issuerKey!.validUntil}. Tickets signed with it are no longer accepted.`;
+      } else if (decoded.issuerKeyStatus === "notYetValid") {
+        details = `Issuer key ${issuerKeyRef} is not valid before ${decoded.issuerKey!.validFrom}.`;
+      } else if (!decoded.issuerSignatureValid) {
+        details =
+          "Issuer signature verification FAILED. The ticket data or holder key may have been tampered with.";
+      } else if (decoded.delegation?.status === "badSignature") {
+        details =
+          "Session key delegation verification FAILED. The key that signed the barcode was not delegated to by the ticket holder's key.";
+      } else if (!decoded.signatureValid) {
+        details =
+          "Holder signature verification FAILED. The barcode was not produced by the ticket holder's key.";
+      } else if (!delegationValid) {
+        details =
+          decoded.delegation!.status === "expired"
+            ? `Signatures are valid, but the session key that signed the barcode expired at ${decoded.delegation!.validUntil.toISOString()}. It may be an old screenshot.`
+            : `Signatures are valid, but the session key that signed the barcode is not valid before ${decoded.delegation!.validFrom.toISOString()}.`;
+      } else if (replayed) {
+        details =
+          "Signatures are valid, but this ticket was already scanned for this time slot: it is a replay (e.g. a forwarded screenshot).";
+      } else if (!slotFresh) {
+        details =
+          age === null
+            ? "Signatures are valid, but the barcode has no time slot, so its freshness cannot be checked."
+            : `Signatures are valid, but the barcode was signed for time slot ${decoded.slot}, ${age} slot(s) from now; only the current slot and the ${SLOT_TOLERANCE} before it are accepted. It may be a screenshot.`;
+      } else if (!anchorAccepted) {
+        details = !timeAnchor
+          ? "Signatures are valid, but the barcode was signed by the holder's device clock alone and this verifier's policy requires a backend time anchor."
+          : timeAnchor.status !== "valid"
+            ? `Signatures are valid, but the barcode's time token ${timeAnchor.status === "unknownKey" ? "references an issuer key that is not trusted" : "signature is invalid"}: its time cannot be trusted.`
+            : !timeAnchor.slotConsistent
+              ? `Signatures are valid, but time slot ${decoded.slot} does not match the anchored signing time ${timeAnchor.anchoredAt.toISOString()}: the holder's clock was tampered with.`
+              : !timeAnchor.offsetInRange
+                ? `Signatures are valid, but the barcode declares ${formatInterval(timeAnchor.anchoredAt.getTime() - timeAnchor.issuedAt.getTime())} since its time token; at most ${formatInterval(MAX_ANCHOR_OFFSET_MS)} is accepted.`
+                : !timeAnchor.offsetConsistent
+                  ? `Signatures are valid, but the anchored signing time ${timeAnchor.anchoredAt.toISOString()} is ${formatSkew(-timeAnchor.verifierSkewMs)} off this verifier's clock; at most ${formatInterval(ANCHOR_SKEW_TOLERANCE_MS)} is accepted. The declared time offset was tampered with, or this verifier's clock is wrong.`
+                  : `Signatures are valid, but the barcode's time anchor is ${formatInterval(timeAnchor.ageMs)} old; at most ${formatInterval(MAX_ANCHOR_AGE_MS)} is accepted.`;
+      } else if (!challengeAnswered) {
+        details = `Signatures are valid, but the barcode does not answer this verifier's challenge ${challenge}${decoded.challengeResponse ? ` (it answers ${decoded.challengeResponse})` : ""}.`;
+      } else if (ticketPhase === "expired") {
+        details = `Signatures are valid, but the ticket expired on ${ticketWindow!.until.toISOString()}.`;
+      } else if (ticketPhase === "notYetValid") {
+        details = `Signatures are valid, but the ticket is not valid before ${ticketWindow!.from.toISOString()}.`;
+      } else if (revokedAt) {
+        details = `Signatures are valid, but the backend revoked this ticket on ${revokedAt}${revocationReason ? ` (${revocationReason})` : ""}.`;
+      } else if (bundleRevocation) {
+        details = `Signatures are valid, but the validation bundle lists this ticket as revoked on ${bundleRevocation.revokedAt}${bundleRevocation.reason ? ` (${bundleRevocation.reason})` : ""}.`;
+      } else if (bundleStatus === "notListed") {
+        details =
+          "Signatures are valid, but the ticket is not in the validation bundle although it was issued before it: the backend does not know it as a valid ticket.";
+      } else if (redemption?.outcome === "alreadyUsed") {
+        details = `Signatures are valid, but this single-entry ticket was already used on ${redemption.record.lastRideAt}.`;
+      } else if (redemption?.outcome === "noRidesLeft") {
+        details = `Signatures are valid, but all ${redemption.record.ridesUsed} rides of this ticket were used.`;
+      } else if (redemptionError) {
+        details = `Signatures are valid, but the ride could not be counted on the backend (${redemptionError}). A ${describeEntitlement(entitlement!).toLowerCase()} ticket is refused rather than let through uncounted.`;
+      } else if (!assuranceAccepted) {
+        details =
+          "Signatures are valid, but the holder key is protected by a passphrase (weaker assurance) and this verifier's policy refuses passphrase-mode tickets.";
+      } else if (decoded.keyAssurance === "passphrase") {
+        details = `Issuer and holder signatures are cryptographically valid. Note: passphrase-mode ticket (weaker assurance). Time slot ${decoded.slot}.`;
+      } else {
+        details = `Issuer and holder signatures are cryptographically valid. Time slot ${decoded.slot}.`;
+      }
 
       setResult({
         valid,
+        issuerKeyRef,
+        issuerKeyStatus: decoded.issuerKeyStatus,
+        issuerSignatureValid: issuerValid,
+        holderSignatureValid: decoded.signatureValid,
+        delegation: decoded.delegation,
+        keyAssurance: decoded.keyAssurance,
+        assuranceAccepted,
         signatureDate,
-        paymentRef,
-        paymentDate,
+        ticketWindow,
+        ticketPhase,
+        ticket,
         publicKeyThumbprint: thumbprint,
-        timeDelta,
-        backendMatch:
-          backendRecord !== null &&
-          backendRecord.paymentRef === paymentRef &&
-          backendRecord.paymentDate === paymentDate,
-        details: valid
-          ? `Signature is cryptographically valid. Time delta: ${timeDelta.toFixed(1)}s.`
-          : "Signature verification FAILED. The data may have been tampered with.",
+        slot: decoded.slot,
+        slotAge: age,
+        slotFresh,
+        replayed,
+        timeAnchor,
+        anchorAccepted,
+        challenge,
+        challengeResponse: decoded.challengeResponse,
+        backendStatus,
+        revokedAt,
+        revocationReason,
+        bundleStatus,
+        bundleRevocation,
+        bundleVersion: bundle?.version ?? null,
+        entitlement,
+        redemption,
+        redemptionError,
+        onlineCheck,
+        details,
       });
+
+      // Report the check to the backend's validation log, when reachable
+      backend
+        .logValidation({
+          thumbprint,
+          ticketId: ticketReference(ticket) ?? "",
+          valid,
+          details,
+          validatedAt: new Date().toISOString(),
+        })
+        .catch(() => {});
+
+      // A challenge answers one scan: show a new one for the next holder
+      if (valid && challenge !== null) setChallenge(createChallengeNonce());
     } catch (err) {
       setError(err instanceof Error ? err.message : String(err));
     } finally {
@@ -101,7 +417,7 @@ export default function VerifierScreen() {
   const handlePasteFromClipboard = async () => {
     try {
       const text = await navigator.clipboard.readText();
-      setJsonInput(text);
+      setBarcodeInput(text);
     } catch {
       setError("Could not read clipboard. Please paste manually.");
     }
@@ -111,10 +427,23 @@ export default function VerifierScreen() {
     <section className="bg-gray-900 rounded-lg p-6 space-y-5 border border-gray-800">
       <h2 className="text-xl font-semibold">Verify Ticket</h2>
       <p className="text-gray-400 text-sm">
-        Paste the JSON payload from an Aztec code to verify its ECDSA signature
-        and check the payment record in the backend.
+        Paste the scanned Aztec content (DOSIPAS UicBarcodeHeader bytes, hex or
+        base64url) to decode it and validate the chain issuer → holder key →
+        dynamic signature. Validation is fully offline; the backend
+        cross-check is optional.
       </p>
 
+      <TrustedKeysPanel keyList={keyList} onChange={setKeyList} />
+
+      <ValidationBundlePanel
+        bundle={bundle}
+        onChange={(stored) => {
+          setBundle(stored);
+          // The bundle carries the issuer key list too
+          setKeyList(loadKeyList());
+        }}
+      />
+
       <div className="space-y-3">
         <div className="flex gap-2">
           <button
@@ -125,15 +454,75 @@ export default function VerifierScreen() {
           </button>
         </div>
         <textarea
-          value={jsonInput}
-          onChange={(e) => setJsonInput(e.target.value)}
-          placeholder='{"ecdsaPublicKey":{...},"paymentRef":"PAY-...","paymentDate":"...","signatureDate":"...","signature":"..."}'
+          value={barcodeInput}
+          onChange={(e) => setBarcodeInput(e.target.value)}
+          placeholder="8f5a9b...  (UicBarcodeHeader, hex or base64url)"
           rows={8}
           className="w-full rounded-md bg-gray-800 border border-gray-700 px-3 py-2 text-xs font-mono focus:outline-none focus:ring-2 focus:ring-indigo-500 resize-y"
         />
+        <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={onlineCheck}
+            onChange={(e) => setOnlineCheck(e.target.checked)}
+            className="accent-indigo-500"
+          />
+          Also cross-check the payment record with the backend (online)
+        </label>
+        {!onlineCheck && (
+          <p className="text-xs text-amber-400/80 pl-6">
+            Offline, rides cannot be counted: a single-entry or carnet ticket is
+            accepted without using up a ride, so it could be used again.
+          </p>
+        )}
+        <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={acceptPassphrase}
+            onChange={(e) => setAcceptPassphrase(e.target.checked)}
+            className="accent-indigo-500"
+          />
+          Accept passphrase-mode tickets (weaker holder key assurance)
+        </label>
+        <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={challenge !== null}
+            onChange={(e) =>
+              setChallenge(e.target.checked ? createChallengeNonce() : null)
+            }
+            className="accent-indigo-500"
+          />
+          Require a challenge: the holder types in the code shown here
+        </label>
+        <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={requireAnchor}
+            onChange={(e) => setRequireAnchor(e.target.checked)}
+            className="accent-indigo-500"
+          />
+          Require a backend time anchor (refuse device-clock signatures)
+        </label>
+        {challenge !== null && (
+          <div className="flex items-center justify-between bg-gray-800 rounded-md px-4 py-3">
+            <span className="text-xs text-gray-500 uppercase tracking-wide">
+              Verifier code
+            </span>
+            <span className="text-2xl font-mono font-bold tracking-[0.3em] text-indigo-300">
+              {challenge}
+            </span>
+            <button
+              onClick={() => setChallenge(createChallengeNonce())}
+              className="text-xs text-gray-400 hover:text-gray-200 cursor-pointer"
+            >
+              New code
+            </button>
+          </div>
+        )}
         <button
           onClick={handleVerify}
-          disabled={verifying || !jsonInput.trim()}
+          disabled={verifying || !barcodeInput.trim()}
           className="w-full rounded-md bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 px-5 py-2.5 text-sm font-medium transition-colors cursor-pointer"
         >
           {verifying ? "Verifying..." : "Verify Signature"}
@@ -158,7 +547,7 @@ export default function VerifierScreen() {
             <span
               className={`text-2xl ${result.valid ? "text-emerald-400" : "text-red-400"}`}
             >
-              {result.valid ? "VALID" : "INVALID"}
+              {verdict(result)}
             </span>
           </div>
 
@@ -170,24 +559,135 @@ export default function VerifierScreen() {
 
           <div className="grid grid-cols-2 gap-3 text-sm">
             <CheckItem
-              label="Signature"
-              ok={result.valid}
-              detail={result.valid ? "Cryptographically valid" : "FAILED"}
+              label="Issuer signature (level 1)"
+              ok={result.issuerSignatureValid}
+              detail={
+                result.issuerKeyStatus === "unknown"
+                  ? `Unknown issuer key ${result.issuerKeyRef}`
+                  : result.issuerKeyStatus === "expired"
+                    ? `Expired issuer key ${result.issuerKeyRef}`
+                    : result.issuerKeyStatus === "notYetValid"
+                      ? `Issuer key ${result.issuerKeyRef} not yet valid`
+                      : result.issuerSignatureValid
+                        ? `Valid, key ${result.issuerKeyRef}`
+                        : "FAILED"
+              }
             />
             <CheckItem
-              label="Time delta"
-              ok={result.timeDelta < 10}
-              detail={`${result.timeDelta.toFixed(1)}s ${result.timeDelta < 10 ? "(fresh)" : "(stale!)"}`}
+              label="Holder signature (level 2)"
+              ok={result.holderSignatureValid}
+              detail={
+                result.holderSignatureValid ? "Cryptographically valid" : "FAILED"
+              }
+            />
+            <CheckItem
+              label="Session key delegation"
+              ok={
+                result.delegation === null ||
+                result.delegation.status === "valid"
+              }
+              detail={describeDelegation(result.delegation)}
+            />
+            <CheckItem
+              label="Holder key assurance"
+              ok={result.assuranceAccepted}
+              detail={
+                result.keyAssurance === "prf"
+                  ? "PRF (authenticator-bound)"
+                  : result.keyAssurance === "passphrase"
+                    ? `Passphrase fallback (weaker)${result.assuranceAccepted ? ", accepted by policy" : ", refused by policy"}`
+                    : "Not declared"
+              }
             />
+            {result.ticketWindow && (
+              <CheckItem
+                label="Ticket validity"
+                ok={result.ticketPhase === "valid"}
+                detail={
+                  result.ticketPhase === "expired"
+                    ? `Expired on ${result.ticketWindow.until.toLocaleString()}`
+                    : result.ticketPhase === "notYetValid"
+                      ? `Not valid before ${result.ticketWindow.from.toLocaleString()}`
+                      : `Valid until ${result.ticketWindow.until.toLocaleString()}`
+                }
+              />
+            )}
             <CheckItem
-              label="Backend record"
-              ok={result.backendMatch}
+              label="Time slot"
+              ok={result.slotFresh}
               detail={
-                result.backendMatch
-                  ? "Payment ref + date match"
-                  : "No matching record"
+                result.slotAge === null
+                  ? "No time slot"
+                  : `#${result.slot}, ${
+                      result.slotAge < 0
+                        ? `${-result.slotAge * SLOT_SECONDS}s ahead`
+                        : `${result.slotAge * SLOT_SECONDS}s old`
+                    } ${result.slotFresh ? "(fresh)" : "(stale!)"}`
               }
             />
+            <CheckItem
+              label="Replay"
+              ok={!result.replayed}
+              detail={
+                result.replayed
+                  ? "Time slot already scanned"
+                  : `First scan (${replayCache.size()} scans remembered)`
+              }
+            />
+            <CheckItem
+              label="Time anchor"
+              ok={result.anchorAccepted}
+              detail={describeTimeAnchor(result.timeAnchor)}
+            />
+            {result.challenge !== null && (
+              <CheckItem
+                label="Challenge"
+                ok={result.challengeResponse === result.challenge}
+                detail={
+                  result.challengeResponse === result.challenge
+                    ? `Answered ${result.challenge}`
+                    : result.challengeResponse
+                      ? `Answered ${result.challengeResponse}, expected ${result.challenge}`
+                      : `No answer to ${result.challenge}`
+                }
+              />
+            )}
+            {result.backendStatus !== null && (
+              <CheckItem
+                label="Backend record (online)"
+                ok={result.backendStatus === "match"}
+                detail={
+                  result.backendStatus === "revoked"
+                    ? `Revoked on ${result.revokedAt}${result.revocationReason ? `: ${result.revocationReason}` : ""}`
+                    : result.backendStatus === "match"
+                      ? "Payment ref + ticket data match"
+                      : result.backendStatus === "unreachable"
+                        ? "Backend unreachable"
+                        : "No matching record"
+                }
+              />
+            )}
+            {result.bundleStatus !== null && (
+              <CheckItem
+                label="Validation bundle (offline)"
+                ok={
+                  result.bundleStatus === "valid" ||
+                  result.bundleStatus === "issuedAfter"
+                }
+                detail={describeBundleCheck(result)}
+              />
+            )}
+            {result.entitlement && (
+              <CheckItem
+                label="Rides"
+                ok={
+                  result.redemption
+                    ? result.redemption.outcome === "accepted"
+                    : result.entitlement.kind === "unlimited"
+                }
+                detail={describeRedemption(result)}
+              />
+            )}
             <CheckItem
               label="Public key"
               ok={true}
@@ -195,14 +695,7 @@ export default function VerifierScreen() {
             />
           </div>
 
-          <div>
-            <span className="text-xs text-gray-500 uppercase tracking-wide">
-              Payment Ref
-            </span>
-            <p className="text-gray-300 font-mono text-xs mt-1">
-              {result.paymentRef}
-            </p>
-          </div>
+          <FcbTicketView ticket={result.ticket} />
           <div>
             <span className="text-xs text-gray-500 uppercase tracking-wide">
               Signature Date
@@ -217,6 +710,291 @@ export default function VerifierScreen() {
   );
 }
 
+/**
+ * Issuer key list trusted by this verifier. Updated by fetching the signed
+ * list from the backend (when online) or by pasting its JSON.
+ */
+function TrustedKeysPanel({
+  keyList,
+  onChange,
+}: {
+  keyList: SignedKeyList | null;
+  onChange: (list: SignedKeyList) => void;
+}) {
+  const backend = useBackend();
+  const [pasted, setPasted] = useState("");
+  const [error, setError] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const importList = async (load: () => Promise<SignedKeyList>) => {
+    setError("");
+    setBusy(true);
+    try {
+      const list = await load();
+      await importKeyList(list);
+      onChange(list);
+      setPasted("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const now = Date.now();
+
+  return (
+    <div className="bg-gray-800 rounded-md p-4 border border-gray-700 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-gray-500 uppercase tracking-wide">
+          Trusted issuer keys
+        </span>
+        <button
+          onClick={() => importList(() => backend.fetchKeyList())}
+          disabled={busy}
+          className="rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50 px-3 py-1.5 text-xs font-medium transition-colors cursor-pointer"
+        >
+          Fetch signed key list
+        </button>
+      </div>
+
+      {keyList ? (
+        <div className="space-y-1">
+          <p className="text-gray-400 text-xs">
+            Version {keyList.version}, issued {keyList.issuedAt}
+          </p>
+          <ul className="text-xs font-mono space-y-0.5">
+            {keyList.keys.map((k) => {
+              const expired = new Date(k.validUntil).getTime() < now;
+              return (
+                <li
+                  key={`${k.securityProviderNum}/${k.keyId}`}
+                  className={expired ? "text-gray-500" : "text-gray-200"}
+                >
+                  {k.securityProviderNum}/{k.keyId} · until{" "}
+                  {k.validUntil.slice(0, 10)}
+                  {expired && " (expired)"}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      ) : (
+        <p className="text-amber-300 text-xs">
+          No key list imported: every ticket will be rejected as signed by an
+          unknown issuer key.
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          value={pasted}
+          onChange={(e) => setPasted(e.target.value)}
+          placeholder="…or paste a signed key list (JSON)"
+          className="flex-1 rounded-md bg-gray-900 border border-gray-700 px-3 py-1.5 text-xs font-mono focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        <button
+          onClick={() =>
+            importList(async () => JSON.parse(pasted) as SignedKeyList)
+          }
+          disabled={busy || !pasted.trim()}
+          className="rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50 px-3 py-1.5 text-xs font-medium transition-colors cursor-pointer"
+        >
+          Import
+        </button>
+      </div>
+
+      {error && <p className="text-red-400 text-xs">{error}</p>}
+    </div>
+  );
+}
+
+/**
+ * Offline validation bundle held by this verifier: fetched whole or as a
+ * delta on top of the stored one (when online), or pasted as JSON.
+ */
+function ValidationBundlePanel({
+  bundle,
+  onChange,
+}: {
+  bundle: StoredBundle | null;
+  onChange: (bundle: StoredBundle) => void;
+}) {
+  const backend = useBackend();
+  const [pasted, setPasted] = useState("");
+  const [error, setError] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const importBundle = async (load: () => Promise<SignedValidationBundle>) => {
+    setError("");
+    setBusy(true);
+    try {
+      onChange(await importValidationBundle(await load()));
+      setPasted("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-md p-4 border border-gray-700 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-gray-500 uppercase tracking-wide">
+          Validation bundle
+        </span>
+        <div className="flex gap-2">
+          <button
+            onClick={() =>
+              importBundle(() =>
+                backend.exportValidationBundle(bundle?.version),
+              )
+            }
+            disabled={busy || !bundle}
+            className="rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50 px-3 py-1.5 text-xs font-medium transition-colors cursor-pointer"
+          >
+            Fetch update
+          </button>
+          <button
+            onClick={() => importBundle(() => backend.exportValidationBundle())}
+            disabled={busy}
+            className="rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50 px-3 py-1.5 text-xs font-medium transition-colors cursor-pointer"
+          >
+            Fetch full bundle
+          </button>
+        </div>
+      </div>
+
+      {bundle ? (
+        <p className="text-gray-400 text-xs">
+          Version {new Date(bundle.version).toISOString()},{" "}
+          {formatInterval(Date.now() - bundle.version)} old ·{" "}
+          {bundle.tickets.length} valid, {bundle.revoked.length} revoked
+          tickets
+        </p>
+      ) : (
+        <p className="text-gray-500 text-xs">
+          No bundle imported: revocations are only seen with the online
+          cross-check.
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          value={pasted}
+          onChange={(e) => setPasted(e.target.value)}
+          placeholder="…or paste a signed bundle or delta (JSON)"
+          className="flex-1 rounded-md bg-gray-900 border border-gray-700 px-3 py-1.5 text-xs font-mono focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+        <button
+          onClick={() =>
+            importBundle(
+              async () => JSON.parse(pasted) as SignedValidationBundle,
+            )
+          }
+          disabled={busy || !pasted.trim()}
+          className="rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50 px-3 py-1.5 text-xs font-medium transition-colors cursor-pointer"
+        >
+          Import
+        </button>
+      </div>
+
+      {error && <p className="text-red-400 text-xs">{error}</p>}
+    </div>
+  );
+}
+
+/** The headline: VALID, or the main reason a ticket is refused. */
+function verdict(result: VerificationResult): string {
+  if (result.valid) return "VALID";
+  if (result.replayed) return "REPLAYED";
+  if (result.backendStatus === "revoked") return "REVOKED";
+  if (result.bundleStatus === "revoked") return "REVOKED";
+  if (result.redemption?.outcome === "alreadyUsed") return "ALREADY USED";
+  if (result.redemption?.outcome === "noRidesLeft") return "NO RIDES LEFT";
+  if (result.redemptionError) return "RIDE NOT COUNTED";
+  return "INVALID";
+}
+
+function describeBundleCheck(result: VerificationResult): string {
+  const ageMs = Date.now() - result.bundleVersion!;
+  const age = `bundle ${formatInterval(ageMs)} old`;
+  switch (result.bundleStatus) {
+    case "revoked": {
+      const { revokedAt, reason } = result.bundleRevocation!;
+      return `Revoked on ${revokedAt}${reason ? `: ${reason}` : ""} (${age})`;
+    }
+    case "notListed":
+      return `Not listed (${age})`;
+    case "issuedAfter":
+      return `Issued after the bundle, not listed yet (${age})`;
+    default:
+      return `Listed as valid (${age})`;
+  }
+}
+
+function describeDelegation(delegation: DelegationReport | null): string {
+  if (!delegation) return "None: signed by the ticket key itself";
+  switch (delegation.status) {
+    case "badSignature":
+      return "Delegation signature FAILED";
+    case "expired":
+      return `Expired at ${delegation.validUntil.toLocaleTimeString()}`;
+    case "notYetValid":
+      return `Not valid before ${delegation.validFrom.toLocaleTimeString()}`;
+    case "valid":
+      return `Valid until ${delegation.validUntil.toLocaleTimeString()}`;
+  }
+}
+
+function describeTimeAnchor(anchor: TimeAnchorReport | null): string {
+  if (!anchor) return "None: signed by the device clock";
+  if (anchor.status === "unknownKey") return "Time token key not trusted";
+  if (anchor.status === "badSignature") return "Time token signature FAILED";
+  if (!anchor.slotConsistent) {
+    return `Slot does not match anchored time ${anchor.anchoredAt.toISOString()}`;
+  }
+  if (!anchor.offsetInRange) return "Declared time offset out of range";
+  if (!anchor.offsetConsistent) {
+    return `Anchored time ${anchor.anchoredAt.toISOString()} is ${formatSkew(-anchor.verifierSkewMs)} off this clock`;
+  }
+  const age = formatInterval(anchor.ageMs);
+  const stale = anchor.ageMs > MAX_ANCHOR_AGE_MS ? " (stale!)" : "";
+  const holderSkew = formatSkew(anchor.holderSkewMs);
+  const verifierSkew = formatSkew(anchor.verifierSkewMs);
+  return `${age} old${stale}; holder clock ${holderSkew}, this clock ${verifierSkew}`;
+}
+
+/** Entitlement of a ticket's product, if the catalog knows it. */
+function entitlementOf(productId: string | undefined): Entitlement | null {
+  try {
+    return productId ? getProduct(productId).entitlement : null;
+  } catch {
+    return null;
+  }
+}
+
+function describeRedemption(result: VerificationResult): string {
+  const { entitlement, redemption, redemptionError } = result;
+  if (redemptionError) return `Ride could not be counted: ${redemptionError}`;
+  if (!redemption) {
+    return result.onlineCheck
+      ? `${describeEntitlement(entitlement!)}, ride not counted`
+      : `${describeEntitlement(entitlement!)}, ride not counted: online check is off`;
+  }
+  switch (redemption.outcome) {
+    case "alreadyUsed":
+      return `Already used on ${redemption.record.lastRideAt}`;
+    case "noRidesLeft":
+      return "No rides left";
+    case "accepted":
+      return redemption.ridesLeft === null
+        ? `Ride ${redemption.record.ridesUsed} counted, unlimited`
+        : `Ride counted, ${redemption.ridesLeft} left`;
+  }
+}
+
 function CheckItem({
   label,
   ok,
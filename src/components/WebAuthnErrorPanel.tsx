@@ -0,0 +1,53 @@
+import type { RecoveryAction, WebAuthnError } from "../lib/webauthnErrors";
+
+const ACTION_LABELS: Record<RecoveryAction, string> = {
+  retry: "Try again",
+  "sign-in": "Sign in instead",
+  "use-another-authenticator": "Use another passkey",
+  "use-fallback": "Use a passphrase",
+  none: "",
+};
+
+interface WebAuthnErrorPanelProps {
+  error: WebAuthnError;
+  /** Handlers for the actions this screen can take */
+  actions: Partial<Record<RecoveryAction, () => void>>;
+  onDismiss: () => void;
+  dismissLabel?: string;
+}
+
+/**
+ * A failed ceremony: what happened, what to do, and a button for the
+ * error's recommended action when the screen can perform it.
+ */
+export default function WebAuthnErrorPanel({
+  error,
+  actions,
+  onDismiss,
+  dismissLabel = "Dismiss",
+}: WebAuthnErrorPanelProps) {
+  const onAction = actions[error.action];
+
+  return (
+    <div className="bg-red-900/50 text-red-300 border border-red-800 rounded-lg p-5 space-y-3">
+      <h2 className="font-semibold">{error.message}</h2>
+      <p className="text-sm text-red-200">{error.remediation}</p>
+      <div className="flex gap-3">
+        {onAction && (
+          <button
+            onClick={onAction}
+            className="rounded-md bg-red-700 hover:bg-red-600 px-4 py-2 text-sm font-medium transition-colors cursor-pointer"
+          >
+            {ACTION_LABELS[error.action]}
+          </button>
+        )}
+        <button
+          onClick={onDismiss}
+          className="rounded-md bg-red-800 hover:bg-red-700 px-4 py-2 text-sm font-medium transition-colors cursor-pointer"
+        >
+          {dismissLabel}
+        </button>
+      </div>
+    </div>
+  );
+}
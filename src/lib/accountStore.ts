@@ -0,0 +1,105 @@
+/**
+ * Device account store: the accounts that have signed in on this device.
+ *
+ * A discoverable assertion names the credential that answered and the user
+ * handle it was registered with. Online, the relying party resolves these
+ * to an account; the result is remembered here so that a sign-in during a
+ * backend outage still knows who the user is, and so that a credential
+ * claiming another account's user handle is refused.
+ */
+
+const ACCOUNT_PREFIX = "dosipas-device:account:";
+
+export interface KnownAccount {
+  /** WebAuthn user handle (base64url), also the account ID */
+  userHandle: string;
+  email: string;
+  /** Credentials (base64url) seen signing in to this account */
+  credentialIds: string[];
+  lastSignInAt: string;
+}
+
+/** Record a verified sign-in of a credential to an account. */
+export function rememberAccount(
+  userHandle: string,
+  email: string,
+  credentialId: string,
+): KnownAccount {
+  const existing = getKnownAccount(userHandle);
+  const account: KnownAccount = {
+    userHandle,
+    email,
+    credentialIds: existing?.credentialIds.includes(credentialId)
+      ? existing.credentialIds
+      : [...(existing?.credentialIds ?? []), credentialId],
+    lastSignInAt: new Date().toISOString(),
+  };
+  localStorage.setItem(ACCOUNT_PREFIX + userHandle, JSON.stringify(account));
+  return account;
+}
+
+export function getKnownAccount(userHandle: string): KnownAccount | null {
+  const raw = localStorage.getItem(ACCOUNT_PREFIX + userHandle);
+  return raw ? (JSON.parse(raw) as KnownAccount) : null;
+}
+
+/** Accounts known on this device, most recent sign-in first. */
+export function listKnownAccounts(): KnownAccount[] {
+  const accounts: KnownAccount[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key && key.startsWith(ACCOUNT_PREFIX)) {
+      try {
+        accounts.push(JSON.parse(localStorage.getItem(key)!) as KnownAccount);
+      } catch {
+        // skip malformed entries
+      }
+    }
+  }
+  return accounts.sort((a, b) => b.lastSignInAt.localeCompare(a.lastSignInAt));
+}
+
+/**
+ * Resolve an unverified assertion (backend offline) to a known account.
+ * The user handle selects the account and the credential must be one that
+ * signed in to it before; without a user handle the credential alone is
+ * looked up.
+ */
+export function resolveAccount(
+  credentialId: string,
+  userHandle: string | null,
+): KnownAccount {
+  const account = userHandle
+    ? getKnownAccount(userHandle)
+    : (listKnownAccounts().find((a) =>
+        a.credentialIds.includes(credentialId),
+      ) ?? null);
+  if (!account) {
+    throw new Error(
+      "This passkey's account has never signed in on this device; sign in once while the backend is reachable.",
+    );
+  }
+  if (!account.credentialIds.includes(credentialId)) {
+    throw new Error(
+      `This passkey is not known to belong to ${account.email} on this device.`,
+    );
+  }
+  return account;
+}
+
+/** Drop a revoked credential from its account. */
+export function forgetKnownCredential(credentialId: string): void {
+  for (const account of listKnownAccounts()) {
+    if (account.credentialIds.includes(credentialId)) {
+      localStorage.setItem(
+        ACCOUNT_PREFIX + account.userHandle,
+        JSON.stringify({
+          ...account,
+          credentialIds: account.credentialIds.filter(
+            (id) => id !== credentialId,
+          ),
+        }),
+      );
+    }
+  }
+}
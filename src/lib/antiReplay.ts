@@ -0,0 +1,132 @@
+/**
+ * Anti-replay for the holder's dynamic signature.
+ *
+ * Time is cut into fixed slots; the holder signs the current slot number
+ * once per slot, and a verifier accepts the current slot or the one
+ * before (scan delay). A screenshot therefore stops working within two
+ * slots, and a verifier remembers the slots it accepted per ticket during
+ * that window so the same payload cannot be scanned twice.
+ *
+ * A verifier can also show a challenge nonce that the holder types in and
+ * signs: a forwarded screenshot cannot answer a challenge issued after it
+ * was taken.
+ */
+
+/** Length of a time slot */
+export const SLOT_SECONDS = 4;
+/** Past slots still accepted, to allow for the time between show and scan */
+export const SLOT_TOLERANCE = 1;
+/** Characters of a challenge nonce (no 0/O or 1/I look-alikes) */
+const NONCE_ALPHABET = "23456789ABCDEFGHJKLMNPQRSTUVWXYZ";
+const NONCE_LENGTH = 6;
+
+/** Slot counter of an instant: whole slots since the Unix epoch. */
+export function timeSlot(date: Date): number {
+  return Math.floor(date.getTime() / (SLOT_SECONDS * 1000));
+}
+
+export function slotStart(slot: number): Date {
+  return new Date(slot * SLOT_SECONDS * 1000);
+}
+
+/** Slots between a barcode's slot and `now` (negative if from the future). */
+export function slotAge(slot: number, now: Date): number {
+  return timeSlot(now) - slot;
+}
+
+/** The slot is the current one or within SLOT_TOLERANCE before it. */
+export function isSlotFresh(slot: number, now: Date): boolean {
+  const age = slotAge(slot, now);
+  return age >= 0 && age <= SLOT_TOLERANCE;
+}
+
+/** A random nonce for the holder to type in, e.g. "K7QX2M". */
+export function createChallengeNonce(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(NONCE_LENGTH));
+  return Array.from(
+    bytes,
+    (b) => NONCE_ALPHABET[b % NONCE_ALPHABET.length],
+  ).join("");
+}
+
+/** What a holder typed, in the form nonces are compared. */
+export function normalizeNonce(text: string): string {
+  return text.toUpperCase().replace(/[^0-9A-Z]/g, "");
+}
+
+// ---------------------------------------------------------------------------
+// Seen-slot cache (verifier side)
+// ---------------------------------------------------------------------------
+
+/**
+ * Scans of a ticket for a slot and challenge, remembered once accepted.
+ *
+ * Scans are keyed on what the holder signed, not on the signature bytes:
+ * ECDSA signatures are malleable ((r, s) and (r, n − s) both verify), so a
+ * re-encoded copy of a barcode would otherwise pass as a new one.
+ */
+export interface ReplayCache {
+  /**
+   * True if the same scan was already accepted in the acceptance window
+   * (a replay).
+   */
+  hasSeen(
+    ticketKey: string,
+    slot: number,
+    challenge: string | null,
+    now: Date,
+  ): boolean;
+  /**
+   * Record an accepted scan. Refused scans are not recorded, so a rescan
+   * after one reports its real error rather than a replay.
+   */
+  remember(
+    ticketKey: string,
+    slot: number,
+    challenge: string | null,
+    now: Date,
+  ): void;
+  /** Scans currently remembered, for display */
+  size(): number;
+}
+
+/**
+ * Slot and challenge pairs per ticket. Entries are dropped once their slot
+ * is too old to be accepted anyway, so the cache stays small.
+ */
+export function createReplayCache(): ReplayCache {
+  const seen = new Map<string, Map<string, number>>();
+
+  const prune = (now: Date) => {
+    const oldest = timeSlot(now) - SLOT_TOLERANCE;
+    for (const [ticketKey, scans] of seen) {
+      for (const [scan, slot] of scans) {
+        if (slot < oldest) scans.delete(scan);
+      }
+      if (scans.size === 0) seen.delete(ticketKey);
+    }
+  };
+
+  const scanKey = (slot: number, challenge: string | null) =>
+    `${slot}:${challenge ?? ""}`;
+
+  return {
+    hasSeen(ticketKey, slot, challenge, now) {
+      prune(now);
+      return seen.get(ticketKey)?.has(scanKey(slot, challenge)) ?? false;
+    },
+
+    remember(ticketKey, slot, challenge, now) {
+      prune(now);
+      const scans = seen.get(ticketKey) ?? new Map<string, number>();
+      scans.set(scanKey(slot, challenge), slot);
+      seen.set(ticketKey, scans);
+    },
+
+    size() {
+      let n = 0;
+      for (const scans of seen.values()) n += scans.size;
+      return n;
+    },
+  };
+}
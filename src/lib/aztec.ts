@@ -1,7 +1,8 @@
 /**
  * Aztec code rendering using bwip-js.
  *
- * Renders an Aztec barcode to a canvas element from a string payload.
+ * Renders an Aztec barcode to a canvas element from a string or binary
+ * payload.
  */
 
 import bwipjs from "bwip-js";
@@ -9,17 +10,20 @@ import bwipjs from "bwip-js";
 /**
  * Render an Aztec code onto a canvas element.
  * @param canvas  Target canvas element
- * @param data    String data to encode
+ * @param data    String data, or raw bytes (encoded in binary mode)
  * @param scale   Module scale (default 3)
  */
 export async function renderAztecCode(
   canvas: HTMLCanvasElement,
-  data: string,
+  data: string | Uint8Array,
   scale = 3,
 ): Promise<void> {
+  const binary = data instanceof Uint8Array;
   bwipjs.toCanvas(canvas, {
     bcid: "azteccode",
-    text: data,
+    // bwip-js takes 8-bit data as a string of char codes 0-255
+    text: binary ? String.fromCharCode(...data) : data,
+    binarytext: binary,
     scale,
     includetext: false,
   });
@@ -0,0 +1,258 @@
+/**
+ * Payment / ticket backend, behind an interface so the app can run against
+ * different stores. The components get the selected one from
+ * BackendContext (see backendContext.ts).
+ *
+ * Implementations:
+ *   - localStorage → simulated in the page (the demo's original behavior)
+ *   - IndexedDB    → simulated in the page, in its own database
+ *   - in-memory    → simulated, forgotten on reload (tests)
+ *   - HTTP         → a real server implementing the REST API below
+ *
+ * The simulated ones share the fake backend's issuance logic and outage
+ * switch (fakeBackend.ts); the HTTP one leaves issuance to the server.
+ *
+ * REST endpoints:
+ *   - POST   /payments                     → storePayment()
+ *   - GET    /payments/:thumbprint         → lookupByPublicKey()
+ *   - GET    /accounts/:accountId/payments → listRecordsForAccount()
+ *   - GET    /payments                     → listAllRecords()
+ *   - DELETE /payments/:thumbprint         → deleteRecord()
+ *   - DELETE /payments                     → clearAllRecords()
+ *   - POST   /payments/:thumbprint/revoke  → revokeRecord()
+ *   - POST   /payments/:thumbprint/refund  → refundPayment()
+ *   - POST   /payments/:thumbprint/rides   → redeemRide()
+ *   - POST   /validations                  → logValidation()
+ *   - GET    /validations                  → listValidations()
+ *   - GET    /issuer-keys                  → fetchKeyList()
+ *   - POST   /time-tokens                  → issueTimeToken()
+ *   - GET    /validation-bundle            → exportValidationBundle()
+ *   - GET    /validation-bundle/since/:version
+ *                                         → exportValidationBundle(version)
+ *   - PUT    /wrapped-secrets/:credentialId (session token)
+ *                                         → storeWrappedSecret()
+ *   - GET    /wrapped-secrets/:credentialId
+ *                                         → fetchWrappedSecret()
+ *   - GET    /accounts/:accountId/wrapped-secrets
+ *                                         → listWrappedSecrets()
+ *
+ * The payment provider (PSP) the backend takes payments through, for the
+ * HTTP one (paymentProvider.ts for the simulated ones):
+ *   - POST   /psp/payments                 → createPayment()
+ *   - POST   /psp/payments/:id/3ds         → completeThreeDSecure()
+ *   - POST   /psp/payments/:id/capture     → capturePayment()
+ *
+ * Records are identified by the JWK thumbprint of the ticket's public key.
+ * Calls marked "session token" send the relying party's session token
+ * (sessionToken.ts) as `Authorization: Bearer <token>`.
+ * `npm run mock-server` serves this API from Node (see server/).
+ */
+
+import type { Order } from "./catalog";
+import type { PaymentRecord, WrappedSecret } from "./fakeBackend";
+import type { PaymentProvider } from "./paymentProvider";
+import type { SignedTimeToken } from "./timeAnchor";
+import type { SignedValidationBundle } from "./validationBundle";
+import type { SignedKeyList } from "./trust";
+import { createHttpBackend } from "./httpBackend";
+import { createIndexedDbBackend } from "./indexedDbBackend";
+import { createLocalStorageBackend } from "./localStorageBackend";
+import { createMemoryBackend } from "./memoryBackend";
+
+const CONFIG_KEY = "dosipas-sim:backend";
+
+export type BackendKind = "localStorage" | "indexedDb" | "memory" | "http";
+
+export interface BackendConfig {
+  kind: BackendKind;
+  /** HTTP backend base URL, e.g. http://localhost:8787 */
+  baseUrl?: string;
+}
+
+/** Selectable implementations, for the backend explorer UI. */
+export const BACKEND_KINDS: { kind: BackendKind; label: string }[] = [
+  { kind: "localStorage", label: "localStorage (simulated)" },
+  { kind: "indexedDb", label: "IndexedDB (simulated)" },
+  { kind: "memory", label: "In-memory (simulated, lost on reload)" },
+  { kind: "http", label: "HTTP server" },
+];
+
+export const DEFAULT_HTTP_BASE_URL = "http://localhost:8787";
+
+/** A purchase, as the app submits it. */
+export interface PaymentRequest {
+  ticketId: string;
+  accountId: string;
+  credentialId: string;
+  paymentRef: string;
+  paymentDate: string;
+  ecdsaPublicKey: JsonWebKey;
+  /** Product and quantities bought; the backend prices it */
+  order: Order;
+  /** Buyer's IANA time zone; validity days end at its midnight (else UTC) */
+  timeZone?: string;
+}
+
+/** A verifier's check of a ticket, reported to the backend. */
+export interface ValidationEvent {
+  thumbprint: string;
+  ticketId: string;
+  valid: boolean;
+  /** The verifier's verdict, in words */
+  details: string;
+  validatedAt: string;
+}
+
+/**
+ * Outcome of presenting a ticket: accepted (one ride used), or refused
+ * because a single-entry ticket was already used or a carnet is empty.
+ */
+export type RideOutcome = "accepted" | "alreadyUsed" | "noRidesLeft";
+
+export interface RideRedemption {
+  outcome: RideOutcome;
+  /** The record after the redemption */
+  record: PaymentRecord;
+  /** Rides left afterwards, null when unlimited */
+  ridesLeft: number | null;
+}
+
+/**
+ * Outcome of a verifier's online cross-check: the record matches the
+ * ticket, the ticket was revoked (e.g. cancelled and refunded), no record
+ * matches, or the backend could not be reached.
+ */
+export type BackendStatus = "match" | "revoked" | "noRecord" | "unreachable";
+
+/** The ride a verifier counted, or why it could not count one. */
+export interface RideCount {
+  /** null when no ride was counted */
+  redemption: RideRedemption | null;
+  /** Set when a counted-rides ticket must be refused uncounted */
+  error: string | null;
+}
+
+export interface Backend {
+  readonly kind: BackendKind;
+  /** Where the data lives, for display */
+  readonly description: string;
+  /** The PSP payments are made with before storePayment() */
+  readonly paymentProvider: PaymentProvider;
+  /**
+   * Issue the ticket for a payment and store its record. Idempotent: the
+   * same request again returns the record already issued. Refused with
+   * PaymentRejectedError unless the PSP payment is captured for the
+   * order's price and not redeemed for another ticket yet.
+   */
+  storePayment(request: PaymentRequest): Promise<PaymentRecord>;
+  /** The record of a ticket public key, or null if unknown. */
+  lookupByPublicKey(ecdsaPublicKey: JsonWebKey): Promise<PaymentRecord | null>;
+  /** The tickets held by an account, oldest first. */
+  listRecordsForAccount(accountId: string): Promise<PaymentRecord[]>;
+  /** All records (backend explorer). */
+  listAllRecords(): Promise<PaymentRecord[]>;
+  deleteRecord(thumbprint: string): Promise<void>;
+  clearAllRecords(): Promise<void>;
+  /** Mark a ticket revoked; online verification then rejects it. */
+  revokeRecord(thumbprint: string, reason: string): Promise<PaymentRecord>;
+  /**
+   * Cancel a ticket at its holder's request: refund the payment (see
+   * refundAmount()) and revoke the ticket. Refused once revoked, expired or
+   * used up, and for unlimited tickets once ridden (see assertRefundable()).
+   */
+  refundPayment(thumbprint: string, reason: string): Promise<PaymentRecord>;
+  /**
+   * Count a validation against the ticket's entitlement. Refused outcomes
+   * leave the record unchanged; revoked tickets are rejected.
+   */
+  redeemRide(thumbprint: string): Promise<RideRedemption>;
+  logValidation(event: ValidationEvent): Promise<void>;
+  /** Validation log, newest first. */
+  listValidations(): Promise<ValidationEvent[]>;
+  /** The root-signed issuer key list, for verifiers. */
+  fetchKeyList(): Promise<SignedKeyList>;
+  /** The backend's current time, signed with the active issuer key. */
+  issueTimeToken(): Promise<SignedTimeToken>;
+  /**
+   * The root-signed offline validation bundle; with `since`, a delta of
+   * the tickets issued or revoked since that bundle version.
+   */
+  exportValidationBundle(since?: number): Promise<SignedValidationBundle>;
+  /**
+   * Store a credential's wrapped master secret. Issuance grades an
+   * account's key assurance from the blobs stored here, so only a session
+   * opened with that credential on its account may store it: refused with
+   * SessionError without a valid session token, WrappedSecretRejectedError
+   * for another session.
+   */
+  storeWrappedSecret(
+    sessionToken: string,
+    wrapped: WrappedSecret,
+  ): Promise<void>;
+  /** A credential's wrapped master secret, or null if it has none. */
+  fetchWrappedSecret(credentialId: string): Promise<WrappedSecret | null>;
+  /** Wrapped secrets of all an account's credentials. */
+  listWrappedSecrets(accountId: string): Promise<WrappedSecret[]>;
+}
+
+/**
+ * Count the ride of a ticket a verifier accepted, after its online
+ * cross-check. Counted rides (single entries, carnets) fail closed: unless
+ * the backend holds the matching record and counts the ride, they get an
+ * error and are refused. Unlimited tickets are counted when the record
+ * matches and never refused for it. Revoked tickets are refused as such.
+ */
+export async function countRide(
+  backend: Backend,
+  thumbprint: string,
+  status: BackendStatus,
+  countedRides: boolean,
+): Promise<RideCount> {
+  if (status === "match") {
+    try {
+      return { redemption: await backend.redeemRide(thumbprint), error: null };
+    } catch (err) {
+      return {
+        redemption: null,
+        error: countedRides
+          ? err instanceof Error
+            ? err.message
+            : String(err)
+          : null,
+      };
+    }
+  }
+  if (!countedRides || status === "revoked") {
+    return { redemption: null, error: null };
+  }
+  return {
+    redemption: null,
+    error:
+      status === "unreachable"
+        ? "backend unreachable"
+        : "no matching record on the backend",
+  };
+}
+
+/** The persisted backend choice (localStorage by default). */
+export function loadBackendConfig(): BackendConfig {
+  const raw = localStorage.getItem(CONFIG_KEY);
+  return raw ? (JSON.parse(raw) as BackendConfig) : { kind: "localStorage" };
+}
+
+export function saveBackendConfig(config: BackendConfig): void {
+  localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+}
+
+export function createBackend(config: BackendConfig): Backend {
+  switch (config.kind) {
+    case "localStorage":
+      return createLocalStorageBackend();
+    case "indexedDb":
+      return createIndexedDbBackend();
+    case "memory":
+      return createMemoryBackend();
+    case "http":
+      return createHttpBackend(config.baseUrl ?? DEFAULT_HTTP_BASE_URL);
+  }
+}
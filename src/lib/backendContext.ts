@@ -0,0 +1,33 @@
+/**
+ * React context carrying the selected Backend (see backend.ts), provided
+ * by BackendProvider at the root of the app.
+ */
+
+import { createContext, useContext } from "react";
+import type { Backend, BackendConfig } from "./backend";
+
+export interface BackendContextValue {
+  backend: Backend;
+  config: BackendConfig;
+  /** Switch to another backend (persisted) */
+  selectBackend: (config: BackendConfig) => void;
+}
+
+export const BackendContext = createContext<BackendContextValue | null>(null);
+
+function useBackendContext(): BackendContextValue {
+  const value = useContext(BackendContext);
+  if (!value) throw new Error("No BackendProvider above this component.");
+  return value;
+}
+
+/** The backend the app currently talks to. */
+export function useBackend(): Backend {
+  return useBackendContext().backend;
+}
+
+/** The backend choice and its setter (backend explorer). */
+export function useBackendSelection(): Omit<BackendContextValue, "backend"> {
+  const { config, selectBackend } = useBackendContext();
+  return { config, selectBackend };
+}
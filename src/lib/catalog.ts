@@ -0,0 +1,345 @@
+/**
+ * Ticket product catalog and pricing.
+ *
+ * A product is what the issuer sells: a name, a fare per passenger
+ * category in minor currency units, and a validity rule that becomes the
+ * open ticket's FCB validity window at issuance, and an entitlement saying
+ * how many times the ticket can be presented. An order picks a product
+ * and a quantity per category; the backend prices it again from the
+ * catalog rather than trusting a client-side total.
+ */
+
+import {
+  endOfDay,
+  issuingFieldsFromDate,
+  openTicketValidityFields,
+} from "./fcb";
+import type {
+  OpenTicketData,
+  PassengerType,
+  TariffType,
+  TravelClass,
+} from "./fcb";
+
+/** Most passengers one order can cover. */
+export const MAX_PASSENGERS_PER_ORDER = 9;
+
+export const FARE_CATEGORIES = ["adult", "child", "reduced"] as const;
+export type FareCategory = (typeof FARE_CATEGORIES)[number];
+
+export const FARE_CATEGORY_LABELS: Record<FareCategory, string> = {
+  adult: "Adult",
+  child: "Child",
+  reduced: "Reduced",
+};
+
+/**
+ * FCB passenger type written into the tariff. FCB has no "reduced" type:
+ * reduced fares are adults at a concession, told apart by tariffDesc.
+ */
+const FARE_PASSENGER_TYPES: Record<FareCategory, PassengerType> = {
+  adult: "adult",
+  child: "child",
+  reduced: "adult",
+};
+
+/**
+ * How long a ticket is valid, counted from the time of purchase. Days end
+ * at midnight in the buyer's time zone.
+ */
+export type ValidityRule =
+  /** Until the end of the day of purchase */
+  | { kind: "day" }
+  /** For a number of minutes */
+  | { kind: "minutes"; minutes: number }
+  /** Until the end of the n-th day, the day of purchase being the first */
+  | { kind: "days"; days: number };
+
+/**
+ * How many validations a ticket allows within its validity window. One
+ * validation admits everyone on the ticket.
+ */
+export type Entitlement =
+  /** One validation */
+  | { kind: "single" }
+  /** A number of rides */
+  | { kind: "carnet"; rides: number }
+  /** Any number of validations (day tickets, season passes) */
+  | { kind: "unlimited" };
+
+export interface Product {
+  /** Product ID, written to the ticket's productIdIA5 */
+  id: string;
+  name: string;
+  description: string;
+  currency: string;
+  /** Number of decimals of the fares */
+  currencyFract: number;
+  classCode: TravelClass;
+  validRegionDesc: string;
+  /** Fare per category, minor units; categories not sold are absent */
+  fares: Partial<Record<FareCategory, number>>;
+  validity: ValidityRule;
+  entitlement: Entitlement;
+}
+
+/** What the buyer asks for. */
+export interface Order {
+  productId: string;
+  quantities: Partial<Record<FareCategory, number>>;
+}
+
+export interface PriceLine {
+  category: FareCategory;
+  quantity: number;
+  /** Minor units */
+  unitPrice: number;
+  /** quantity × unitPrice, minor units */
+  amount: number;
+}
+
+/** A priced order, as stored with the payment record. */
+export interface Quote {
+  productId: string;
+  productName: string;
+  currency: string;
+  currencyFract: number;
+  lines: PriceLine[];
+  /** Minor units */
+  total: number;
+}
+
+const PRODUCTS: Product[] = [
+  {
+    id: "EVENT-DAY",
+    name: "Event day ticket",
+    description: "Unlimited shuttle rides until the end of the day.",
+    currency: "EUR",
+    currencyFract: 2,
+    classCode: "second",
+    validRegionDesc: "Event shuttle network, all zones",
+    fares: { adult: 500, child: 250, reduced: 350 },
+    validity: { kind: "day" },
+    entitlement: { kind: "unlimited" },
+  },
+  {
+    id: "SINGLE-90",
+    name: "Single journey",
+    description: "One entry, valid for 90 minutes.",
+    currency: "EUR",
+    currencyFract: 2,
+    classCode: "second",
+    validRegionDesc: "Event shuttle network, all zones",
+    fares: { adult: 210, child: 110, reduced: 150 },
+    validity: { kind: "minutes", minutes: 90 },
+    entitlement: { kind: "single" },
+  },
+  {
+    id: "CARNET-10",
+    name: "Carnet of 10 rides",
+    description: "Ten shuttle rides, to use within 30 days.",
+    currency: "EUR",
+    currencyFract: 2,
+    classCode: "second",
+    validRegionDesc: "Event shuttle network, all zones",
+    fares: { adult: 1700, child: 850, reduced: 1200 },
+    validity: { kind: "days", days: 30 },
+    entitlement: { kind: "carnet", rides: 10 },
+  },
+  {
+    id: "EVENT-3DAY",
+    name: "Three-day pass",
+    description: "Unlimited shuttle rides for the three festival days.",
+    currency: "EUR",
+    currencyFract: 2,
+    classCode: "second",
+    validRegionDesc: "Event shuttle network, all zones",
+    fares: { adult: 1200, child: 600, reduced: 900 },
+    validity: { kind: "days", days: 3 },
+    entitlement: { kind: "unlimited" },
+  },
+  {
+    id: "SEASON-30",
+    name: "Season pass",
+    description: "Unlimited shuttle rides for 30 days.",
+    currency: "EUR",
+    currencyFract: 2,
+    classCode: "second",
+    validRegionDesc: "Event shuttle network, all zones",
+    fares: { adult: 3500, child: 1750, reduced: 2500 },
+    validity: { kind: "days", days: 30 },
+    entitlement: { kind: "unlimited" },
+  },
+  {
+    id: "EVENT-DAY-1ST",
+    name: "Event day ticket, first class",
+    description: "Day ticket with access to the first-class coaches.",
+    currency: "EUR",
+    currencyFract: 2,
+    classCode: "first",
+    validRegionDesc: "Event shuttle network, all zones",
+    fares: { adult: 900 },
+    validity: { kind: "day" },
+    entitlement: { kind: "unlimited" },
+  },
+];
+
+export function listProducts(): Product[] {
+  return PRODUCTS;
+}
+
+export function getProduct(productId: string): Product {
+  const product = PRODUCTS.find((p) => p.id === productId);
+  if (!product) throw new Error(`Unknown product ${productId}.`);
+  return product;
+}
+
+/**
+ * Price an order from the catalog. Throws if the product is unknown, a
+ * category is not sold for it, or the passenger count is out of range.
+ */
+export function priceOrder(order: Order): Quote {
+  const product = getProduct(order.productId);
+  const lines: PriceLine[] = [];
+  for (const category of FARE_CATEGORIES) {
+    const quantity = order.quantities[category] ?? 0;
+    if (quantity === 0) continue;
+    if (!Number.isInteger(quantity) || quantity < 0) {
+      throw new Error(`Invalid ${category} quantity ${quantity}.`);
+    }
+    const unitPrice = product.fares[category];
+    if (unitPrice === undefined) {
+      throw new Error(`${product.name} has no ${category} fare.`);
+    }
+    lines.push({ category, quantity, unitPrice, amount: quantity * unitPrice });
+  }
+
+  const passengers = lines.reduce((n, l) => n + l.quantity, 0);
+  if (passengers === 0) throw new Error("The order has no passenger.");
+  if (passengers > MAX_PASSENGERS_PER_ORDER) {
+    throw new Error(
+      `At most ${MAX_PASSENGERS_PER_ORDER} passengers per order.`,
+    );
+  }
+
+  return {
+    productId: product.id,
+    productName: product.name,
+    currency: product.currency,
+    currencyFract: product.currencyFract,
+    lines,
+    total: lines.reduce((sum, l) => sum + l.amount, 0),
+  };
+}
+
+/** "12.50 EUR" */
+export function formatAmount(
+  amount: number,
+  currency: string,
+  currencyFract: number,
+): string {
+  return `${(amount / 10 ** currencyFract).toFixed(currencyFract)} ${currency}`;
+}
+
+/** Human-readable validity rule, e.g. "90 minutes". */
+export function describeValidity(rule: ValidityRule): string {
+  switch (rule.kind) {
+    case "day":
+      return "Until the end of the day";
+    case "minutes":
+      return `${rule.minutes} minutes`;
+    case "days":
+      return `${rule.days} days`;
+  }
+}
+
+/** Human-readable entitlement, e.g. "10 rides". */
+export function describeEntitlement(entitlement: Entitlement): string {
+  switch (entitlement.kind) {
+    case "single":
+      return "Single entry";
+    case "carnet":
+      return `${entitlement.rides} rides`;
+    case "unlimited":
+      return "Unlimited rides";
+  }
+}
+
+/** Validations left after `used` ones, or null when unlimited. */
+export function ridesLeft(
+  entitlement: Entitlement,
+  used: number,
+): number | null {
+  switch (entitlement.kind) {
+    case "single":
+      return Math.max(0, 1 - used);
+    case "carnet":
+      return Math.max(0, entitlement.rides - used);
+    case "unlimited":
+      return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// FCB mapping
+// ---------------------------------------------------------------------------
+
+/**
+ * Validity window of a product bought at `purchaseDate`, from the minute
+ * of purchase. Day boundaries are those of `timeZone` (UTC if none).
+ */
+export function validityWindow(
+  rule: ValidityRule,
+  purchaseDate: Date,
+  timeZone?: string,
+): { from: Date; until: Date } {
+  const from = new Date(Math.floor(purchaseDate.getTime() / 60_000) * 60_000);
+  switch (rule.kind) {
+    case "day":
+      return { from, until: endOfDay(from, 0, timeZone) };
+    case "minutes":
+      return { from, until: new Date(from.getTime() + rule.minutes * 60_000) };
+    case "days":
+      return { from, until: endOfDay(from, rule.days - 1, timeZone) };
+  }
+}
+
+/**
+ * The open ticket document for a priced order, bought at `purchaseDate` in
+ * `timeZone` and issued at `issuedAt`: local validity times and UTC
+ * offsets when a zone is given, relative to the issuing day.
+ */
+export function openTicketForQuote(
+  ticketId: string,
+  quote: Quote,
+  purchaseDate: Date,
+  issuedAt: Date,
+  timeZone?: string,
+): OpenTicketData {
+  const product = getProduct(quote.productId);
+  const { from, until } = validityWindow(
+    product.validity,
+    purchaseDate,
+    timeZone,
+  );
+  return {
+    referenceIA5: ticketId,
+    productIdIA5: product.id,
+    returnIncluded: false,
+    validRegionDesc: product.validRegionDesc,
+    ...openTicketValidityFields(
+      issuingFieldsFromDate(issuedAt),
+      from,
+      until,
+      timeZone,
+    ),
+    classCode: product.classCode,
+    tariffs: quote.lines.map((l): TariffType => ({
+      numberOfPassengers: l.quantity,
+      passengerType: FARE_PASSENGER_TYPES[l.category],
+      restrictedToCountryOfResidence: false,
+      tariffDesc: `${product.name}, ${FARE_CATEGORY_LABELS[l.category].toLowerCase()} fare`,
+    })),
+    price: quote.total,
+  };
+}
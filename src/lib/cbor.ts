@@ -0,0 +1,226 @@
+/**
+ * Minimal CBOR codec (RFC 8949) for WebAuthn structures.
+ *
+ * Covers what attestation objects and COSE keys use: unsigned / negative
+ * integers, byte and text strings, arrays, maps, and the simple values
+ * false / true / null / undefined. Indefinite lengths, tags and floats are
+ * rejected. Maps decode to `Map` so integer keys (COSE labels) survive.
+ * The encoder (used by the software authenticator) writes the same subset,
+ * with map entries in insertion order.
+ */
+
+export type CborValue =
+  | number
+  | Uint8Array
+  | string
+  | CborValue[]
+  | Map<CborValue, CborValue>
+  | boolean
+  | null
+  | undefined;
+
+/** Decode a single CBOR item that must span the whole input. */
+export function decodeCbor(bytes: Uint8Array): CborValue {
+  const { value, length } = decodeCborPrefix(bytes);
+  if (length !== bytes.length) {
+    throw new Error(`CBOR: ${bytes.length - length} trailing bytes.`);
+  }
+  return value;
+}
+
+/**
+ * Decode the CBOR item at the start of the input and report how many bytes
+ * it used (authenticator data appends extensions after the COSE key).
+ */
+export function decodeCborPrefix(bytes: Uint8Array): {
+  value: CborValue;
+  length: number;
+} {
+  const reader = new CborReader(bytes);
+  const value = reader.readItem();
+  return { value, length: reader.offset };
+}
+
+/** Get a map entry, throwing if the value is not a map. */
+export function cborMapGet(value: CborValue, key: CborValue): CborValue {
+  if (!(value instanceof Map)) throw new Error("CBOR: expected a map.");
+  return value.get(key);
+}
+
+/** Encode a value; integers must be safe and non-fractional. */
+export function encodeCbor(value: CborValue): Uint8Array {
+  const writer = new CborWriter();
+  writer.writeItem(value);
+  return writer.toBytes();
+}
+
+// ---------------------------------------------------------------------------
+// Reader
+// ---------------------------------------------------------------------------
+
+class CborReader {
+  offset = 0;
+  private readonly bytes: Uint8Array;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+  }
+
+  readItem(): CborValue {
+    const initial = this.readByte();
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    if (major === 7) return this.readSimple(info);
+
+    const arg = this.readArgument(info);
+    switch (major) {
+      case 0:
+        return arg;
+      case 1:
+        return -1 - arg;
+      case 2:
+        return this.readBytes(arg).slice();
+      case 3:
+        return new TextDecoder("utf-8", { fatal: true }).decode(
+          this.readBytes(arg),
+        );
+      case 4: {
+        const items: CborValue[] = [];
+        for (let i = 0; i < arg; i++) items.push(this.readItem());
+        return items;
+      }
+      case 5: {
+        const map = new Map<CborValue, CborValue>();
+        for (let i = 0; i < arg; i++) {
+          const key = this.readItem();
+          map.set(key, this.readItem());
+        }
+        return map;
+      }
+      default:
+        throw new Error(`CBOR: unsupported major type ${major}.`);
+    }
+  }
+
+  private readArgument(info: number): number {
+    if (info < 24) return info;
+    if (info === 24) return this.readByte();
+    if (info === 25) return this.readUint(2);
+    if (info === 26) return this.readUint(4);
+    if (info === 27) {
+      const value = this.readUint(8);
+      if (!Number.isSafeInteger(value)) {
+        throw new Error("CBOR: integer exceeds 2^53.");
+      }
+      return value;
+    }
+    throw new Error(`CBOR: unsupported additional info ${info}.`);
+  }
+
+  private readSimple(info: number): CborValue {
+    switch (info) {
+      case 20:
+        return false;
+      case 21:
+        return true;
+      case 22:
+        return null;
+      case 23:
+        return undefined;
+      default:
+        throw new Error(`CBOR: unsupported simple value ${info}.`);
+    }
+  }
+
+  private readUint(size: number): number {
+    let value = 0;
+    for (let i = 0; i < size; i++) value = value * 256 + this.readByte();
+    return value;
+  }
+
+  private readByte(): number {
+    if (this.offset >= this.bytes.length) {
+      throw new Error("CBOR: unexpected end of data.");
+    }
+    return this.bytes[this.offset++];
+  }
+
+  private readBytes(length: number): Uint8Array {
+    if (this.offset + length > this.bytes.length) {
+      throw new Error("CBOR: unexpected end of data.");
+    }
+    const out = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return out;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Writer
+// ---------------------------------------------------------------------------
+
+class CborWriter {
+  private readonly bytes: number[] = [];
+
+  writeItem(value: CborValue): void {
+    if (typeof value === "number") {
+      if (!Number.isSafeInteger(value)) {
+        throw new Error(`CBOR: cannot encode ${value}.`);
+      }
+      if (value >= 0) this.writeHead(0, value);
+      else this.writeHead(1, -1 - value);
+    } else if (value instanceof Uint8Array) {
+      this.writeHead(2, value.length);
+      for (const b of value) this.bytes.push(b);
+    } else if (typeof value === "string") {
+      const utf8 = new TextEncoder().encode(value);
+      this.writeHead(3, utf8.length);
+      for (const b of utf8) this.bytes.push(b);
+    } else if (Array.isArray(value)) {
+      this.writeHead(4, value.length);
+      for (const item of value) this.writeItem(item);
+    } else if (value instanceof Map) {
+      this.writeHead(5, value.size);
+      for (const [key, item] of value) {
+        this.writeItem(key);
+        this.writeItem(item);
+      }
+    } else if (value === false) {
+      this.bytes.push(0xf4);
+    } else if (value === true) {
+      this.bytes.push(0xf5);
+    } else if (value === null) {
+      this.bytes.push(0xf6);
+    } else {
+      this.bytes.push(0xf7);
+    }
+  }
+
+  toBytes(): Uint8Array {
+    return new Uint8Array(this.bytes);
+  }
+
+  private writeHead(major: number, arg: number): void {
+    const type = major << 5;
+    if (arg < 24) {
+      this.bytes.push(type | arg);
+    } else if (arg < 0x100) {
+      this.bytes.push(type | 24, arg);
+    } else if (arg < 0x10000) {
+      this.bytes.push(type | 25, arg >> 8, arg & 0xff);
+    } else if (arg < 0x100000000) {
+      this.bytes.push(type | 26);
+      this.writeUint(arg, 4);
+    } else {
+      this.bytes.push(type | 27);
+      this.writeUint(arg, 8);
+    }
+  }
+
+  private writeUint(value: number, size: number): void {
+    for (let i = size - 1; i >= 0; i--) {
+      this.bytes.push(Math.floor(value / 2 ** (8 * i)) & 0xff);
+    }
+  }
+}
@@ -1,6 +1,7 @@
 /**
  * Cryptographic utilities:
- * - HKDF derivation of AES-GCM-256 + ECDSA P-256 from PRF output
+ * - HKDF derivation of AES-GCM-256 + ECDSA P-256 from a 32-byte secret
+ *   (the account master secret, or a per-ticket seed derived from it)
  * - Canonical JSON serialization (sorted keys)
  * - ECDSA signing with ASN.1 DER output
  * - Key import/export helpers
@@ -49,16 +50,16 @@ export interface DerivedKeys {
 }
 
 /**
- * Derive an AES-GCM-256 key and an ECDSA P-256 key pair from 32-byte PRF
- * output using HKDF with domain-separated info strings.
+ * Derive an AES-GCM-256 key and an ECDSA P-256 key pair from 32 bytes of
+ * secret material using HKDF with domain-separated info strings.
  */
-export async function deriveKeys(prfOutput: Uint8Array): Promise<DerivedKeys> {
+export async function deriveKeys(secret: Uint8Array): Promise<DerivedKeys> {
   const salt = await getHkdfSalt();
 
-  // Import PRF output as HKDF key material
+  // Import the secret as HKDF key material
   const ikm = await crypto.subtle.importKey(
     "raw",
-    prfOutput as BufferSource,
+    secret as BufferSource,
     "HKDF",
     false,
     ["deriveBits", "deriveKey"],
@@ -98,7 +99,7 @@ export async function deriveKeys(prfOutput: Uint8Array): Promise<DerivedKeys> {
   minimalDer.set(PKCS8_P256_PREFIX);
   minimalDer.set(ecdsaScalar, PKCS8_P256_PREFIX.length);
 
-  const ecdsaPrivateKey = await crypto.subtle.importKey(
+  const extractableKey = await crypto.subtle.importKey(
     "pkcs8",
     minimalDer as BufferSource,
     { name: "ECDSA", namedCurve: "P-256" },
@@ -106,8 +107,16 @@ export async function deriveKeys(prfOutput: Uint8Array): Promise<DerivedKeys> {
     ["sign"],
   );
 
-  // Export private as JWK to extract public coordinates, then re-import public
-  const jwkPrivate = await crypto.subtle.exportKey("jwk", ecdsaPrivateKey);
+  // Export private as JWK to extract public coordinates, then re-import
+  // the private key non-extractable and the public key on its own
+  const jwkPrivate = await crypto.subtle.exportKey("jwk", extractableKey);
+  const ecdsaPrivateKey = await crypto.subtle.importKey(
+    "jwk",
+    jwkPrivate,
+    { name: "ECDSA", namedCurve: "P-256" },
+    false,
+    ["sign"],
+  );
   const publicKeyJwk: JsonWebKey = {
     kty: jwkPrivate.kty,
     crv: jwkPrivate.crv,
@@ -133,6 +142,43 @@ export async function deriveKeys(prfOutput: Uint8Array): Promise<DerivedKeys> {
   };
 }
 
+/**
+ * Derive one independent key set per ticket from the account master secret:
+ * seed = HKDF(masterSecret, salt = SHA-256(ticketId)), then deriveKeys(seed).
+ * Returns the key sets keyed by ticket ID.
+ */
+export async function deriveTicketKeys(
+  masterSecret: Uint8Array,
+  ticketIds: string[],
+): Promise<Map<string, DerivedKeys>> {
+  const ikm = await crypto.subtle.importKey(
+    "raw",
+    masterSecret as BufferSource,
+    "HKDF",
+    false,
+    ["deriveBits"],
+  );
+  const keys = new Map<string, DerivedKeys>();
+  for (const ticketId of ticketIds) {
+    const salt = await crypto.subtle.digest(
+      "SHA-256",
+      new TextEncoder().encode(ticketId),
+    );
+    const seed = await crypto.subtle.deriveBits(
+      {
+        name: "HKDF",
+        hash: "SHA-256",
+        salt,
+        info: new TextEncoder().encode("dosipas-ticket-seed") as BufferSource,
+      },
+      ikm,
+      256,
+    );
+    keys.set(ticketId, await deriveKeys(new Uint8Array(seed)));
+  }
+  return keys;
+}
+
 // ---------------------------------------------------------------------------
 // Canonical JSON — deterministic key ordering for signing
 // ---------------------------------------------------------------------------
@@ -167,13 +213,10 @@ export async function signPayload(
   privateKey: CryptoKey,
   payload: string,
 ): Promise<string> {
-  const data = new TextEncoder().encode(payload);
-  const p1363Sig = await crypto.subtle.sign(
-    { name: "ECDSA", hash: "SHA-256" },
+  const derSig = await signBytes(
     privateKey,
-    data,
+    new TextEncoder().encode(payload),
   );
-  const derSig = p1363ToDer(new Uint8Array(p1363Sig));
   return base64urlEncode(derSig);
 }
 
@@ -186,14 +229,38 @@ export async function verifySignature(
   payload: string,
   signatureB64u: string,
 ): Promise<boolean> {
-  const derSig = base64urlDecode(signatureB64u);
+  return verifyBytes(
+    publicKey,
+    new TextEncoder().encode(payload),
+    base64urlDecode(signatureB64u),
+  );
+}
+
+/** Sign raw bytes with ECDSA P-256 / SHA-256, returning an ASN.1 DER signature. */
+export async function signBytes(
+  privateKey: CryptoKey,
+  data: Uint8Array,
+): Promise<Uint8Array> {
+  const p1363Sig = await crypto.subtle.sign(
+    { name: "ECDSA", hash: "SHA-256" },
+    privateKey,
+    data as BufferSource,
+  );
+  return p1363ToDer(new Uint8Array(p1363Sig));
+}
+
+/** Verify an ASN.1 DER ECDSA P-256 / SHA-256 signature over raw bytes. */
+export async function verifyBytes(
+  publicKey: CryptoKey,
+  data: Uint8Array,
+  derSig: Uint8Array,
+): Promise<boolean> {
   const p1363Sig = derToP1363(derSig);
-  const data = new TextEncoder().encode(payload);
   return crypto.subtle.verify(
     { name: "ECDSA", hash: "SHA-256" },
     publicKey,
     p1363Sig as BufferSource,
-    data,
+    data as BufferSource,
   );
 }
 
@@ -294,6 +361,64 @@ export function base64urlDecode(str: string): Uint8Array {
   return bytes;
 }
 
+export function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((v, i) => v === b[i]);
+}
+
+export function hexToBytes(hex: string): Uint8Array {
+  const clean = hex.replace(/\s+/g, "");
+  if (clean.length % 2 !== 0 || /[^0-9a-fA-F]/.test(clean)) {
+    throw new Error("Invalid hex string.");
+  }
+  const bytes = new Uint8Array(clean.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(clean.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+// ---------------------------------------------------------------------------
+// Public key formats
+// ---------------------------------------------------------------------------
+
+/** Encode a P-256 public JWK as a SEC1 uncompressed point (0x04 || x || y). */
+export function jwkToRawPublicKey(jwk: JsonWebKey): Uint8Array {
+  if (jwk.kty !== "EC" || jwk.crv !== "P-256" || !jwk.x || !jwk.y) {
+    throw new Error("Expected an EC P-256 public key.");
+  }
+  const out = new Uint8Array(65);
+  out[0] = 0x04;
+  out.set(padTo32(base64urlDecode(jwk.x)), 1);
+  out.set(padTo32(base64urlDecode(jwk.y)), 33);
+  return out;
+}
+
+/** Decode a SEC1 uncompressed P-256 point into a public JWK. */
+export function rawPublicKeyToJwk(raw: Uint8Array): JsonWebKey {
+  if (raw.length !== 65 || raw[0] !== 0x04) {
+    throw new Error("Expected an uncompressed P-256 point (65 bytes).");
+  }
+  return {
+    kty: "EC",
+    crv: "P-256",
+    x: base64urlEncode(raw.slice(1, 33)),
+    y: base64urlEncode(raw.slice(33, 65)),
+  };
+}
+
+/** Import a P-256 public JWK as an ECDSA verification key. */
+export async function importEcdsaPublicKey(
+  jwk: JsonWebKey,
+): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "jwk",
+    jwk,
+    { name: "ECDSA", namedCurve: "P-256" },
+    true,
+    ["verify"],
+  );
+}
+
 /** Compute the JWK Thumbprint (SHA-256) of a public key — used as storage key. */
 export async function jwkThumbprint(jwk: JsonWebKey): Promise<string> {
   // RFC 7638: canonical JSON with required members for EC keys, sorted
@@ -0,0 +1,320 @@
+/**
+ * UIC DOSIPAS barcode container (UIC IRS 90918-9, header format "U2").
+ *
+ * Encodes / decodes the UicBarcodeHeader structure in ASN.1 UPER:
+ *
+ *   UicBarcodeHeader ::= SEQUENCE {
+ *     format            IA5String,            -- "U2"
+ *     level2SignedData  Level2DataType,
+ *     level2Signature   OCTET STRING OPTIONAL,
+ *     ...
+ *   }
+ *
+ *   Level2DataType ::= SEQUENCE {
+ *     level1Data        Level1DataType,
+ *     level1Signature   OCTET STRING OPTIONAL,
+ *     level2Data        DataType OPTIONAL,    -- dynamic content (FDC1)
+ *     ...
+ *   }
+ *
+ * The level 1 signature covers the UPER encoding of level1Data, the level 2
+ * signature covers the UPER encoding of level2SignedData. Signatures are
+ * ECDSA P-256 / SHA-256 in ASN.1 DER, as elsewhere in this demo.
+ */
+
+import { UperReader, UperWriter } from "./uper";
+
+export const HEADER_FORMAT = "U2";
+
+/** Data format of the UIC dynamic content (level 2 data). */
+export const DYNAMIC_CONTENT_FORMAT = "FDC1";
+
+// OIDs used in the level 1 data algorithm fields
+export const OID_ECDSA_WITH_SHA256 = "1.2.840.10045.4.3.2";
+export const OID_EC_P256 = "1.2.840.10045.3.1.7";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface DataType {
+  dataFormat: string;
+  data: Uint8Array;
+}
+
+export interface Level1Data {
+  securityProviderNum?: number;
+  securityProviderIA5?: string;
+  keyId?: number;
+  dataSequence: DataType[];
+  level1KeyAlg?: string;
+  level2KeyAlg?: string;
+  level1SigningAlg?: string;
+  level2SigningAlg?: string;
+  /** Holder public key (SEC1 uncompressed point for P-256) */
+  level2PublicKey?: Uint8Array;
+  endOfValidityYear?: number;
+  endOfValidityDay?: number;
+  endOfValidityTime?: number;
+  validityDuration?: number;
+}
+
+export interface Level2SignedData {
+  level1Data: Level1Data;
+  level1Signature?: Uint8Array;
+  level2Data?: DataType;
+}
+
+export interface UicBarcodeHeader {
+  format: string;
+  level2SignedData: Level2SignedData;
+  level2Signature?: Uint8Array;
+}
+
+/** UIC dynamic content (FDC1), without the geo coordinate. */
+export interface DynamicContent {
+  mobileAppId?: string;
+  /** Day of year (1..366) and second of day (0..86399), UTC */
+  timeStamp?: { day: number; time: number };
+  responseToChallenge?: ExtensionData[];
+  extension?: ExtensionData;
+}
+
+export interface ExtensionData {
+  extensionId: string;
+  extensionData: Uint8Array;
+}
+
+// ---------------------------------------------------------------------------
+// Public encode / decode
+// ---------------------------------------------------------------------------
+
+export function encodeUicBarcodeHeader(header: UicBarcodeHeader): Uint8Array {
+  const w = new UperWriter();
+  w.writePreamble([header.level2Signature !== undefined], true);
+  w.writeIA5String(header.format);
+  writeLevel2SignedData(w, header.level2SignedData);
+  if (header.level2Signature) w.writeOctetString(header.level2Signature);
+  return w.toBytes();
+}
+
+export function decodeUicBarcodeHeader(bytes: Uint8Array): UicBarcodeHeader {
+  const r = new UperReader(bytes);
+  const { present, extended } = r.readPreamble(1, true);
+  const format = r.readIA5String();
+  if (format !== HEADER_FORMAT) {
+    throw new Error(`Unsupported barcode header format "${format}"`);
+  }
+  const level2SignedData = readLevel2SignedData(r);
+  const level2Signature = present[0] ? r.readOctetString() : undefined;
+  if (extended) r.skipExtensions();
+  return { format, level2SignedData, level2Signature };
+}
+
+/** UPER encoding of level1Data alone — the level 1 signature input. */
+export function encodeLevel1Data(data: Level1Data): Uint8Array {
+  const w = new UperWriter();
+  writeLevel1Data(w, data);
+  return w.toBytes();
+}
+
+/** UPER encoding of level2SignedData alone — the level 2 signature input. */
+export function encodeLevel2SignedData(data: Level2SignedData): Uint8Array {
+  const w = new UperWriter();
+  writeLevel2SignedData(w, data);
+  return w.toBytes();
+}
+
+export function encodeDynamicContent(content: DynamicContent): Uint8Array {
+  const w = new UperWriter();
+  w.writePreamble(
+    [
+      content.mobileAppId !== undefined,
+      content.timeStamp !== undefined,
+      false, // dynamicContentGeoCoordinate
+      content.responseToChallenge !== undefined,
+      content.extension !== undefined,
+    ],
+    true,
+  );
+  if (content.mobileAppId !== undefined) w.writeIA5String(content.mobileAppId);
+  if (content.timeStamp) {
+    w.writeConstrainedInt(content.timeStamp.day, 1, 366);
+    w.writeConstrainedInt(content.timeStamp.time, 0, 86399);
+  }
+  if (content.responseToChallenge) {
+    w.writeLength(content.responseToChallenge.length);
+    for (const ext of content.responseToChallenge) writeExtensionData(w, ext);
+  }
+  if (content.extension) writeExtensionData(w, content.extension);
+  return w.toBytes();
+}
+
+export function decodeDynamicContent(bytes: Uint8Array): DynamicContent {
+  const r = new UperReader(bytes);
+  const { present, extended } = r.readPreamble(5, true);
+  const content: DynamicContent = {};
+  if (present[0]) content.mobileAppId = r.readIA5String();
+  if (present[1]) {
+    content.timeStamp = {
+      day: r.readConstrainedInt(1, 366),
+      time: r.readConstrainedInt(0, 86399),
+    };
+  }
+  if (present[2]) {
+    throw new Error("FDC1 geo coordinates are not supported");
+  }
+  if (present[3]) {
+    const count = r.readLength();
+    content.responseToChallenge = [];
+    for (let i = 0; i < count; i++) {
+      content.responseToChallenge.push(readExtensionData(r));
+    }
+  }
+  if (present[4]) content.extension = readExtensionData(r);
+  if (extended) r.skipExtensions();
+  return content;
+}
+
+// ---------------------------------------------------------------------------
+// Time stamp helpers (FDC1 carries day-of-year + second-of-day, no year)
+// ---------------------------------------------------------------------------
+
+export function dateToTimeStamp(date: Date): { day: number; time: number } {
+  const startOfYear = Date.UTC(date.getUTCFullYear(), 0, 1);
+  const day = Math.floor((date.getTime() - startOfYear) / 86_400_000) + 1;
+  const time =
+    date.getUTCHours() * 3600 + date.getUTCMinutes() * 60 + date.getUTCSeconds();
+  return { day, time };
+}
+
+/**
+ * Resolve a time stamp to the closest matching instant around `reference`
+ * (the year is inferred, allowing for year boundaries).
+ */
+export function timeStampToDate(
+  ts: { day: number; time: number },
+  reference: Date = new Date(),
+): Date {
+  const year = reference.getUTCFullYear();
+  const candidates = [year - 1, year, year + 1].map(
+    (y) => Date.UTC(y, 0, 1) + (ts.day - 1) * 86_400_000 + ts.time * 1000,
+  );
+  candidates.sort(
+    (a, b) =>
+      Math.abs(a - reference.getTime()) - Math.abs(b - reference.getTime()),
+  );
+  return new Date(candidates[0]);
+}
+
+// ---------------------------------------------------------------------------
+// Structure codecs
+// ---------------------------------------------------------------------------
+
+function writeDataType(w: UperWriter, d: DataType): void {
+  w.writeIA5String(d.dataFormat);
+  w.writeOctetString(d.data);
+}
+
+function readDataType(r: UperReader): DataType {
+  return { dataFormat: r.readIA5String(), data: r.readOctetString() };
+}
+
+function writeExtensionData(w: UperWriter, e: ExtensionData): void {
+  w.writeIA5String(e.extensionId);
+  w.writeOctetString(e.extensionData);
+}
+
+function readExtensionData(r: UperReader): ExtensionData {
+  return { extensionId: r.readIA5String(), extensionData: r.readOctetString() };
+}
+
+function writeLevel1Data(w: UperWriter, d: Level1Data): void {
+  w.writePreamble(
+    [
+      d.securityProviderNum !== undefined,
+      d.securityProviderIA5 !== undefined,
+      d.keyId !== undefined,
+      d.level1KeyAlg !== undefined,
+      d.level2KeyAlg !== undefined,
+      d.level1SigningAlg !== undefined,
+      d.level2SigningAlg !== undefined,
+      d.level2PublicKey !== undefined,
+      d.endOfValidityYear !== undefined,
+      d.endOfValidityDay !== undefined,
+      d.endOfValidityTime !== undefined,
+      d.validityDuration !== undefined,
+    ],
+    true,
+  );
+  if (d.securityProviderNum !== undefined) {
+    w.writeConstrainedInt(d.securityProviderNum, 1, 32000);
+  }
+  if (d.securityProviderIA5 !== undefined) {
+    w.writeIA5String(d.securityProviderIA5);
+  }
+  if (d.keyId !== undefined) w.writeConstrainedInt(d.keyId, 0, 99999);
+  w.writeLength(d.dataSequence.length);
+  for (const item of d.dataSequence) writeDataType(w, item);
+  if (d.level1KeyAlg !== undefined) w.writeObjectIdentifier(d.level1KeyAlg);
+  if (d.level2KeyAlg !== undefined) w.writeObjectIdentifier(d.level2KeyAlg);
+  if (d.level1SigningAlg !== undefined) {
+    w.writeObjectIdentifier(d.level1SigningAlg);
+  }
+  if (d.level2SigningAlg !== undefined) {
+    w.writeObjectIdentifier(d.level2SigningAlg);
+  }
+  if (d.level2PublicKey !== undefined) w.writeOctetString(d.level2PublicKey);
+  if (d.endOfValidityYear !== undefined) {
+    w.writeConstrainedInt(d.endOfValidityYear, 2016, 2269);
+  }
+  if (d.endOfValidityDay !== undefined) {
+    w.writeConstrainedInt(d.endOfValidityDay, 1, 366);
+  }
+  if (d.endOfValidityTime !== undefined) {
+    w.writeConstrainedInt(d.endOfValidityTime, 0, 1439);
+  }
+  if (d.validityDuration !== undefined) {
+    w.writeConstrainedInt(d.validityDuration, 1, 3600);
+  }
+}
+
+function readLevel1Data(r: UperReader): Level1Data {
+  const { present, extended } = r.readPreamble(12, true);
+  const d: Level1Data = { dataSequence: [] };
+  if (present[0]) d.securityProviderNum = r.readConstrainedInt(1, 32000);
+  if (present[1]) d.securityProviderIA5 = r.readIA5String();
+  if (present[2]) d.keyId = r.readConstrainedInt(0, 99999);
+  const count = r.readLength();
+  for (let i = 0; i < count; i++) d.dataSequence.push(readDataType(r));
+  if (present[3]) d.level1KeyAlg = r.readObjectIdentifier();
+  if (present[4]) d.level2KeyAlg = r.readObjectIdentifier();
+  if (present[5]) d.level1SigningAlg = r.readObjectIdentifier();
+  if (present[6]) d.level2SigningAlg = r.readObjectIdentifier();
+  if (present[7]) d.level2PublicKey = r.readOctetString();
+  if (present[8]) d.endOfValidityYear = r.readConstrainedInt(2016, 2269);
+  if (present[9]) d.endOfValidityDay = r.readConstrainedInt(1, 366);
+  if (present[10]) d.endOfValidityTime = r.readConstrainedInt(0, 1439);
+  if (present[11]) d.validityDuration = r.readConstrainedInt(1, 3600);
+  if (extended) r.skipExtensions();
+  return d;
+}
+
+function writeLevel2SignedData(w: UperWriter, d: Level2SignedData): void {
+  w.writePreamble(
+    [d.level1Signature !== undefined, d.level2Data !== undefined],
+    true,
+  );
+  writeLevel1Data(w, d.level1Data);
+  if (d.level1Signature) w.writeOctetString(d.level1Signature);
+  if (d.level2Data) writeDataType(w, d.level2Data);
+}
+
+function readLevel2SignedData(r: UperReader): Level2SignedData {
+  const { present, extended } = r.readPreamble(2, true);
+  const d: Level2SignedData = { level1Data: readLevel1Data(r) };
+  if (present[0]) d.level1Signature = r.readOctetString();
+  if (present[1]) d.level2Data = readDataType(r);
+  if (extended) r.skipExtensions();
+  return d;
+}
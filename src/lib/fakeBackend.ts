@@ -1,92 +1,634 @@
 /**
- * Fake backend backed by localStorage.
+ * Fake backend, simulated in the page.
  *
  * Stores payment records keyed by the JWK Thumbprint of the ECDSA public key.
- * This module simulates two REST endpoints:
- *   - POST /payments   → storePayment()
- *   - GET  /payments/:pubkey → lookupByPublicKey()
+ * Each ticket has its own key pair (derived from the account master secret
+ * and the Ticket ID), and records are linked to the account so every
+ * enrolled passkey sees the same tickets.
+ * At payment time the backend issues the FCB ticket content that ends up in
+ * the barcode's level 1 data, and signs that level 1 data with the issuer
+ * key (binding the holder's public key to the ticket).
  *
- * All stored records can be enumerated for the debug/explorer UI.
+ * Payment records go through the Backend interface (backend.ts), over a
+ * pluggable RecordStore (localStorage, IndexedDB or in-memory), and so do
+ * refunds, revocations, the validation log and the wrapped secrets; the
+ * wrapped secrets stay in localStorage whatever the record store.
+ * A ticket is only issued for a payment the simulated PSP reports captured
+ * for the order's price (paymentProvider.ts), once per payment.
+ * This module simulates these REST endpoints:
+ *   - POST /payments   → Backend.storePayment()
+ *   - GET  /payments/:pubkey → Backend.lookupByPublicKey()
+ *   - POST /payments/:pubkey/refund → Backend.refundPayment()
+ *   - POST /payments/:pubkey/rides  → Backend.redeemRide()
+ *   - GET  /accounts/:userHandle/payments → Backend.listRecordsForAccount()
+ *   - POST /time-tokens → Backend.issueTimeToken()
+ *   - GET  /validation-bundle[/since/:version]
+ *                        → Backend.exportValidationBundle()
+ *   - PUT  /wrapped-secrets/:credentialId (session token)
+ *                        → Backend.storeWrappedSecret()
+ *   - GET  /wrapped-secrets/:credentialId → Backend.fetchWrappedSecret()
+ *   - GET  /accounts/:userHandle/wrapped-secrets
+ *                        → Backend.listWrappedSecrets()
+ *
+ * All stored records can be enumerated for the debug/explorer UI. An outage
+ * can be simulated, making the "REST" calls fail as if the server were down.
  */
 
-import { jwkThumbprint } from "./crypto";
+import { base64urlEncode, jwkThumbprint } from "./crypto";
+import { getPayment, simulatedPaymentProvider } from "./paymentProvider";
+import {
+  getActiveIssuerKey,
+  publishKeyList,
+  signLevel1Data,
+  signTimeToken,
+  signValidationBundle,
+} from "./keyRegistry";
+import { verifySessionToken } from "./sessionToken";
+import { encodeTimeToken, toSignedTimeToken } from "./timeAnchor";
+import { buildLevel1Data } from "./ticketBarcode";
+import type { KeyAssurance } from "./ticketBarcode";
+import { issuingFieldsFromDate, ticketValidity, validityPhase } from "./fcb";
+import type { FcbTicket } from "./fcb";
+import {
+  formatAmount,
+  getProduct,
+  openTicketForQuote,
+  priceOrder,
+  ridesLeft,
+} from "./catalog";
+import type { Entitlement, Quote } from "./catalog";
+import type {
+  Backend,
+  BackendKind,
+  PaymentRequest,
+  RideRedemption,
+  ValidationEvent,
+} from "./backend";
 
-const STORAGE_PREFIX = "dosipas:";
+const WRAPPED_SECRET_PREFIX = "dosipas-wrapped:";
+const OFFLINE_FLAG_KEY = "dosipas-sim:offline";
 
 export interface PaymentRecord {
+  /** Ticket ID, used as the HKDF salt for this ticket's key */
+  ticketId: string;
+  /** Account (WebAuthn user handle, base64url) holding the ticket */
+  accountId: string;
+  /** Credential ID (base64url) of the passkey that bought the ticket */
+  credentialId: string;
   paymentRef: string;
   paymentDate: string;
+  /** When the backend issued the ticket */
+  issuedAt: string;
   ecdsaPublicKey: JsonWebKey;
   /** JWK thumbprint used as storage key */
   thumbprint: string;
+  /** Product, fares and total the payment was for */
+  quote: Quote;
+  /** FCB ticket content issued for this payment */
+  ticket: FcbTicket;
+  /** Start of validity (ISO), as signed in the ticket */
+  validFrom: string;
+  /** End of validity (ISO), as signed in the ticket */
+  validUntil: string;
+  /** Time zone whose local times the ticket's validity is expressed in */
+  timeZone?: string;
+  /** Validations the ticket allows, from its product */
+  entitlement: Entitlement;
+  /** Accepted validations so far */
+  ridesUsed: number;
+  lastRideAt?: string;
+  securityProviderNum: number;
+  /** Issuer key that produced level1Signature */
+  issuerKeyId: number;
+  /** Issuer signature over the ticket's level 1 data (DER, base64url) */
+  level1Signature: string;
+  /** How the account's master secret was protected at issuance */
+  keyAssurance: KeyAssurance;
+  /** Set once the ticket is revoked (cancelled by its holder or not) */
+  revokedAt?: string;
+  revocationReason?: string;
+  /** Set once the holder cancelled the ticket and was refunded */
+  refund?: Refund;
+}
+
+/** The backend refuses to issue a ticket for the payment it was sent. */
+export class PaymentRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/** The session it was sent with may not store this wrapped secret. */
+export class WrappedSecretRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export interface Refund {
+  refundRef: string;
+  /** Minor units of the quote's currency */
+  amount: number;
+  refundedAt: string;
 }
 
 /**
- * Store a payment record, keyed by the ECDSA public key thumbprint.
- * Returns the stored record (simulating a backend response).
+ * Issue the ticket for a payment: FCB content, key assurance and the issuer
+ * signature over the level 1 data. Returns the record to store.
  */
-export async function storePayment(data: {
-  paymentRef: string;
-  paymentDate: string;
-  ecdsaPublicKey: JsonWebKey;
-}): Promise<PaymentRecord> {
+async function issuePayment(data: PaymentRequest): Promise<PaymentRecord> {
   const thumbprint = await jwkThumbprint(data.ecdsaPublicKey);
-  const record: PaymentRecord = { ...data, thumbprint };
-  localStorage.setItem(
-    STORAGE_PREFIX + thumbprint,
-    JSON.stringify(record),
+  const quote = priceOrder(data.order);
+  // The backend's clock dates the ticket, as it does the validation bundles
+  const issuedAt = new Date();
+  const ticket = issueTicket(
+    data.ticketId,
+    data.paymentRef,
+    new Date(data.paymentDate),
+    issuedAt,
+    quote,
+    data.timeZone,
+  );
+  const validity = ticketValidity(ticket)!;
+  // From the backend's own records, never from the client
+  const keyAssurance = accountKeyAssurance(data.accountId);
+  const issuerKey = await getActiveIssuerKey();
+  const level1Signature = await signLevel1Data(
+    issuerKey,
+    buildLevel1Data({
+      ticket,
+      ecdsaPublicKeyJwk: data.ecdsaPublicKey,
+      securityProviderNum: issuerKey.securityProviderNum,
+      keyId: issuerKey.keyId,
+      keyAssurance,
+    }),
   );
-  return record;
+  return {
+    ...data,
+    issuedAt: issuedAt.toISOString(),
+    thumbprint,
+    quote,
+    ticket,
+    validFrom: validity.from.toISOString(),
+    validUntil: validity.until.toISOString(),
+    entitlement: getProduct(quote.productId).entitlement,
+    ridesUsed: 0,
+    securityProviderNum: issuerKey.securityProviderNum,
+    issuerKeyId: issuerKey.keyId,
+    level1Signature: base64urlEncode(level1Signature),
+    keyAssurance,
+  };
 }
 
 /**
- * Look up a payment record by ECDSA public key.
- * Returns null if not found.
+ * Build the FCB content of a priced order: one open ticket covering all its
+ * passengers, valid from the time of purchase as the product's validity
+ * rule says, in the buyer's time zone. The buyer is the ticket holder.
  */
-export async function lookupByPublicKey(
-  ecdsaPublicKey: JsonWebKey,
-): Promise<PaymentRecord | null> {
-  const thumbprint = await jwkThumbprint(ecdsaPublicKey);
-  const raw = localStorage.getItem(STORAGE_PREFIX + thumbprint);
-  if (!raw) return null;
-  return JSON.parse(raw) as PaymentRecord;
+function issueTicket(
+  ticketId: string,
+  paymentRef: string,
+  paymentDate: Date,
+  issuedAt: Date,
+  quote: Quote,
+  timeZone?: string,
+): FcbTicket {
+  const openTicket = openTicketForQuote(
+    ticketId,
+    quote,
+    paymentDate,
+    issuedAt,
+    timeZone,
+  );
+  return {
+    issuingDetail: {
+      ...issuingFieldsFromDate(issuedAt),
+      issuerName: "DOSIPAS Demo Transit",
+      specimen: true,
+      securePaperTicket: false,
+      activated: true,
+      currency: quote.currency,
+      currencyFract: quote.currencyFract,
+      issuerPNR: paymentRef,
+    },
+    travelerDetail: {
+      traveler: [
+        {
+          ticketHolder: true,
+          passengerType: openTicket.tariffs?.[0]?.passengerType,
+        },
+      ],
+    },
+    transportDocument: [{ kind: "openTicket", openTicket }],
+  };
 }
 
+// ---------------------------------------------------------------------------
+// Simulated backend over a record store
+// ---------------------------------------------------------------------------
+
 /**
- * List all stored payment records (for the backend explorer UI).
+ * Where a simulated backend keeps its payment records, by thumbprint, and
+ * its validation log.
  */
-export function listAllRecords(): PaymentRecord[] {
-  const records: PaymentRecord[] = [];
-  for (let i = 0; i < localStorage.length; i++) {
-    const key = localStorage.key(i);
-    if (key && key.startsWith(STORAGE_PREFIX)) {
-      try {
-        records.push(JSON.parse(localStorage.getItem(key)!) as PaymentRecord);
-      } catch {
-        // skip malformed entries
+export interface RecordStore {
+  get(thumbprint: string): Promise<PaymentRecord | null>;
+  put(record: PaymentRecord): Promise<void>;
+  all(): Promise<PaymentRecord[]>;
+  delete(thumbprint: string): Promise<void>;
+  clear(): Promise<void>;
+  appendValidation(event: ValidationEvent): Promise<void>;
+  /** Oldest first */
+  validations(): Promise<ValidationEvent[]>;
+  /**
+   * Thumbprint of the ticket a PSP payment was redeemed for, or null. Kept
+   * apart from the records: deleting a record does not free its payment.
+   */
+  redeemedPayment(paymentRef: string): Promise<string | null>;
+  markPaymentRedeemed(paymentRef: string, thumbprint: string): Promise<void>;
+}
+
+/**
+ * A Backend that issues tickets in the page and keeps the records in
+ * `store`. The "REST" calls honour the simulated outage; the explorer's
+ * listing and deletion do not, like a database console would.
+ */
+export function createSimulatedBackend(
+  kind: BackendKind,
+  description: string,
+  store: RecordStore,
+): Backend {
+  return {
+    kind,
+    description,
+    paymentProvider: simulatedPaymentProvider,
+
+    async storePayment(request) {
+      assertOnline();
+      // A repeated request returns the ticket already issued for it
+      const existing = await store.get(
+        await jwkThumbprint(request.ecdsaPublicKey),
+      );
+      if (existing) {
+        assertSamePayment(existing, request);
+        return existing;
+      }
+      assertPaymentCaptured(request);
+      const redeemedFor = await store.redeemedPayment(request.paymentRef);
+      if (redeemedFor) {
+        throw new PaymentRejectedError(
+          `Payment ${request.paymentRef} was already redeemed for another ticket.`,
+        );
       }
-    }
+      const record = await issuePayment(request);
+      await store.markPaymentRedeemed(request.paymentRef, record.thumbprint);
+      await store.put(record);
+      return record;
+    },
+
+    async lookupByPublicKey(ecdsaPublicKey) {
+      assertOnline();
+      return store.get(await jwkThumbprint(ecdsaPublicKey));
+    },
+
+    async listRecordsForAccount(accountId) {
+      assertOnline();
+      return (await store.all())
+        .filter((r) => r.accountId === accountId)
+        .sort((a, b) => a.paymentDate.localeCompare(b.paymentDate));
+    },
+
+    listAllRecords: () => store.all(),
+    deleteRecord: (thumbprint) => store.delete(thumbprint),
+    clearAllRecords: () => store.clear(),
+
+    async revokeRecord(thumbprint, reason) {
+      assertOnline();
+      const record = await store.get(thumbprint);
+      if (!record) throw new Error(`Unknown payment ${thumbprint}.`);
+      if (record.revokedAt) return record;
+      const revoked: PaymentRecord = {
+        ...record,
+        revokedAt: new Date().toISOString(),
+        revocationReason: reason,
+      };
+      await store.put(revoked);
+      return revoked;
+    },
+
+    async refundPayment(thumbprint, reason) {
+      assertOnline();
+      const record = await store.get(thumbprint);
+      if (!record) throw new Error(`Unknown payment ${thumbprint}.`);
+      const now = new Date();
+      assertRefundable(record, now);
+      const refunded: PaymentRecord = {
+        ...record,
+        revokedAt: now.toISOString(),
+        revocationReason: reason,
+        refund: {
+          refundRef: `REF-${crypto.randomUUID()}`,
+          amount: refundAmount(record),
+          refundedAt: now.toISOString(),
+        },
+      };
+      await store.put(refunded);
+      return refunded;
+    },
+
+    async redeemRide(thumbprint): Promise<RideRedemption> {
+      assertOnline();
+      const record = await store.get(thumbprint);
+      if (!record) throw new Error(`Unknown payment ${thumbprint}.`);
+      if (record.revokedAt) {
+        throw new Error(`Ticket ${record.ticketId} is revoked.`);
+      }
+      if (ridesLeft(record.entitlement, record.ridesUsed) === 0) {
+        return {
+          outcome:
+            record.entitlement.kind === "single" ? "alreadyUsed" : "noRidesLeft",
+          record,
+          ridesLeft: 0,
+        };
+      }
+      const redeemed: PaymentRecord = {
+        ...record,
+        ridesUsed: record.ridesUsed + 1,
+        lastRideAt: new Date().toISOString(),
+      };
+      await store.put(redeemed);
+      return {
+        outcome: "accepted",
+        record: redeemed,
+        ridesLeft: ridesLeft(redeemed.entitlement, redeemed.ridesUsed),
+      };
+    },
+
+    async logValidation(event) {
+      assertOnline();
+      await store.appendValidation(event);
+    },
+
+    async listValidations() {
+      return (await store.validations()).reverse();
+    },
+
+    async fetchKeyList() {
+      assertOnline();
+      return publishKeyList();
+    },
+
+    async exportValidationBundle(since) {
+      assertOnline();
+      const version = Date.now();
+      // Unexpired tickets, only those issued or revoked since `since` for a
+      // delta
+      const records = (await store.all()).filter(
+        (r) =>
+          new Date(r.validUntil).getTime() >= version &&
+          (since === undefined ||
+            new Date(r.revokedAt ?? r.issuedAt).getTime() >= since),
+      );
+      return signValidationBundle({
+        version,
+        since: since ?? null,
+        tickets: records
+          .filter((r) => !r.revokedAt)
+          .map((r) => ({
+            thumbprint: r.thumbprint,
+            validFrom: r.validFrom,
+            validUntil: r.validUntil,
+          })),
+        revoked: records
+          .filter((r) => r.revokedAt)
+          .map((r) => ({
+            thumbprint: r.thumbprint,
+            revokedAt: r.revokedAt!,
+            reason: r.revocationReason ?? "",
+            validUntil: r.validUntil,
+          })),
+        keyList: await publishKeyList(),
+      });
+    },
+
+    async issueTimeToken() {
+      assertOnline();
+      const issuerKey = await getActiveIssuerKey();
+      const token = {
+        securityProviderNum: issuerKey.securityProviderNum,
+        keyId: issuerKey.keyId,
+        issuedAt: Date.now(),
+      };
+      return toSignedTimeToken(
+        encodeTimeToken(token),
+        await signTimeToken(issuerKey, token),
+      );
+    },
+
+    async storeWrappedSecret(sessionToken, wrapped) {
+      assertOnline();
+      await assertMayStoreWrappedSecret(sessionToken, wrapped);
+      putWrappedSecret(wrapped);
+    },
+
+    async fetchWrappedSecret(credentialId) {
+      assertOnline();
+      return wrappedSecretOf(credentialId);
+    },
+
+    async listWrappedSecrets(accountId) {
+      assertOnline();
+      return wrappedSecretsOf(accountId);
+    },
+  };
+}
+
+/** A ticket is issued once, for the payment it was first issued for. */
+export function assertSamePayment(
+  record: PaymentRecord,
+  request: PaymentRequest,
+): void {
+  if (record.paymentRef !== request.paymentRef) {
+    throw new Error(
+      `Ticket ${record.ticketId} was already issued for payment ${record.paymentRef}.`,
+    );
+  }
+}
+
+/**
+ * The PSP payment a ticket is requested for must be captured, for the
+ * amount and currency the backend prices the order at.
+ */
+function assertPaymentCaptured(request: PaymentRequest): void {
+  let payment;
+  try {
+    payment = getPayment(request.paymentRef);
+  } catch {
+    throw new PaymentRejectedError(
+      `The payment provider knows no payment ${request.paymentRef}.`,
+    );
+  }
+  if (payment.status !== "captured") {
+    throw new PaymentRejectedError(
+      `Payment ${payment.id} is ${payment.status}, not captured.`,
+    );
+  }
+  const quote = priceOrder(request.order);
+  if (payment.amount !== quote.total || payment.currency !== quote.currency) {
+    throw new PaymentRejectedError(
+      `Payment ${payment.id} is for ${formatAmount(payment.amount, payment.currency, quote.currencyFract)}, but the order costs ${formatAmount(quote.total, quote.currency, quote.currencyFract)}.`,
+    );
+  }
+}
+
+/**
+ * Cancellation policy: a ticket is refunded once, until the end of its
+ * validity window, as long as it has rides left; an unlimited ticket only
+ * until its first ride. Revoked tickets, used single entries, empty
+ * carnets and ridden day or season passes are not refunded.
+ */
+export function assertRefundable(record: PaymentRecord, at: Date): void {
+  if (record.revokedAt) {
+    throw new Error(`Ticket ${record.ticketId} is already revoked.`);
+  }
+  const validity = ticketValidity(record.ticket);
+  if (validity && validityPhase(validity, at) === "expired") {
+    throw new Error(`Ticket ${record.ticketId} has expired.`);
+  }
+  if (ridesLeft(record.entitlement, record.ridesUsed) === 0) {
+    throw new Error(
+      record.entitlement.kind === "single"
+        ? `Ticket ${record.ticketId} was already used.`
+        : `Ticket ${record.ticketId} has no rides left.`,
+    );
+  }
+  if (record.entitlement.kind === "unlimited" && record.ridesUsed > 0) {
+    throw new Error(
+      `Ticket ${record.ticketId} was already ridden: unlimited tickets are refunded only before their first ride.`,
+    );
   }
-  return records;
 }
 
 /**
- * Delete a specific record by thumbprint (for debug UI).
+ * Amount refunded on cancellation, in minor units: the rides left of a
+ * carnet pro rata (rounded down), the full price otherwise (single entries
+ * and unlimited tickets are only refunded unused).
  */
-export function deleteRecord(thumbprint: string): void {
-  localStorage.removeItem(STORAGE_PREFIX + thumbprint);
+export function refundAmount(record: PaymentRecord): number {
+  const { entitlement, quote } = record;
+  if (entitlement.kind !== "carnet") return quote.total;
+  const left = ridesLeft(entitlement, record.ridesUsed) ?? entitlement.rides;
+  return Math.floor((quote.total * left) / entitlement.rides);
 }
 
+// ---------------------------------------------------------------------------
+// Wrapped master secrets (one blob per enrolled credential)
+// ---------------------------------------------------------------------------
+
 /**
- * Delete all dosipas records (for debug UI).
+ * Account master secret encrypted under a key derived from one credential's
+ * PRF output. Useless without that credential, so the backend can hold it.
  */
-export function clearAllRecords(): void {
-  const keysToRemove: string[] = [];
+export interface WrappedSecret {
+  credentialId: string;
+  /** Account (WebAuthn user handle, base64url) */
+  accountId: string;
+  /** What the wrapping key derives from: PRF output, or a passphrase */
+  kdf: "prf" | "pbkdf2";
+  /** PBKDF2 salt, base64url */
+  kdfSalt?: string;
+  /** PBKDF2-SHA256 iteration count */
+  kdfIterations?: number;
+  /** AES-GCM nonce, base64url */
+  iv: string;
+  /** AES-GCM ciphertext of the 32-byte master secret, base64url */
+  ciphertext: string;
+  createdAt: string;
+}
+
+/**
+ * Assurance of an account's ticket keys: they all derive from one master
+ * secret, so a single passphrase-wrapped copy makes the account
+ * passphrase-grade. A backend holding none of the account's wrapped
+ * secrets cannot vouch for PRF and grades it passphrase too.
+ */
+export function accountKeyAssurance(accountId: string): KeyAssurance {
+  const secrets = wrappedSecretsOf(accountId);
+  return secrets.length > 0 && secrets.every((w) => w.kdf === "prf")
+    ? "prf"
+    : "passphrase";
+}
+
+/**
+ * A wrapped secret is stored from a session its own passkey opened on its
+ * account: no other session can replace a passkey's blob, or add one that
+ * downgrades the account's key assurance. Throws SessionError without a
+ * valid session.
+ */
+async function assertMayStoreWrappedSecret(
+  sessionToken: string,
+  wrapped: WrappedSecret,
+): Promise<void> {
+  const session = await verifySessionToken(sessionToken);
+  if (session.userHandle !== wrapped.accountId) {
+    throw new WrappedSecretRejectedError(
+      "This session is signed in to another account.",
+    );
+  }
+  if (session.credentialId !== wrapped.credentialId) {
+    throw new WrappedSecretRejectedError(
+      "Only a session opened with this passkey can store its wrapped master secret.",
+    );
+  }
+}
+
+function putWrappedSecret(wrapped: WrappedSecret): void {
+  localStorage.setItem(
+    WRAPPED_SECRET_PREFIX + wrapped.credentialId,
+    JSON.stringify(wrapped),
+  );
+}
+
+function wrappedSecretOf(credentialId: string): WrappedSecret | null {
+  const raw = localStorage.getItem(WRAPPED_SECRET_PREFIX + credentialId);
+  return raw ? (JSON.parse(raw) as WrappedSecret) : null;
+}
+
+/** Wrapped secrets of all an account's credentials. */
+function wrappedSecretsOf(accountId: string): WrappedSecret[] {
+  const secrets: WrappedSecret[] = [];
   for (let i = 0; i < localStorage.length; i++) {
     const key = localStorage.key(i);
-    if (key && key.startsWith(STORAGE_PREFIX)) {
-      keysToRemove.push(key);
-    }
+    if (!key || !key.startsWith(WRAPPED_SECRET_PREFIX)) continue;
+    const wrapped = JSON.parse(localStorage.getItem(key)!) as WrappedSecret;
+    if (wrapped.accountId === accountId) secrets.push(wrapped);
+  }
+  return secrets;
+}
+
+/** Drop a credential's wrapped secret (credential revocation). */
+export function deleteWrappedSecret(credentialId: string): void {
+  localStorage.removeItem(WRAPPED_SECRET_PREFIX + credentialId);
+}
+
+// ---------------------------------------------------------------------------
+// Simulated outage (for testing offline fallbacks)
+// ---------------------------------------------------------------------------
+
+export function isBackendOnline(): boolean {
+  return localStorage.getItem(OFFLINE_FLAG_KEY) !== "1";
+}
+
+export function setBackendOnline(online: boolean): void {
+  if (online) localStorage.removeItem(OFFLINE_FLAG_KEY);
+  else localStorage.setItem(OFFLINE_FLAG_KEY, "1");
+}
+
+/** Fail like a "REST" call would while the simulated outage is on. */
+export function assertOnline(): void {
+  if (!isBackendOnline()) {
+    throw new Error("Backend unavailable (simulated outage).");
   }
-  keysToRemove.forEach((k) => localStorage.removeItem(k));
 }
@@ -0,0 +1,1176 @@
+/**
+ * UIC Flexible Content Barcode (FCB) ticket data model and UPER codec.
+ *
+ * Encodes standard FCB version 3 (IRS 90918-10, uicRailTicketData v3), the
+ * `FCB3` data format of the DOSIPAS level 1 data sequence, so any FCB3
+ * decoder reads the ticket. The model only has the components this demo
+ * issues or displays; the others are encoded absent, and decoding a ticket
+ * that carries one of them fails. The modelled part of the schema, with
+ * `…` for the components left out (the codecs below list all OPTIONAL and
+ * DEFAULT components, as they each take a presence bit):
+ *
+ *   UicRailTicketData ::= SEQUENCE {
+ *     issuingDetail      IssuingData,
+ *     travelerDetail     TravelerData OPTIONAL,
+ *     transportDocument  SEQUENCE OF DocumentData OPTIONAL,
+ *     …,
+ *     ...
+ *   }
+ *
+ *   IssuingData ::= SEQUENCE {
+ *     securityProviderNum  INTEGER (1..32000) OPTIONAL,
+ *     …,
+ *     issuerNum            INTEGER (1..32000) OPTIONAL,
+ *     …,
+ *     issuingYear          INTEGER (2016..2269),
+ *     issuingDay           INTEGER (1..366),
+ *     issuingTime          INTEGER (0..1439),           -- minutes, UTC
+ *     issuerName           UTF8String OPTIONAL,
+ *     specimen             BOOLEAN,
+ *     securePaperTicket    BOOLEAN,
+ *     activated            BOOLEAN,
+ *     currency             IA5String (SIZE(3)) DEFAULT "EUR",
+ *     currencyFract        INTEGER (1..3) DEFAULT 2,
+ *     issuerPNR            IA5String OPTIONAL,
+ *     …,
+ *     ...
+ *   }
+ *
+ *   TravelerData ::= SEQUENCE {
+ *     traveler           SEQUENCE OF TravelerType OPTIONAL,
+ *     preferredLanguage  IA5String (SIZE(2)) OPTIONAL,
+ *     …,
+ *     ...
+ *   }
+ *
+ *   TravelerType ::= SEQUENCE {
+ *     firstName      UTF8String OPTIONAL,
+ *     …,
+ *     lastName       UTF8String OPTIONAL,
+ *     …,
+ *     customerIdIA5  IA5String OPTIONAL,
+ *     …,
+ *     ticketHolder   BOOLEAN,
+ *     passengerType  PassengerType OPTIONAL,
+ *     …,
+ *     ...
+ *   }
+ *
+ *   DocumentData ::= SEQUENCE {
+ *     token   TokenType OPTIONAL,
+ *     ticket  CHOICE {
+ *       reservation  ReservationData,
+ *       …,
+ *       openTicket   OpenTicketData,
+ *       …,
+ *       ...
+ *     },
+ *     ...
+ *   }
+ *
+ *   OpenTicketData ::= SEQUENCE {
+ *     referenceIA5         IA5String OPTIONAL,
+ *     …,
+ *     productIdIA5         IA5String OPTIONAL,
+ *     …,
+ *     returnIncluded       BOOLEAN,
+ *     …,
+ *     fromStationNameUTF8  UTF8String OPTIONAL,
+ *     toStationNameUTF8    UTF8String OPTIONAL,
+ *     validRegionDesc      UTF8String OPTIONAL,
+ *     …,
+ *     validFromDay         INTEGER (-367..700) DEFAULT 0,  -- days after issuing
+ *     validFromTime        INTEGER (0..1439) OPTIONAL,
+ *     validFromUTCOffset   INTEGER (-60..60) OPTIONAL,     -- quarter hours
+ *     validUntilDay        INTEGER (-1..500) DEFAULT 0,    -- days after validFrom
+ *     validUntilTime       INTEGER (0..1439) OPTIONAL,
+ *     validUntilUTCOffset  INTEGER (-60..60) OPTIONAL,
+ *     …,
+ *     classCode            TravelClassType OPTIONAL,
+ *     …,
+ *     tariffs              SEQUENCE OF TariffType OPTIONAL,
+ *     price                INTEGER OPTIONAL,           -- currency fraction units
+ *     …,
+ *     infoText             UTF8String OPTIONAL,
+ *     …,
+ *     ...
+ *   }
+ *
+ *   ReservationData ::= SEQUENCE {
+ *     …,
+ *     trainIA5              IA5String OPTIONAL,
+ *     departureDate         INTEGER (-1..370) DEFAULT 0,  -- days after issuing
+ *     referenceIA5          IA5String OPTIONAL,
+ *     …,
+ *     serviceBrandNameUTF8  UTF8String OPTIONAL,
+ *     …,
+ *     fromStationNameUTF8   UTF8String OPTIONAL,
+ *     toStationNameUTF8     UTF8String OPTIONAL,
+ *     departureTime         INTEGER (0..1439),
+ *     departureUTCOffset    INTEGER (-60..60) OPTIONAL,
+ *     arrivalDate           INTEGER (-1..20) DEFAULT 0,   -- days after departure
+ *     arrivalTime           INTEGER (0..1439) OPTIONAL,
+ *     arrivalUTCOffset      INTEGER (-60..60) OPTIONAL,
+ *     …,
+ *     classCode             TravelClassType DEFAULT second,
+ *     …,
+ *     places                PlaceData OPTIONAL,
+ *     …,
+ *     tariffs               SEQUENCE OF TariffType OPTIONAL,
+ *     …,
+ *     price                 INTEGER OPTIONAL,
+ *     …,
+ *     infoText              UTF8String OPTIONAL,
+ *     …,
+ *     ...
+ *   }
+ *
+ *   PlaceData ::= SEQUENCE {
+ *     coach        IA5String OPTIONAL,
+ *     placeString  IA5String OPTIONAL,
+ *     …,
+ *     ...
+ *   }
+ *
+ *   TariffType ::= SEQUENCE {
+ *     numberOfPassengers              INTEGER (1..200) DEFAULT 1,
+ *     passengerType                   PassengerType OPTIONAL,
+ *     …,
+ *     restrictedToCountryOfResidence  BOOLEAN,
+ *     …,
+ *     tariffDesc                      UTF8String OPTIONAL,
+ *     …,
+ *     ...
+ *   }
+ *
+ *   PassengerType ::= ENUMERATED { adult, senior, child, youth, dog,
+ *     bicycle, freeAddonPassenger, freeAddonChild, ... }
+ *
+ *   TravelClassType ::= ENUMERATED { notApplicable, first, second, tourist,
+ *     comfort, premium, business, all, premiumFirst, standardFirst,
+ *     premiumSecond, standardSecond, ... }
+ *
+ * Validity times are UTC, unless a UTC offset is present: they are then
+ * local times, and UTC = local time + offset × 15 minutes (CEST is -8).
+ *
+ * The demo's earlier, non-standard profiles are decoded by fcbLegacy.ts.
+ */
+
+import { UperReader, UperWriter } from "./uper";
+
+/** Data format of the FCB block in the DOSIPAS level 1 data sequence. */
+export const FCB_DATA_FORMAT = "FCB3";
+
+// ---------------------------------------------------------------------------
+// Model
+// ---------------------------------------------------------------------------
+
+export const PASSENGER_TYPES = [
+  "adult",
+  "senior",
+  "child",
+  "youth",
+  "dog",
+  "bicycle",
+  "freeAddonPassenger",
+  "freeAddonChild",
+] as const;
+export type PassengerType = (typeof PASSENGER_TYPES)[number];
+
+export const TRAVEL_CLASSES = [
+  "notApplicable",
+  "first",
+  "second",
+  "tourist",
+  "comfort",
+  "premium",
+  "business",
+  "all",
+  "premiumFirst",
+  "standardFirst",
+  "premiumSecond",
+  "standardSecond",
+] as const;
+export type TravelClass = (typeof TRAVEL_CLASSES)[number];
+
+export interface FcbTicket {
+  issuingDetail: IssuingData;
+  travelerDetail?: TravelerData;
+  transportDocument?: DocumentData[];
+}
+
+export interface IssuingData {
+  securityProviderNum?: number;
+  issuerNum?: number;
+  issuingYear: number;
+  issuingDay: number;
+  /** Minutes after midnight, UTC */
+  issuingTime: number;
+  issuerName?: string;
+  specimen: boolean;
+  /** Printed on paper with security features */
+  securePaperTicket: boolean;
+  activated: boolean;
+  currency: string;
+  /** Number of decimals of the price fields */
+  currencyFract: number;
+  issuerPNR?: string;
+}
+
+export interface TravelerData {
+  traveler?: TravelerType[];
+  /** ISO 639-1 language code */
+  preferredLanguage?: string;
+}
+
+export interface TravelerType {
+  firstName?: string;
+  lastName?: string;
+  customerIdIA5?: string;
+  ticketHolder: boolean;
+  passengerType?: PassengerType;
+}
+
+export type DocumentData =
+  | { kind: "reservation"; reservation: ReservationData }
+  | { kind: "openTicket"; openTicket: OpenTicketData };
+
+export interface OpenTicketData {
+  referenceIA5?: string;
+  productIdIA5?: string;
+  /** The ticket also covers the return trip */
+  returnIncluded: boolean;
+  fromStationNameUTF8?: string;
+  toStationNameUTF8?: string;
+  validRegionDesc?: string;
+  validFromDay: number;
+  validFromTime?: number;
+  /** Quarter hours; UTC = local time + offset */
+  validFromUTCOffset?: number;
+  validUntilDay: number;
+  validUntilTime?: number;
+  /** Quarter hours; UTC = local time + offset */
+  validUntilUTCOffset?: number;
+  classCode?: TravelClass;
+  tariffs?: TariffType[];
+  price?: number;
+  infoText?: string;
+}
+
+export interface ReservationData {
+  trainIA5?: string;
+  departureDate: number;
+  referenceIA5?: string;
+  serviceBrandNameUTF8?: string;
+  fromStationNameUTF8?: string;
+  toStationNameUTF8?: string;
+  departureTime: number;
+  /** Quarter hours; UTC = local time + offset */
+  departureUTCOffset?: number;
+  arrivalDate: number;
+  arrivalTime?: number;
+  /** Quarter hours; UTC = local time + offset */
+  arrivalUTCOffset?: number;
+  classCode: TravelClass;
+  places?: PlaceData;
+  tariffs?: TariffType[];
+  price?: number;
+  infoText?: string;
+}
+
+export interface PlaceData {
+  coach?: string;
+  placeString?: string;
+}
+
+export interface TariffType {
+  numberOfPassengers: number;
+  passengerType?: PassengerType;
+  restrictedToCountryOfResidence: boolean;
+  tariffDesc?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Public encode / decode
+// ---------------------------------------------------------------------------
+
+export function encodeFcbTicket(ticket: FcbTicket): Uint8Array {
+  const w = new UperWriter();
+  writePresence(w, TICKET_OPTIONALS, {
+    travelerDetail: ticket.travelerDetail !== undefined,
+    transportDocument: ticket.transportDocument !== undefined,
+  });
+  writeIssuingData(w, ticket.issuingDetail);
+  if (ticket.travelerDetail) writeTravelerData(w, ticket.travelerDetail);
+  if (ticket.transportDocument) {
+    writeSequenceOf(w, ticket.transportDocument, writeDocumentData);
+  }
+  return w.toBytes();
+}
+
+export function decodeFcbTicket(bytes: Uint8Array): FcbTicket {
+  const r = new UperReader(bytes);
+  const { has, extended } = readPresence(
+    r,
+    "UicRailTicketData",
+    TICKET_OPTIONALS,
+    ["travelerDetail", "transportDocument"],
+  );
+  const ticket: FcbTicket = { issuingDetail: readIssuingData(r) };
+  if (has("travelerDetail")) ticket.travelerDetail = readTravelerData(r);
+  if (has("transportDocument")) {
+    ticket.transportDocument = readSequenceOf(r, readDocumentData);
+  }
+  if (extended) r.skipExtensions();
+  return ticket;
+}
+
+// ---------------------------------------------------------------------------
+// Date helpers — FCB dates are relative to the issuing day
+// ---------------------------------------------------------------------------
+
+const DAY_MS = 86_400_000;
+const MINUTE_MS = 60_000;
+const QUARTER_HOUR_MS = 15 * MINUTE_MS;
+
+/** Issuing fields (year, day of year, minute of day) for a UTC instant. */
+export function issuingFieldsFromDate(
+  date: Date,
+): Pick<IssuingData, "issuingYear" | "issuingDay" | "issuingTime"> {
+  const year = date.getUTCFullYear();
+  return {
+    issuingYear: year,
+    issuingDay: Math.floor((date.getTime() - Date.UTC(year, 0, 1)) / DAY_MS) + 1,
+    issuingTime: date.getUTCHours() * 60 + date.getUTCMinutes(),
+  };
+}
+
+/** Midnight UTC of the issuing day. */
+function issuingDayStart(
+  issuing: Pick<IssuingData, "issuingYear" | "issuingDay">,
+): number {
+  return Date.UTC(issuing.issuingYear, 0, 1) + (issuing.issuingDay - 1) * DAY_MS;
+}
+
+export function issuingDate(issuing: IssuingData): Date {
+  return new Date(issuingDayStart(issuing) + issuing.issuingTime * MINUTE_MS);
+}
+
+/** Reference (the Ticket ID) of a ticket's first transport document. */
+export function ticketReference(ticket: FcbTicket): string | undefined {
+  const doc = ticket.transportDocument?.[0];
+  if (!doc) return undefined;
+  return doc.kind === "openTicket"
+    ? doc.openTicket.referenceIA5
+    : doc.reservation.referenceIA5;
+}
+
+/** Absolute validity window of an open ticket. */
+export function openTicketValidity(
+  issuing: IssuingData,
+  ticket: OpenTicketData,
+): { from: Date; until: Date } {
+  const fromDay = issuingDayStart(issuing) + ticket.validFromDay * DAY_MS;
+  const untilDay = fromDay + ticket.validUntilDay * DAY_MS;
+  return {
+    from: new Date(
+      fromDay +
+        (ticket.validFromTime ?? 0) * MINUTE_MS +
+        (ticket.validFromUTCOffset ?? 0) * QUARTER_HOUR_MS,
+    ),
+    until: new Date(
+      untilDay +
+        (ticket.validUntilTime ?? 1439) * MINUTE_MS +
+        (ticket.validUntilUTCOffset ?? 0) * QUARTER_HOUR_MS,
+    ),
+  };
+}
+
+/**
+ * Validity window of a ticket's first transport document, when it is an
+ * open ticket (reservations are valid for their train only).
+ */
+export function ticketValidity(
+  ticket: FcbTicket,
+): { from: Date; until: Date } | null {
+  const doc = ticket.transportDocument?.[0];
+  return doc?.kind === "openTicket"
+    ? openTicketValidity(ticket.issuingDetail, doc.openTicket)
+    : null;
+}
+
+export type ValidityPhase = "notYetValid" | "valid" | "expired";
+
+/**
+ * Where `at` falls in a validity window. FCB times are to the minute, so
+ * the last minute of the window is included.
+ */
+export function validityPhase(
+  window: { from: Date; until: Date },
+  at: Date,
+): ValidityPhase {
+  if (at < window.from) return "notYetValid";
+  if (at.getTime() >= window.until.getTime() + MINUTE_MS) return "expired";
+  return "valid";
+}
+
+/**
+ * Open ticket validity fields for the window [from, until], relative to
+ * the issuing day. Without a time zone the times are UTC; with one they
+ * are that zone's local times, with their UTC offsets (which differ across
+ * a daylight saving change).
+ */
+export function openTicketValidityFields(
+  issuing: Pick<IssuingData, "issuingYear" | "issuingDay">,
+  from: Date,
+  until: Date,
+  timeZone?: string,
+): Pick<
+  OpenTicketData,
+  | "validFromDay"
+  | "validFromTime"
+  | "validFromUTCOffset"
+  | "validUntilDay"
+  | "validUntilTime"
+  | "validUntilUTCOffset"
+> {
+  const start = wallClock(from, timeZone);
+  const end = wallClock(until, timeZone);
+  const issuingDay = issuingDayStart(issuing) / DAY_MS;
+  return {
+    validFromDay: start.day - issuingDay,
+    validFromTime: start.minute,
+    validFromUTCOffset: timeZone ? -start.offset / 15 : undefined,
+    validUntilDay: end.day - start.day,
+    validUntilTime: end.minute,
+    validUntilUTCOffset: timeZone ? -end.offset / 15 : undefined,
+  };
+}
+
+/** Minutes to add to UTC to get the local time of `timeZone` at `date`. */
+export function utcOffsetMinutes(date: Date, timeZone: string): number {
+  const name = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    timeZoneName: "longOffset",
+  })
+    .formatToParts(date)
+    .find((p) => p.type === "timeZoneName")!.value;
+  // "GMT" for UTC itself, "GMT+05:45" otherwise
+  const match = /GMT([+-])(\d{2}):(\d{2})/.exec(name);
+  if (!match) return 0;
+  const minutes = Number(match[2]) * 60 + Number(match[3]);
+  return match[1] === "-" ? -minutes : minutes;
+}
+
+/**
+ * 23:59 local time, `days` days after the day of `date`, in `timeZone`
+ * (UTC if none).
+ */
+export function endOfDay(date: Date, days: number, timeZone?: string): Date {
+  const { day } = wallClock(date, timeZone);
+  const local = (day + days) * DAY_MS + 1439 * MINUTE_MS;
+  // The offset at the end of the day may differ from today's (DST change)
+  let instant = local - wallClock(date, timeZone).offset * MINUTE_MS;
+  instant = local - wallClock(new Date(instant), timeZone).offset * MINUTE_MS;
+  return new Date(instant);
+}
+
+/**
+ * Wall clock of an instant in a time zone (UTC if none): days since the
+ * epoch, minute of the day and UTC offset in minutes.
+ */
+function wallClock(
+  date: Date,
+  timeZone?: string,
+): { day: number; minute: number; offset: number } {
+  const offset = timeZone ? utcOffsetMinutes(date, timeZone) : 0;
+  const local = date.getTime() + offset * MINUTE_MS;
+  return {
+    day: Math.floor(local / DAY_MS),
+    minute: Math.floor((local % DAY_MS) / MINUTE_MS),
+    offset,
+  };
+}
+
+/** Absolute departure / arrival instants of a reservation. */
+export function reservationTimes(
+  issuing: IssuingData,
+  reservation: ReservationData,
+): { departure: Date; arrival?: Date } {
+  const departureDay =
+    issuingDayStart(issuing) + reservation.departureDate * DAY_MS;
+  return {
+    departure: new Date(
+      departureDay +
+        reservation.departureTime * MINUTE_MS +
+        (reservation.departureUTCOffset ?? 0) * QUARTER_HOUR_MS,
+    ),
+    arrival:
+      reservation.arrivalTime !== undefined
+        ? new Date(
+            departureDay +
+              reservation.arrivalDate * DAY_MS +
+              reservation.arrivalTime * MINUTE_MS +
+              (reservation.arrivalUTCOffset ?? 0) * QUARTER_HOUR_MS,
+          )
+        : undefined,
+  };
+}
+
+/** Format an amount in currency fraction units, e.g. 500 → "5.00 EUR". */
+export function formatPrice(issuing: IssuingData, amount: number): string {
+  return `${(amount / 10 ** issuing.currencyFract).toFixed(issuing.currencyFract)} ${issuing.currency}`;
+}
+
+// ---------------------------------------------------------------------------
+// Structure codecs
+// ---------------------------------------------------------------------------
+
+// OPTIONAL and DEFAULT components of each type, in schema order: each one
+// takes a presence bit, whether the model has it or not.
+
+const TICKET_OPTIONALS = [
+  "travelerDetail",
+  "transportDocument",
+  "controlDetail",
+  "extension",
+] as const;
+
+const ISSUING_OPTIONALS = [
+  "securityProviderNum",
+  "securityProviderIA5",
+  "issuerNum",
+  "issuerIA5",
+  "issuerName",
+  "currency",
+  "currencyFract",
+  "issuerPNR",
+  "extension",
+  "issuedOnTrainNum",
+  "issuedOnTrainIA5",
+  "issuedOnLine",
+  "pointOfSale",
+] as const;
+
+const TRAVELER_DATA_OPTIONALS = [
+  "traveler",
+  "preferredLanguage",
+  "groupName",
+] as const;
+
+const TRAVELER_OPTIONALS = [
+  "firstName",
+  "secondName",
+  "lastName",
+  "idCard",
+  "passportId",
+  "title",
+  "gender",
+  "customerIdIA5",
+  "customerIdNum",
+  "yearOfBirth",
+  "monthOfBirth",
+  "dayOfBirthInMonth",
+  "passengerType",
+  "passengerWithReducedMobility",
+  "countryOfResidence",
+  "countryOfPassport",
+  "countryOfIdCard",
+  "status",
+] as const;
+
+const DOCUMENT_OPTIONALS = ["token"] as const;
+
+/** Root alternatives of DocumentData.ticket */
+const DOCUMENT_TYPES = [
+  "reservation",
+  "carCarriageReservation",
+  "openTicket",
+  "pass",
+  "voucher",
+  "customerCard",
+  "countermark",
+  "parkingGround",
+  "fipTicket",
+  "stationPassage",
+  "extension",
+] as const;
+
+const OPEN_TICKET_OPTIONALS = [
+  "referenceIA5",
+  "referenceNum",
+  "productOwnerNum",
+  "productOwnerIA5",
+  "productIdNum",
+  "productIdIA5",
+  "extIssuerId",
+  "issuerAutorizationId",
+  "stationCodeTable",
+  "fromStationNum",
+  "fromStationIA5",
+  "toStationNum",
+  "toStationIA5",
+  "fromStationNameUTF8",
+  "toStationNameUTF8",
+  "validRegionDesc",
+  "validRegion",
+  "returnDescription",
+  "validFromDay",
+  "validFromTime",
+  "validFromUTCOffset",
+  "validUntilDay",
+  "validUntilTime",
+  "validUntilUTCOffset",
+  "activatedDay",
+  "classCode",
+  "serviceLevel",
+  "carrierNum",
+  "carrierIA5",
+  "includedServiceBrands",
+  "excludedServiceBrands",
+  "tariffs",
+  "price",
+  "vatDetail",
+  "infoText",
+  "includedAddOns",
+  "luggage",
+  "extension",
+] as const;
+
+const RESERVATION_OPTIONALS = [
+  "trainNum",
+  "trainIA5",
+  "departureDate",
+  "referenceIA5",
+  "referenceNum",
+  "productOwnerNum",
+  "productOwnerIA5",
+  "productIdNum",
+  "productIdIA5",
+  "serviceBrand",
+  "serviceBrandAbrUTF8",
+  "serviceBrandNameUTF8",
+  "service",
+  "stationCodeTable",
+  "fromStationNum",
+  "fromStationIA5",
+  "toStationNum",
+  "toStationIA5",
+  "fromStationNameUTF8",
+  "toStationNameUTF8",
+  "departureUTCOffset",
+  "arrivalDate",
+  "arrivalTime",
+  "arrivalUTCOffset",
+  "carrierNum",
+  "carrierIA5",
+  "classCode",
+  "serviceLevel",
+  "places",
+  "additionalPlaces",
+  "bicyclePlaces",
+  "compartmentDetails",
+  "numberOfOverbooked",
+  "berth",
+  "tariffs",
+  "priceType",
+  "price",
+  "vatDetail",
+  "typeOfSupplement",
+  "numberOfSupplements",
+  "luggage",
+  "infoText",
+  "extension",
+] as const;
+
+const PLACE_OPTIONALS = [
+  "coach",
+  "placeString",
+  "placeDescription",
+  "placeIA5",
+  "placeNum",
+] as const;
+
+const TARIFF_OPTIONALS = [
+  "numberOfPassengers",
+  "passengerType",
+  "ageBelow",
+  "ageAbove",
+  "travelerid",
+  "restrictedToRouteSection",
+  "seriesDataDetails",
+  "tariffIdNum",
+  "tariffIdIA5",
+  "tariffDesc",
+  "reductionCard",
+] as const;
+
+/**
+ * Preamble of an (extensible) FCB SEQUENCE: one presence bit per OPTIONAL
+ * or DEFAULT component, set for those marked present.
+ */
+function writePresence<K extends string>(
+  w: UperWriter,
+  components: readonly K[],
+  present: Partial<Record<K, boolean>>,
+): void {
+  w.writePreamble(
+    components.map((c) => present[c] === true),
+    true,
+  );
+}
+
+/**
+ * Read the preamble of an FCB SEQUENCE. Throws when a component the model
+ * lacks is present: the codec cannot skip it.
+ */
+function readPresence<K extends string>(
+  r: UperReader,
+  type: string,
+  components: readonly K[],
+  modelled: readonly K[],
+): { has: (component: K) => boolean; extended: boolean } {
+  const { present, extended } = r.readPreamble(components.length, true);
+  components.forEach((c, i) => {
+    if (present[i] && !modelled.includes(c)) {
+      throw new Error(`FCB: ${type}.${c} is not supported`);
+    }
+  });
+  return { has: (c) => present[components.indexOf(c)], extended };
+}
+
+function writeSequenceOf<T>(
+  w: UperWriter,
+  items: T[],
+  writeItem: (w: UperWriter, item: T) => void,
+): void {
+  w.writeLength(items.length);
+  for (const item of items) writeItem(w, item);
+}
+
+function readSequenceOf<T>(r: UperReader, readItem: (r: UperReader) => T): T[] {
+  const count = r.readLength();
+  const items: T[] = [];
+  for (let i = 0; i < count; i++) items.push(readItem(r));
+  return items;
+}
+
+function writeIssuingData(w: UperWriter, d: IssuingData): void {
+  writePresence(w, ISSUING_OPTIONALS, {
+    securityProviderNum: d.securityProviderNum !== undefined,
+    issuerNum: d.issuerNum !== undefined,
+    issuerName: d.issuerName !== undefined,
+    currency: d.currency !== "EUR",
+    currencyFract: d.currencyFract !== 2,
+    issuerPNR: d.issuerPNR !== undefined,
+  });
+  if (d.securityProviderNum !== undefined) {
+    w.writeConstrainedInt(d.securityProviderNum, 1, 32000);
+  }
+  if (d.issuerNum !== undefined) w.writeConstrainedInt(d.issuerNum, 1, 32000);
+  w.writeConstrainedInt(d.issuingYear, 2016, 2269);
+  w.writeConstrainedInt(d.issuingDay, 1, 366);
+  w.writeConstrainedInt(d.issuingTime, 0, 1439);
+  if (d.issuerName !== undefined) w.writeUTF8String(d.issuerName);
+  w.writeBoolean(d.specimen);
+  w.writeBoolean(d.securePaperTicket);
+  w.writeBoolean(d.activated);
+  if (d.currency !== "EUR") w.writeFixedIA5String(d.currency, 3);
+  if (d.currencyFract !== 2) w.writeConstrainedInt(d.currencyFract, 1, 3);
+  if (d.issuerPNR !== undefined) w.writeIA5String(d.issuerPNR);
+}
+
+function readIssuingData(r: UperReader): IssuingData {
+  const { has, extended } = readPresence(r, "IssuingData", ISSUING_OPTIONALS, [
+    "securityProviderNum",
+    "issuerNum",
+    "issuerName",
+    "currency",
+    "currencyFract",
+    "issuerPNR",
+  ]);
+  const d: IssuingData = {
+    securityProviderNum: has("securityProviderNum")
+      ? r.readConstrainedInt(1, 32000)
+      : undefined,
+    issuerNum: has("issuerNum") ? r.readConstrainedInt(1, 32000) : undefined,
+    issuingYear: r.readConstrainedInt(2016, 2269),
+    issuingDay: r.readConstrainedInt(1, 366),
+    issuingTime: r.readConstrainedInt(0, 1439),
+    issuerName: has("issuerName") ? r.readUTF8String() : undefined,
+    specimen: r.readBoolean(),
+    securePaperTicket: r.readBoolean(),
+    activated: r.readBoolean(),
+    currency: has("currency") ? r.readFixedIA5String(3) : "EUR",
+    currencyFract: has("currencyFract") ? r.readConstrainedInt(1, 3) : 2,
+    issuerPNR: has("issuerPNR") ? r.readIA5String() : undefined,
+  };
+  if (extended) r.skipExtensions();
+  return d;
+}
+
+function writeTravelerData(w: UperWriter, d: TravelerData): void {
+  writePresence(w, TRAVELER_DATA_OPTIONALS, {
+    traveler: d.traveler !== undefined,
+    preferredLanguage: d.preferredLanguage !== undefined,
+  });
+  if (d.traveler) writeSequenceOf(w, d.traveler, writeTravelerType);
+  if (d.preferredLanguage !== undefined) {
+    w.writeFixedIA5String(d.preferredLanguage, 2);
+  }
+}
+
+function readTravelerData(r: UperReader): TravelerData {
+  const { has, extended } = readPresence(
+    r,
+    "TravelerData",
+    TRAVELER_DATA_OPTIONALS,
+    ["traveler", "preferredLanguage"],
+  );
+  const d: TravelerData = {
+    traveler: has("traveler") ? readSequenceOf(r, readTravelerType) : undefined,
+    preferredLanguage: has("preferredLanguage")
+      ? r.readFixedIA5String(2)
+      : undefined,
+  };
+  if (extended) r.skipExtensions();
+  return d;
+}
+
+function writeTravelerType(w: UperWriter, t: TravelerType): void {
+  writePresence(w, TRAVELER_OPTIONALS, {
+    firstName: t.firstName !== undefined,
+    lastName: t.lastName !== undefined,
+    customerIdIA5: t.customerIdIA5 !== undefined,
+    passengerType: t.passengerType !== undefined,
+  });
+  if (t.firstName !== undefined) w.writeUTF8String(t.firstName);
+  if (t.lastName !== undefined) w.writeUTF8String(t.lastName);
+  if (t.customerIdIA5 !== undefined) w.writeIA5String(t.customerIdIA5);
+  w.writeBoolean(t.ticketHolder);
+  if (t.passengerType !== undefined) writePassengerType(w, t.passengerType);
+}
+
+function readTravelerType(r: UperReader): TravelerType {
+  const { has, extended } = readPresence(
+    r,
+    "TravelerType",
+    TRAVELER_OPTIONALS,
+    ["firstName", "lastName", "customerIdIA5", "passengerType"],
+  );
+  const t: TravelerType = {
+    firstName: has("firstName") ? r.readUTF8String() : undefined,
+    lastName: has("lastName") ? r.readUTF8String() : undefined,
+    customerIdIA5: has("customerIdIA5") ? r.readIA5String() : undefined,
+    ticketHolder: r.readBoolean(),
+    passengerType: has("passengerType") ? readPassengerType(r) : undefined,
+  };
+  if (extended) r.skipExtensions();
+  return t;
+}
+
+function writeDocumentData(w: UperWriter, d: DocumentData): void {
+  writePresence(w, DOCUMENT_OPTIONALS, {});
+  // CHOICE with extension marker: extension bit + alternative index
+  w.writeBit(false);
+  w.writeConstrainedInt(
+    DOCUMENT_TYPES.indexOf(d.kind),
+    0,
+    DOCUMENT_TYPES.length - 1,
+  );
+  if (d.kind === "reservation") writeReservationData(w, d.reservation);
+  else writeOpenTicketData(w, d.openTicket);
+}
+
+function readDocumentData(r: UperReader): DocumentData {
+  const { extended } = readPresence(r, "DocumentData", DOCUMENT_OPTIONALS, []);
+  if (r.readBit()) {
+    throw new Error("FCB: unsupported transport document type");
+  }
+  const kind =
+    DOCUMENT_TYPES[r.readConstrainedInt(0, DOCUMENT_TYPES.length - 1)];
+  let d: DocumentData;
+  if (kind === "reservation") {
+    d = { kind, reservation: readReservationData(r) };
+  } else if (kind === "openTicket") {
+    d = { kind, openTicket: readOpenTicketData(r) };
+  } else {
+    throw new Error(`FCB: ${kind} documents are not supported`);
+  }
+  if (extended) r.skipExtensions();
+  return d;
+}
+
+function writeOpenTicketData(w: UperWriter, d: OpenTicketData): void {
+  writePresence(w, OPEN_TICKET_OPTIONALS, {
+    referenceIA5: d.referenceIA5 !== undefined,
+    productIdIA5: d.productIdIA5 !== undefined,
+    fromStationNameUTF8: d.fromStationNameUTF8 !== undefined,
+    toStationNameUTF8: d.toStationNameUTF8 !== undefined,
+    validRegionDesc: d.validRegionDesc !== undefined,
+    validFromDay: d.validFromDay !== 0,
+    validFromTime: d.validFromTime !== undefined,
+    validFromUTCOffset: d.validFromUTCOffset !== undefined,
+    validUntilDay: d.validUntilDay !== 0,
+    validUntilTime: d.validUntilTime !== undefined,
+    validUntilUTCOffset: d.validUntilUTCOffset !== undefined,
+    classCode: d.classCode !== undefined,
+    tariffs: d.tariffs !== undefined,
+    price: d.price !== undefined,
+    infoText: d.infoText !== undefined,
+  });
+  if (d.referenceIA5 !== undefined) w.writeIA5String(d.referenceIA5);
+  if (d.productIdIA5 !== undefined) w.writeIA5String(d.productIdIA5);
+  w.writeBoolean(d.returnIncluded);
+  if (d.fromStationNameUTF8 !== undefined) {
+    w.writeUTF8String(d.fromStationNameUTF8);
+  }
+  if (d.toStationNameUTF8 !== undefined) w.writeUTF8String(d.toStationNameUTF8);
+  if (d.validRegionDesc !== undefined) w.writeUTF8String(d.validRegionDesc);
+  if (d.validFromDay !== 0) w.writeConstrainedInt(d.validFromDay, -367, 700);
+  if (d.validFromTime !== undefined) {
+    w.writeConstrainedInt(d.validFromTime, 0, 1439);
+  }
+  if (d.validFromUTCOffset !== undefined) {
+    w.writeConstrainedInt(d.validFromUTCOffset, -60, 60);
+  }
+  if (d.validUntilDay !== 0) w.writeConstrainedInt(d.validUntilDay, -1, 500);
+  if (d.validUntilTime !== undefined) {
+    w.writeConstrainedInt(d.validUntilTime, 0, 1439);
+  }
+  if (d.validUntilUTCOffset !== undefined) {
+    w.writeConstrainedInt(d.validUntilUTCOffset, -60, 60);
+  }
+  if (d.classCode !== undefined) writeTravelClass(w, d.classCode);
+  if (d.tariffs) writeSequenceOf(w, d.tariffs, writeTariffType);
+  if (d.price !== undefined) w.writeUnconstrainedInt(d.price);
+  if (d.infoText !== undefined) w.writeUTF8String(d.infoText);
+}
+
+function readOpenTicketData(r: UperReader): OpenTicketData {
+  const { has, extended } = readPresence(
+    r,
+    "OpenTicketData",
+    OPEN_TICKET_OPTIONALS,
+    [
+      "referenceIA5",
+      "productIdIA5",
+      "fromStationNameUTF8",
+      "toStationNameUTF8",
+      "validRegionDesc",
+      "validFromDay",
+      "validFromTime",
+      "validFromUTCOffset",
+      "validUntilDay",
+      "validUntilTime",
+      "validUntilUTCOffset",
+      "classCode",
+      "tariffs",
+      "price",
+      "infoText",
+    ],
+  );
+  const d: OpenTicketData = {
+    referenceIA5: has("referenceIA5") ? r.readIA5String() : undefined,
+    productIdIA5: has("productIdIA5") ? r.readIA5String() : undefined,
+    returnIncluded: r.readBoolean(),
+    fromStationNameUTF8: has("fromStationNameUTF8")
+      ? r.readUTF8String()
+      : undefined,
+    toStationNameUTF8: has("toStationNameUTF8")
+      ? r.readUTF8String()
+      : undefined,
+    validRegionDesc: has("validRegionDesc") ? r.readUTF8String() : undefined,
+    validFromDay: has("validFromDay") ? r.readConstrainedInt(-367, 700) : 0,
+    validFromTime: has("validFromTime")
+      ? r.readConstrainedInt(0, 1439)
+      : undefined,
+    validFromUTCOffset: has("validFromUTCOffset")
+      ? r.readConstrainedInt(-60, 60)
+      : undefined,
+    validUntilDay: has("validUntilDay") ? r.readConstrainedInt(-1, 500) : 0,
+    validUntilTime: has("validUntilTime")
+      ? r.readConstrainedInt(0, 1439)
+      : undefined,
+    validUntilUTCOffset: has("validUntilUTCOffset")
+      ? r.readConstrainedInt(-60, 60)
+      : undefined,
+    classCode: has("classCode") ? readTravelClass(r) : undefined,
+    tariffs: has("tariffs") ? readSequenceOf(r, readTariffType) : undefined,
+    price: has("price") ? r.readUnconstrainedInt() : undefined,
+    infoText: has("infoText") ? r.readUTF8String() : undefined,
+  };
+  if (extended) r.skipExtensions();
+  return d;
+}
+
+function writeReservationData(w: UperWriter, d: ReservationData): void {
+  writePresence(w, RESERVATION_OPTIONALS, {
+    trainIA5: d.trainIA5 !== undefined,
+    departureDate: d.departureDate !== 0,
+    referenceIA5: d.referenceIA5 !== undefined,
+    serviceBrandNameUTF8: d.serviceBrandNameUTF8 !== undefined,
+    fromStationNameUTF8: d.fromStationNameUTF8 !== undefined,
+    toStationNameUTF8: d.toStationNameUTF8 !== undefined,
+    departureUTCOffset: d.departureUTCOffset !== undefined,
+    arrivalDate: d.arrivalDate !== 0,
+    arrivalTime: d.arrivalTime !== undefined,
+    arrivalUTCOffset: d.arrivalUTCOffset !== undefined,
+    classCode: d.classCode !== "second",
+    places: d.places !== undefined,
+    tariffs: d.tariffs !== undefined,
+    price: d.price !== undefined,
+    infoText: d.infoText !== undefined,
+  });
+  if (d.trainIA5 !== undefined) w.writeIA5String(d.trainIA5);
+  if (d.departureDate !== 0) w.writeConstrainedInt(d.departureDate, -1, 370);
+  if (d.referenceIA5 !== undefined) w.writeIA5String(d.referenceIA5);
+  if (d.serviceBrandNameUTF8 !== undefined) {
+    w.writeUTF8String(d.serviceBrandNameUTF8);
+  }
+  if (d.fromStationNameUTF8 !== undefined) {
+    w.writeUTF8String(d.fromStationNameUTF8);
+  }
+  if (d.toStationNameUTF8 !== undefined) w.writeUTF8String(d.toStationNameUTF8);
+  w.writeConstrainedInt(d.departureTime, 0, 1439);
+  if (d.departureUTCOffset !== undefined) {
+    w.writeConstrainedInt(d.departureUTCOffset, -60, 60);
+  }
+  if (d.arrivalDate !== 0) w.writeConstrainedInt(d.arrivalDate, -1, 20);
+  if (d.arrivalTime !== undefined) {
+    w.writeConstrainedInt(d.arrivalTime, 0, 1439);
+  }
+  if (d.arrivalUTCOffset !== undefined) {
+    w.writeConstrainedInt(d.arrivalUTCOffset, -60, 60);
+  }
+  if (d.classCode !== "second") writeTravelClass(w, d.classCode);
+  if (d.places) writePlaceData(w, d.places);
+  if (d.tariffs) writeSequenceOf(w, d.tariffs, writeTariffType);
+  if (d.price !== undefined) w.writeUnconstrainedInt(d.price);
+  if (d.infoText !== undefined) w.writeUTF8String(d.infoText);
+}
+
+function readReservationData(r: UperReader): ReservationData {
+  const { has, extended } = readPresence(
+    r,
+    "ReservationData",
+    RESERVATION_OPTIONALS,
+    [
+      "trainIA5",
+      "departureDate",
+      "referenceIA5",
+      "serviceBrandNameUTF8",
+      "fromStationNameUTF8",
+      "toStationNameUTF8",
+      "departureUTCOffset",
+      "arrivalDate",
+      "arrivalTime",
+      "arrivalUTCOffset",
+      "classCode",
+      "places",
+      "tariffs",
+      "price",
+      "infoText",
+    ],
+  );
+  const d: ReservationData = {
+    trainIA5: has("trainIA5") ? r.readIA5String() : undefined,
+    departureDate: has("departureDate") ? r.readConstrainedInt(-1, 370) : 0,
+    referenceIA5: has("referenceIA5") ? r.readIA5String() : undefined,
+    serviceBrandNameUTF8: has("serviceBrandNameUTF8")
+      ? r.readUTF8String()
+      : undefined,
+    fromStationNameUTF8: has("fromStationNameUTF8")
+      ? r.readUTF8String()
+      : undefined,
+    toStationNameUTF8: has("toStationNameUTF8")
+      ? r.readUTF8String()
+      : undefined,
+    departureTime: r.readConstrainedInt(0, 1439),
+    departureUTCOffset: has("departureUTCOffset")
+      ? r.readConstrainedInt(-60, 60)
+      : undefined,
+    arrivalDate: has("arrivalDate") ? r.readConstrainedInt(-1, 20) : 0,
+    arrivalTime: has("arrivalTime") ? r.readConstrainedInt(0, 1439) : undefined,
+    arrivalUTCOffset: has("arrivalUTCOffset")
+      ? r.readConstrainedInt(-60, 60)
+      : undefined,
+    classCode: has("classCode") ? readTravelClass(r) : "second",
+    places: has("places") ? readPlaceData(r) : undefined,
+    tariffs: has("tariffs") ? readSequenceOf(r, readTariffType) : undefined,
+    price: has("price") ? r.readUnconstrainedInt() : undefined,
+    infoText: has("infoText") ? r.readUTF8String() : undefined,
+  };
+  if (extended) r.skipExtensions();
+  return d;
+}
+
+function writePlaceData(w: UperWriter, d: PlaceData): void {
+  writePresence(w, PLACE_OPTIONALS, {
+    coach: d.coach !== undefined,
+    placeString: d.placeString !== undefined,
+  });
+  if (d.coach !== undefined) w.writeIA5String(d.coach);
+  if (d.placeString !== undefined) w.writeIA5String(d.placeString);
+}
+
+function readPlaceData(r: UperReader): PlaceData {
+  const { has, extended } = readPresence(r, "PlaceData", PLACE_OPTIONALS, [
+    "coach",
+    "placeString",
+  ]);
+  const d: PlaceData = {
+    coach: has("coach") ? r.readIA5String() : undefined,
+    placeString: has("placeString") ? r.readIA5String() : undefined,
+  };
+  if (extended) r.skipExtensions();
+  return d;
+}
+
+function writeTariffType(w: UperWriter, t: TariffType): void {
+  writePresence(w, TARIFF_OPTIONALS, {
+    numberOfPassengers: t.numberOfPassengers !== 1,
+    passengerType: t.passengerType !== undefined,
+    tariffDesc: t.tariffDesc !== undefined,
+  });
+  if (t.numberOfPassengers !== 1) {
+    w.writeConstrainedInt(t.numberOfPassengers, 1, 200);
+  }
+  if (t.passengerType !== undefined) writePassengerType(w, t.passengerType);
+  w.writeBoolean(t.restrictedToCountryOfResidence);
+  if (t.tariffDesc !== undefined) w.writeUTF8String(t.tariffDesc);
+}
+
+function readTariffType(r: UperReader): TariffType {
+  const { has, extended } = readPresence(r, "TariffType", TARIFF_OPTIONALS, [
+    "numberOfPassengers",
+    "passengerType",
+    "tariffDesc",
+  ]);
+  const t: TariffType = {
+    numberOfPassengers: has("numberOfPassengers")
+      ? r.readConstrainedInt(1, 200)
+      : 1,
+    passengerType: has("passengerType") ? readPassengerType(r) : undefined,
+    restrictedToCountryOfResidence: r.readBoolean(),
+    tariffDesc: has("tariffDesc") ? r.readUTF8String() : undefined,
+  };
+  if (extended) r.skipExtensions();
+  return t;
+}
+
+function writePassengerType(w: UperWriter, p: PassengerType): void {
+  w.writeEnumerated(PASSENGER_TYPES.indexOf(p), PASSENGER_TYPES.length, true);
+}
+
+function readPassengerType(r: UperReader): PassengerType {
+  return PASSENGER_TYPES[r.readEnumerated(PASSENGER_TYPES.length, true)];
+}
+
+function writeTravelClass(w: UperWriter, c: TravelClass): void {
+  w.writeEnumerated(TRAVEL_CLASSES.indexOf(c), TRAVEL_CLASSES.length, true);
+}
+
+function readTravelClass(r: UperReader): TravelClass {
+  return TRAVEL_CLASSES[r.readEnumerated(TRAVEL_CLASSES.length, true)];
+}
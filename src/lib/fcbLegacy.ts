@@ -0,0 +1,225 @@
+/**
+ * Decoder for the demo's earlier FCB profiles, so tickets issued before the
+ * switch to standard FCB3 (fcb.ts) still verify.
+ *
+ * Those profiles followed FCB version 3 field names and types but left out
+ * the components the demo never used, presence bits included, so only this
+ * module reads them:
+ *   - `_9999.FCB3`: the first profile, validity times in UTC;
+ *   - `_9999.FCB4`: the same with validFromUTCOffset / validUntilUTCOffset
+ *     after the validity times of OpenTicketData.
+ *
+ * Both decode into the fcb.ts model. Components the profiles lack take
+ * their FCB3 defaults.
+ */
+
+import { PASSENGER_TYPES, TRAVEL_CLASSES } from "./fcb";
+import type {
+  DocumentData,
+  FcbTicket,
+  IssuingData,
+  OpenTicketData,
+  PassengerType,
+  PlaceData,
+  ReservationData,
+  TariffType,
+  TravelClass,
+  TravelerData,
+  TravelerType,
+} from "./fcb";
+import { UperReader } from "./uper";
+
+/** Data formats of the earlier profiles, oldest first. */
+export const LEGACY_FCB_DATA_FORMATS = ["_9999.FCB3", "_9999.FCB4"] as const;
+
+/** Travel classes of the earlier profiles' TravelClassType. */
+const LEGACY_TRAVEL_CLASSES = TRAVEL_CLASSES.slice(0, 3);
+
+export function isLegacyFcbDataFormat(dataFormat: string): boolean {
+  return (LEGACY_FCB_DATA_FORMATS as readonly string[]).includes(dataFormat);
+}
+
+export function decodeLegacyFcbTicket(
+  bytes: Uint8Array,
+  dataFormat: string,
+): FcbTicket {
+  if (!isLegacyFcbDataFormat(dataFormat)) {
+    throw new Error(`FCB: unsupported data format ${dataFormat}`);
+  }
+  const withOffsets = dataFormat !== "_9999.FCB3";
+  const r = new UperReader(bytes);
+  const { present, extended } = r.readPreamble(2, true);
+  const ticket: FcbTicket = { issuingDetail: readIssuingData(r) };
+  if (present[0]) ticket.travelerDetail = readTravelerData(r);
+  if (present[1]) {
+    ticket.transportDocument = readSequenceOf(r, (r) =>
+      readDocumentData(r, withOffsets),
+    );
+  }
+  if (extended) r.skipExtensions();
+  return ticket;
+}
+
+// ---------------------------------------------------------------------------
+// Structure codecs
+// ---------------------------------------------------------------------------
+
+function readSequenceOf<T>(r: UperReader, readItem: (r: UperReader) => T): T[] {
+  const count = r.readLength();
+  const items: T[] = [];
+  for (let i = 0; i < count; i++) items.push(readItem(r));
+  return items;
+}
+
+function readIssuingData(r: UperReader): IssuingData {
+  const { present, extended } = r.readPreamble(7, true);
+  const d: IssuingData = {
+    securityProviderNum: present[0]
+      ? r.readConstrainedInt(1, 32000)
+      : undefined,
+    issuerNum: present[1] ? r.readConstrainedInt(1, 32000) : undefined,
+    issuingYear: r.readConstrainedInt(2016, 2269),
+    issuingDay: r.readConstrainedInt(1, 366),
+    issuingTime: present[2] ? r.readConstrainedInt(0, 1439) : 0,
+    issuerName: present[3] ? r.readUTF8String() : undefined,
+    specimen: r.readBoolean(),
+    securePaperTicket: false,
+    activated: r.readBoolean(),
+    currency: present[4] ? r.readIA5String() : "EUR",
+    currencyFract: present[5] ? r.readConstrainedInt(1, 3) : 2,
+    issuerPNR: present[6] ? r.readIA5String() : undefined,
+  };
+  if (extended) r.skipExtensions();
+  return d;
+}
+
+function readTravelerData(r: UperReader): TravelerData {
+  const { present, extended } = r.readPreamble(2, true);
+  const d: TravelerData = {
+    traveler: present[0] ? readSequenceOf(r, readTravelerType) : undefined,
+    preferredLanguage: present[1] ? r.readIA5String() : undefined,
+  };
+  if (extended) r.skipExtensions();
+  return d;
+}
+
+function readTravelerType(r: UperReader): TravelerType {
+  const { present, extended } = r.readPreamble(4, true);
+  const t: TravelerType = {
+    firstName: present[0] ? r.readUTF8String() : undefined,
+    lastName: present[1] ? r.readUTF8String() : undefined,
+    customerIdIA5: present[2] ? r.readIA5String() : undefined,
+    ticketHolder: r.readBoolean(),
+    passengerType: present[3] ? readPassengerType(r) : undefined,
+  };
+  if (extended) r.skipExtensions();
+  return t;
+}
+
+function readDocumentData(r: UperReader, withOffsets: boolean): DocumentData {
+  const { extended } = r.readPreamble(0, true);
+  if (r.readBit()) {
+    throw new Error("FCB: unsupported transport document type");
+  }
+  const d: DocumentData =
+    r.readConstrainedInt(0, 1) === 0
+      ? { kind: "reservation", reservation: readReservationData(r) }
+      : { kind: "openTicket", openTicket: readOpenTicketData(r, withOffsets) };
+  if (extended) r.skipExtensions();
+  return d;
+}
+
+/** `withOffsets` false reads the `_9999.FCB3` layout, without UTC offsets. */
+function readOpenTicketData(
+  r: UperReader,
+  withOffsets: boolean,
+): OpenTicketData {
+  const bits = r.readPreamble(withOffsets ? 15 : 13, true);
+  const { extended } = bits;
+  // _9999.FCB3 tickets: the two offsets are simply absent
+  const present = withOffsets
+    ? bits.present
+    : [
+        ...bits.present.slice(0, 7),
+        false,
+        ...bits.present.slice(7, 9),
+        false,
+        ...bits.present.slice(9),
+      ];
+  const d: OpenTicketData = {
+    referenceIA5: present[0] ? r.readIA5String() : undefined,
+    productIdIA5: present[1] ? r.readIA5String() : undefined,
+    returnIncluded: false,
+    fromStationNameUTF8: present[2] ? r.readUTF8String() : undefined,
+    toStationNameUTF8: present[3] ? r.readUTF8String() : undefined,
+    validRegionDesc: present[4] ? r.readUTF8String() : undefined,
+    validFromDay: present[5] ? r.readConstrainedInt(-1, 700) : 0,
+    validFromTime: present[6] ? r.readConstrainedInt(0, 1439) : undefined,
+    validFromUTCOffset: present[7] ? r.readConstrainedInt(-60, 60) : undefined,
+    validUntilDay: present[8] ? r.readConstrainedInt(0, 370) : 0,
+    validUntilTime: present[9] ? r.readConstrainedInt(0, 1439) : undefined,
+    validUntilUTCOffset: present[10]
+      ? r.readConstrainedInt(-60, 60)
+      : undefined,
+    classCode: present[11] ? readTravelClass(r) : "second",
+    tariffs: present[12] ? readSequenceOf(r, readTariffType) : undefined,
+    price: present[13] ? r.readUnconstrainedInt() : undefined,
+    infoText: present[14] ? r.readUTF8String() : undefined,
+  };
+  if (extended) r.skipExtensions();
+  return d;
+}
+
+function readReservationData(r: UperReader): ReservationData {
+  const { present, extended } = r.readPreamble(13, true);
+  const d: ReservationData = {
+    trainIA5: present[0] ? r.readIA5String() : undefined,
+    departureDate: present[1] ? r.readConstrainedInt(-1, 370) : 0,
+    departureTime: r.readConstrainedInt(0, 1439),
+    arrivalDate: present[2] ? r.readConstrainedInt(-1, 20) : 0,
+    arrivalTime: present[3] ? r.readConstrainedInt(0, 1439) : undefined,
+    referenceIA5: present[4] ? r.readIA5String() : undefined,
+    fromStationNameUTF8: present[5] ? r.readUTF8String() : undefined,
+    toStationNameUTF8: present[6] ? r.readUTF8String() : undefined,
+    serviceBrandNameUTF8: present[7] ? r.readUTF8String() : undefined,
+    classCode: present[8] ? readTravelClass(r) : "second",
+    places: present[9] ? readPlaceData(r) : undefined,
+    tariffs: present[10] ? readSequenceOf(r, readTariffType) : undefined,
+    price: present[11] ? r.readUnconstrainedInt() : undefined,
+    infoText: present[12] ? r.readUTF8String() : undefined,
+  };
+  if (extended) r.skipExtensions();
+  return d;
+}
+
+function readPlaceData(r: UperReader): PlaceData {
+  const { present, extended } = r.readPreamble(2, true);
+  const d: PlaceData = {
+    coach: present[0] ? r.readIA5String() : undefined,
+    placeString: present[1] ? r.readIA5String() : undefined,
+  };
+  if (extended) r.skipExtensions();
+  return d;
+}
+
+function readTariffType(r: UperReader): TariffType {
+  const { present, extended } = r.readPreamble(3, true);
+  const t: TariffType = {
+    numberOfPassengers: present[0] ? r.readConstrainedInt(1, 200) : 1,
+    passengerType: present[1] ? readPassengerType(r) : undefined,
+    restrictedToCountryOfResidence: false,
+    tariffDesc: present[2] ? r.readUTF8String() : undefined,
+  };
+  if (extended) r.skipExtensions();
+  return t;
+}
+
+function readPassengerType(r: UperReader): PassengerType {
+  return PASSENGER_TYPES[r.readEnumerated(PASSENGER_TYPES.length, true)];
+}
+
+function readTravelClass(r: UperReader): TravelClass {
+  return LEGACY_TRAVEL_CLASSES[
+    r.readEnumerated(LEGACY_TRAVEL_CLASSES.length, true)
+  ];
+}
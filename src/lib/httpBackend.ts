@@ -0,0 +1,190 @@
+/**
+ * Backend talking to a server over the REST API listed in backend.ts.
+ * The server issues and signs tickets itself; records come back as JSON
+ * PaymentRecords. Wrapped master secrets are stored on the server too: it
+ * grades the holder key assurance from the wrapped secrets it holds, not
+ * from anything the client declares. Payments go through the server's PSP,
+ * which it checks before issuing a ticket.
+ */
+
+import type { Backend, RideRedemption, ValidationEvent } from "./backend";
+import { jwkThumbprint } from "./crypto";
+import type { PaymentRecord, WrappedSecret } from "./fakeBackend";
+import { PaymentTimeoutError } from "./paymentProvider";
+import type { PaymentProvider, ProviderPayment } from "./paymentProvider";
+import type { SignedTimeToken } from "./timeAnchor";
+import type { SignedValidationBundle } from "./validationBundle";
+import type { SignedKeyList } from "./trust";
+
+export function createHttpBackend(baseUrl: string): Backend {
+  const root = baseUrl.replace(/\/+$/, "");
+
+  /** Send a request; null on 404, JSON body (or undefined) otherwise. */
+  const call = async <T>(
+    method: string,
+    path: string,
+    body?: unknown,
+    sessionToken?: string,
+  ): Promise<T | null> => {
+    const headers: Record<string, string> = {};
+    if (body !== undefined) headers["Content-Type"] = "application/json";
+    if (sessionToken) headers.Authorization = `Bearer ${sessionToken}`;
+    let response: Response;
+    try {
+      response = await fetch(root + path, {
+        method,
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+    } catch (err) {
+      throw new Error(
+        `Backend unreachable at ${root}: ${err instanceof Error ? err.message : String(err)}`,
+        { cause: err },
+      );
+    }
+    if (response.status === 404) return null;
+    // The PSP's answer was lost on the server's side
+    if (response.status === 504) throw new PaymentTimeoutError();
+    if (!response.ok) {
+      throw new Error(
+        `Backend ${method} ${path} failed: ${response.status} ${await response.text()}`,
+      );
+    }
+    return response.status === 204 ? (undefined as T) : response.json();
+  };
+
+  /** A PSP call; the provider's errors come back as 4xx. */
+  const psp = async (path: string, body?: unknown) => {
+    const payment = await call<ProviderPayment>("POST", `/psp${path}`, body);
+    if (!payment) throw new Error(`Backend at ${root} has no /psp${path}.`);
+    return payment;
+  };
+
+  const paymentProvider: PaymentProvider = {
+    createPayment: (request) => psp("/payments", request),
+    completeThreeDSecure: (paymentId, approved) =>
+      psp(`/payments/${encodeURIComponent(paymentId)}/3ds`, { approved }),
+    capturePayment: (paymentId) =>
+      psp(`/payments/${encodeURIComponent(paymentId)}/capture`),
+  };
+
+  return {
+    kind: "http",
+    description: `HTTP, ${root}`,
+    paymentProvider,
+
+    async storePayment(request) {
+      const record = await call<PaymentRecord>("POST", "/payments", request);
+      if (!record) throw new Error(`Backend at ${root} has no /payments.`);
+      return record;
+    },
+
+    async lookupByPublicKey(ecdsaPublicKey) {
+      const thumbprint = await jwkThumbprint(ecdsaPublicKey);
+      return call<PaymentRecord>("GET", `/payments/${thumbprint}`);
+    },
+
+    async listRecordsForAccount(accountId) {
+      return (
+        (await call<PaymentRecord[]>(
+          "GET",
+          `/accounts/${encodeURIComponent(accountId)}/payments`,
+        )) ?? []
+      );
+    },
+
+    async listAllRecords() {
+      return (await call<PaymentRecord[]>("GET", "/payments")) ?? [];
+    },
+
+    async deleteRecord(thumbprint) {
+      await call("DELETE", `/payments/${thumbprint}`);
+    },
+
+    async clearAllRecords() {
+      await call("DELETE", "/payments");
+    },
+
+    async revokeRecord(thumbprint, reason) {
+      const record = await call<PaymentRecord>(
+        "POST",
+        `/payments/${thumbprint}/revoke`,
+        { reason },
+      );
+      if (!record) throw new Error(`Unknown payment ${thumbprint}.`);
+      return record;
+    },
+
+    async refundPayment(thumbprint, reason) {
+      const record = await call<PaymentRecord>(
+        "POST",
+        `/payments/${thumbprint}/refund`,
+        { reason },
+      );
+      if (!record) throw new Error(`Unknown payment ${thumbprint}.`);
+      return record;
+    },
+
+    async redeemRide(thumbprint) {
+      const redemption = await call<RideRedemption>(
+        "POST",
+        `/payments/${thumbprint}/rides`,
+      );
+      if (!redemption) throw new Error(`Unknown payment ${thumbprint}.`);
+      return redemption;
+    },
+
+    async logValidation(event) {
+      await call("POST", "/validations", event);
+    },
+
+    async listValidations() {
+      return (await call<ValidationEvent[]>("GET", "/validations")) ?? [];
+    },
+
+    async fetchKeyList() {
+      const list = await call<SignedKeyList>("GET", "/issuer-keys");
+      if (!list) throw new Error(`Backend at ${root} has no /issuer-keys.`);
+      return list;
+    },
+
+    async exportValidationBundle(since) {
+      const path =
+        since === undefined
+          ? "/validation-bundle"
+          : `/validation-bundle/since/${since}`;
+      const bundle = await call<SignedValidationBundle>("GET", path);
+      if (!bundle) throw new Error(`Backend at ${root} has no ${path}.`);
+      return bundle;
+    },
+
+    async issueTimeToken() {
+      const token = await call<SignedTimeToken>("POST", "/time-tokens");
+      if (!token) throw new Error(`Backend at ${root} has no /time-tokens.`);
+      return token;
+    },
+
+    async storeWrappedSecret(sessionToken, wrapped) {
+      const path = `/wrapped-secrets/${encodeURIComponent(wrapped.credentialId)}`;
+      if ((await call("PUT", path, wrapped, sessionToken)) === null) {
+        throw new Error(`Backend at ${root} has no /wrapped-secrets.`);
+      }
+    },
+
+    async fetchWrappedSecret(credentialId) {
+      return call<WrappedSecret>(
+        "GET",
+        `/wrapped-secrets/${encodeURIComponent(credentialId)}`,
+      );
+    },
+
+    async listWrappedSecrets(accountId) {
+      return (
+        (await call<WrappedSecret[]>(
+          "GET",
+          `/accounts/${encodeURIComponent(accountId)}/wrapped-secrets`,
+        )) ?? []
+      );
+    },
+  };
+}
@@ -0,0 +1,110 @@
+/**
+ * Simulated backend keeping payment records in an IndexedDB object store,
+ * keyed by thumbprint, validation events in a second, auto-numbered one,
+ * and the redeemed PSP payments in a third, keyed by payment reference. Separate from the encrypted vault (vault.ts), which is the holder's
+ * copy; this database plays the server's.
+ */
+
+import type { Backend, ValidationEvent } from "./backend";
+import { createSimulatedBackend } from "./fakeBackend";
+import type { PaymentRecord, RecordStore } from "./fakeBackend";
+
+const DB_NAME = "dosipas-backend";
+const DB_VERSION = 3;
+const STORE = "payments";
+const VALIDATION_STORE = "validations";
+const REDEEMED_STORE = "redeemedPayments";
+
+export function createIndexedDbBackend(): Backend {
+  let db: Promise<IDBDatabase> | null = null;
+  const objectStore = async (mode: IDBTransactionMode, name = STORE) => {
+    db ??= openDatabase();
+    return (await db).transaction(name, mode).objectStore(name);
+  };
+
+  const store: RecordStore = {
+    async get(thumbprint) {
+      const record = await request(
+        (await objectStore("readonly")).get(thumbprint),
+      );
+      return (record as PaymentRecord | undefined) ?? null;
+    },
+
+    async put(record) {
+      await request((await objectStore("readwrite")).put(record));
+    },
+
+    async all() {
+      return (await request(
+        (await objectStore("readonly")).getAll(),
+      )) as PaymentRecord[];
+    },
+
+    async delete(thumbprint) {
+      await request((await objectStore("readwrite")).delete(thumbprint));
+    },
+
+    async clear() {
+      await request((await objectStore("readwrite")).clear());
+    },
+
+    async appendValidation(event) {
+      await request(
+        (await objectStore("readwrite", VALIDATION_STORE)).add(event),
+      );
+    },
+
+    async validations() {
+      return (await request(
+        (await objectStore("readonly", VALIDATION_STORE)).getAll(),
+      )) as ValidationEvent[];
+    },
+
+    async redeemedPayment(paymentRef) {
+      const redeemed = (await request(
+        (await objectStore("readonly", REDEEMED_STORE)).get(paymentRef),
+      )) as { thumbprint: string } | undefined;
+      return redeemed?.thumbprint ?? null;
+    },
+
+    async markPaymentRedeemed(paymentRef, thumbprint) {
+      await request(
+        (await objectStore("readwrite", REDEEMED_STORE)).put({
+          paymentRef,
+          thumbprint,
+        }),
+      );
+    },
+  };
+
+  return createSimulatedBackend(
+    "indexedDb",
+    `IndexedDB, database "${DB_NAME}", store "${STORE}"`,
+    store,
+  );
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const open = indexedDB.open(DB_NAME, DB_VERSION);
+  open.onupgradeneeded = () => {
+    const names = open.result.objectStoreNames;
+    if (!names.contains(STORE)) {
+      open.result.createObjectStore(STORE, { keyPath: "thumbprint" });
+    }
+    if (!names.contains(VALIDATION_STORE)) {
+      open.result.createObjectStore(VALIDATION_STORE, { autoIncrement: true });
+    }
+    if (!names.contains(REDEEMED_STORE)) {
+      open.result.createObjectStore(REDEEMED_STORE, { keyPath: "paymentRef" });
+    }
+  };
+  return request(open);
+}
+
+/** Promisify an IndexedDB request. */
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
@@ -0,0 +1,247 @@
+/**
+ * Fake backend issuer key registry.
+ *
+ * Issuer signing keys sign the DOSIPAS level 1 data of every ticket sold,
+ * and the time tokens the backend hands out (timeAnchor.ts).
+ * Level 1 holds the FCB ticket content together with the holder's public
+ * key (level2PublicKey), so the signature is the issuer's statement binding
+ * the holder key — and hence its JWK thumbprint — to that ticket.
+ *
+ * Key lifecycle:
+ *   - active   → the one key that signs new tickets
+ *   - rotated  → replaced by a newer key; still published until validUntil
+ *                so tickets it already signed keep verifying
+ *   - retired  → withdrawn (e.g. compromised); no longer published, so
+ *                verifiers reject every ticket it signed
+ *
+ * The published key list, and the verifiers' offline validation bundles
+ * (validationBundle.ts), are signed by a root key. The demo root key is
+ * derived from a fixed seed so its public half can be pinned in the
+ * verifier (see trust.ts); a real issuer would keep it offline in an HSM.
+ *
+ * Simulated REST endpoints:
+ *   - GET  /issuer-keys          → publishKeyList()
+ *   - POST /issuer-keys/rotate   → rotateIssuerKey()
+ *   - POST /issuer-keys/:id/retire → retireIssuerKey()
+ */
+
+import { deriveKeys, signBytes, signPayload } from "./crypto";
+import { encodeLevel1Data } from "./dosipas";
+import type { Level1Data } from "./dosipas";
+import { encodeTimeToken } from "./timeAnchor";
+import type { TimeToken } from "./timeAnchor";
+import { keyListSigningInput } from "./trust";
+import type { KeyList, SignedKeyList } from "./trust";
+import { validationBundleSigningInput } from "./validationBundle";
+import type {
+  SignedValidationBundle,
+  ValidationBundle,
+} from "./validationBundle";
+
+/** Security provider number written into level 1 data (demo value). */
+export const SECURITY_PROVIDER_NUM = 9999;
+
+/** Validity period of a freshly generated issuer key. */
+export const ISSUER_KEY_LIFETIME_DAYS = 90;
+
+const KEY_PREFIX = "dosipas-keys:";
+const LIST_VERSION_KEY = "dosipas-keys-meta:version";
+const ROOT_SEED = "dosipas-demo-issuer-key-v1";
+
+export type IssuerKeyState = "active" | "rotated" | "retired";
+
+export interface IssuerKeyRecord {
+  keyId: number;
+  securityProviderNum: number;
+  publicKeyJwk: JsonWebKey;
+  /** Backend-only: never published */
+  privateKeyJwk: JsonWebKey;
+  state: IssuerKeyState;
+  createdAt: string;
+  validFrom: string;
+  validUntil: string;
+  retiredAt?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+/** All issuer keys, newest first (for the backend explorer UI). */
+export function listIssuerKeys(): IssuerKeyRecord[] {
+  const keys: IssuerKeyRecord[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key && key.startsWith(KEY_PREFIX)) {
+      try {
+        keys.push(JSON.parse(localStorage.getItem(key)!) as IssuerKeyRecord);
+      } catch {
+        // skip malformed entries
+      }
+    }
+  }
+  return keys.sort((a, b) => b.keyId - a.keyId);
+}
+
+/**
+ * The key that signs new tickets. Generates the first key on first use, and
+ * rotates automatically once the active key has expired.
+ */
+export async function getActiveIssuerKey(): Promise<IssuerKeyRecord> {
+  const active = listIssuerKeys().find((k) => k.state === "active");
+  if (active && new Date(active.validUntil).getTime() > Date.now()) {
+    return active;
+  }
+  return rotateIssuerKey();
+}
+
+/** Generate a new active key; the previous active key becomes "rotated". */
+export async function rotateIssuerKey(): Promise<IssuerKeyRecord> {
+  const existing = listIssuerKeys();
+  for (const k of existing.filter((k) => k.state === "active")) {
+    saveKey({ ...k, state: "rotated" });
+  }
+
+  const pair = (await crypto.subtle.generateKey(
+    { name: "ECDSA", namedCurve: "P-256" },
+    true,
+    ["sign", "verify"],
+  )) as CryptoKeyPair;
+  const privateKeyJwk = await crypto.subtle.exportKey("jwk", pair.privateKey);
+  const publicJwk = await crypto.subtle.exportKey("jwk", pair.publicKey);
+
+  const now = new Date();
+  const record: IssuerKeyRecord = {
+    keyId: Math.max(0, ...existing.map((k) => k.keyId)) + 1,
+    securityProviderNum: SECURITY_PROVIDER_NUM,
+    publicKeyJwk: {
+      kty: publicJwk.kty,
+      crv: publicJwk.crv,
+      x: publicJwk.x,
+      y: publicJwk.y,
+    },
+    privateKeyJwk,
+    state: "active",
+    createdAt: now.toISOString(),
+    validFrom: now.toISOString(),
+    validUntil: new Date(
+      now.getTime() + ISSUER_KEY_LIFETIME_DAYS * 86_400_000,
+    ).toISOString(),
+  };
+  saveKey(record);
+  bumpListVersion();
+  return record;
+}
+
+/**
+ * Withdraw a key from the published list. Retiring the active key also
+ * rotates, so the issuer can keep selling tickets.
+ */
+export async function retireIssuerKey(keyId: number): Promise<void> {
+  const key = listIssuerKeys().find((k) => k.keyId === keyId);
+  if (!key) throw new Error(`Unknown issuer key ${keyId}.`);
+  saveKey({ ...key, state: "retired", retiredAt: new Date().toISOString() });
+  bumpListVersion();
+  if (key.state === "active") await rotateIssuerKey();
+}
+
+/** Build and root-sign the list of non-retired issuer public keys. */
+export async function publishKeyList(): Promise<SignedKeyList> {
+  const list: KeyList = {
+    version: Number(localStorage.getItem(LIST_VERSION_KEY) ?? "0"),
+    issuedAt: new Date().toISOString(),
+    keys: listIssuerKeys()
+      .filter((k) => k.state !== "retired")
+      .map((k) => ({
+        securityProviderNum: k.securityProviderNum,
+        keyId: k.keyId,
+        publicKeyJwk: k.publicKeyJwk,
+        validFrom: k.validFrom,
+        validUntil: k.validUntil,
+      })),
+  };
+  const signature = await signPayload(
+    await rootPrivateKey(),
+    keyListSigningInput(list),
+  );
+  return { ...list, signature };
+}
+
+/** Sign a validation bundle with the root key. */
+export async function signValidationBundle(
+  bundle: ValidationBundle,
+): Promise<SignedValidationBundle> {
+  const signature = await signPayload(
+    await rootPrivateKey(),
+    validationBundleSigningInput(bundle),
+  );
+  return { ...bundle, signature };
+}
+
+// ---------------------------------------------------------------------------
+// Signing
+// ---------------------------------------------------------------------------
+
+/**
+ * Sign the UPER encoding of level 1 data with the given issuer key
+ * (ASN.1 DER signature). The level 1 data must reference that key's ID.
+ */
+export async function signLevel1Data(
+  key: IssuerKeyRecord,
+  data: Level1Data,
+): Promise<Uint8Array> {
+  if (data.keyId !== key.keyId) {
+    throw new Error("Level 1 data references a different issuer key.");
+  }
+  return signBytes(await importSigningKey(key), encodeLevel1Data(data));
+}
+
+/** Sign the UPER encoding of a time token with the issuer key it names. */
+export async function signTimeToken(
+  key: IssuerKeyRecord,
+  token: TimeToken,
+): Promise<Uint8Array> {
+  if (token.keyId !== key.keyId) {
+    throw new Error("Time token references a different issuer key.");
+  }
+  return signBytes(await importSigningKey(key), encodeTimeToken(token));
+}
+
+// ---------------------------------------------------------------------------
+// Internals
+// ---------------------------------------------------------------------------
+
+function importSigningKey(key: IssuerKeyRecord): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "jwk",
+    key.privateKeyJwk,
+    { name: "ECDSA", namedCurve: "P-256" },
+    false,
+    ["sign"],
+  );
+}
+
+function saveKey(key: IssuerKeyRecord): void {
+  localStorage.setItem(KEY_PREFIX + key.keyId, JSON.stringify(key));
+}
+
+function bumpListVersion(): void {
+  const version = Number(localStorage.getItem(LIST_VERSION_KEY) ?? "0") + 1;
+  localStorage.setItem(LIST_VERSION_KEY, String(version));
+}
+
+let rootKeyPromise: Promise<CryptoKey> | null = null;
+
+async function rootPrivateKey(): Promise<CryptoKey> {
+  if (!rootKeyPromise) {
+    rootKeyPromise = (async () => {
+      const seed = await crypto.subtle.digest(
+        "SHA-256",
+        new TextEncoder().encode(ROOT_SEED),
+      );
+      const keys = await deriveKeys(new Uint8Array(seed));
+      return keys.ecdsaKeyPair.privateKey;
+    })();
+  }
+  return rootKeyPromise;
+}
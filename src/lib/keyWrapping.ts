@@ -0,0 +1,248 @@
+/**
+ * Account master secret wrapped per passkey.
+ *
+ * Every key the app uses (vault AES key, ticket ECDSA keys) derives from a
+ * random 32-byte master secret, not from a credential's PRF output. The
+ * master secret is wrapped separately for each enrolled credential:
+ *
+ *   KEK     = HKDF(PRF output, info "dosipas-master-kek")   (AES-GCM-256)
+ *   wrapped = AES-GCM(KEK, masterSecret, AAD = account + credential)
+ *
+ * Authenticators without PRF fall back to a passphrase: PBKDF2-SHA256 with
+ * a random salt and a per-blob iteration count stands in for the PRF
+ * output. A passphrase can be brute-forced offline from the wrapped blob,
+ * so this is a weaker assurance level, recorded on the tickets issued to
+ * the account.
+ *
+ * The wrapped blobs live in the selected backend, one per credential, so a
+ * user can enroll a backup passkey and sign in with either one to recover
+ * the same keys. A copy of this device's blob is kept locally so the vault
+ * can still be unlocked during a backend outage.
+ */
+
+import type { Backend } from "./backend";
+import { base64urlDecode, base64urlEncode } from "./crypto";
+import type { WrappedSecret } from "./fakeBackend";
+
+const DEVICE_CACHE_PREFIX = "dosipas-device:wrapped:";
+const AAD_PREFIX = "dosipas-wrap-v1";
+
+/** Default PBKDF2-SHA256 cost for new passphrase blobs. */
+export const DEFAULT_PBKDF2_ITERATIONS = 600_000;
+
+/** Minimum accepted cost, so a blob cannot be enrolled with a trivial KDF. */
+export const MIN_PBKDF2_ITERATIONS = 100_000;
+
+/** What unlocks a wrapped master secret. */
+export type UnlockSecret =
+  | { kind: "prf"; prfOutput: Uint8Array }
+  | { kind: "passphrase"; passphrase: string; iterations?: number };
+
+/** Fresh random master secret for a new account. */
+export function generateMasterSecret(): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(32));
+}
+
+/**
+ * Wrap the master secret for a credential, store the blob in the backend
+ * and keep a copy on this device. The backend takes it from a session the
+ * credential opened.
+ */
+export async function enrollCredential(params: {
+  backend: Backend;
+  /** Session token of a verified assertion by that credential */
+  sessionToken: string;
+  masterSecret: Uint8Array;
+  unlock: UnlockSecret;
+  credentialId: string;
+  accountId: string;
+}): Promise<WrappedSecret> {
+  let kdf: Pick<WrappedSecret, "kdf" | "kdfSalt" | "kdfIterations">;
+  let kek: CryptoKey;
+  if (params.unlock.kind === "prf") {
+    kdf = { kdf: "prf" };
+    kek = await deriveKek(params.unlock.prfOutput);
+  } else {
+    const iterations =
+      params.unlock.iterations ?? DEFAULT_PBKDF2_ITERATIONS;
+    if (iterations < MIN_PBKDF2_ITERATIONS) {
+      throw new Error(
+        `PBKDF2 cost must be at least ${MIN_PBKDF2_ITERATIONS} iterations.`,
+      );
+    }
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    kdf = {
+      kdf: "pbkdf2",
+      kdfSalt: base64urlEncode(salt),
+      kdfIterations: iterations,
+    };
+    kek = await deriveKek(
+      await passphraseSecret(params.unlock.passphrase, salt, iterations),
+    );
+  }
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    {
+      name: "AES-GCM",
+      iv: iv as BufferSource,
+      additionalData: associatedData(
+        params.accountId,
+        params.credentialId,
+      ) as BufferSource,
+    },
+    kek,
+    params.masterSecret as BufferSource,
+  );
+  const wrapped: WrappedSecret = {
+    credentialId: params.credentialId,
+    accountId: params.accountId,
+    ...kdf,
+    iv: base64urlEncode(iv),
+    ciphertext: base64urlEncode(new Uint8Array(ciphertext)),
+    createdAt: new Date().toISOString(),
+  };
+  await params.backend.storeWrappedSecret(params.sessionToken, wrapped);
+  localStorage.setItem(
+    DEVICE_CACHE_PREFIX + wrapped.credentialId,
+    JSON.stringify(wrapped),
+  );
+  return wrapped;
+}
+
+/**
+ * Load a credential's wrapped master secret: from the backend, or this
+ * device's copy when the backend is unavailable. Returns null when the
+ * credential has none (not enrolled, or revoked — in which case the device
+ * copy is dropped as well).
+ */
+export async function loadWrappedSecret(
+  backend: Backend,
+  credentialId: string,
+): Promise<{
+  wrapped: WrappedSecret;
+  source: "backend" | "device";
+} | null> {
+  try {
+    const wrapped = await backend.fetchWrappedSecret(credentialId);
+    if (!wrapped) {
+      forgetWrappedSecret(credentialId);
+      return null;
+    }
+    localStorage.setItem(
+      DEVICE_CACHE_PREFIX + credentialId,
+      JSON.stringify(wrapped),
+    );
+    return { wrapped, source: "backend" };
+  } catch {
+    const raw = localStorage.getItem(DEVICE_CACHE_PREFIX + credentialId);
+    return raw
+      ? { wrapped: JSON.parse(raw) as WrappedSecret, source: "device" }
+      : null;
+  }
+}
+
+/** Unwrap the master secret with the credential's PRF output or passphrase. */
+export async function unwrapMasterSecret(
+  wrapped: WrappedSecret,
+  unlock: UnlockSecret,
+): Promise<Uint8Array> {
+  let kek: CryptoKey;
+  if (wrapped.kdf === "pbkdf2") {
+    if (unlock.kind !== "passphrase") {
+      throw new Error("This passkey's master secret is protected by a passphrase.");
+    }
+    kek = await deriveKek(
+      await passphraseSecret(
+        unlock.passphrase,
+        base64urlDecode(wrapped.kdfSalt!),
+        wrapped.kdfIterations!,
+      ),
+    );
+  } else {
+    if (unlock.kind !== "prf") {
+      throw new Error("This passkey's master secret is protected by PRF.");
+    }
+    kek = await deriveKek(unlock.prfOutput);
+  }
+
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      {
+        name: "AES-GCM",
+        iv: base64urlDecode(wrapped.iv) as BufferSource,
+        additionalData: associatedData(
+          wrapped.accountId,
+          wrapped.credentialId,
+        ) as BufferSource,
+      },
+      kek,
+      base64urlDecode(wrapped.ciphertext) as BufferSource,
+    );
+  } catch {
+    throw new Error(
+      wrapped.kdf === "pbkdf2"
+        ? "Wrong passphrase."
+        : "This passkey's PRF output does not unwrap the master secret.",
+    );
+  }
+  return new Uint8Array(plaintext);
+}
+
+/** Drop this device's copy of a credential's wrapped secret. */
+export function forgetWrappedSecret(credentialId: string): void {
+  localStorage.removeItem(DEVICE_CACHE_PREFIX + credentialId);
+}
+
+// ---------------------------------------------------------------------------
+// Internals
+// ---------------------------------------------------------------------------
+
+async function deriveKek(prfOutput: Uint8Array): Promise<CryptoKey> {
+  const ikm = await crypto.subtle.importKey(
+    "raw",
+    prfOutput as BufferSource,
+    "HKDF",
+    false,
+    ["deriveKey"],
+  );
+  return crypto.subtle.deriveKey(
+    {
+      name: "HKDF",
+      hash: "SHA-256",
+      salt: new Uint8Array(32) as BufferSource,
+      info: new TextEncoder().encode("dosipas-master-kek") as BufferSource,
+    },
+    ikm,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+/** PBKDF2-SHA256 of the passphrase: 32 bytes standing in for a PRF output. */
+async function passphraseSecret(
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number,
+): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase.normalize("NFKC")) as BufferSource,
+    "PBKDF2",
+    false,
+    ["deriveBits"],
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt: salt as BufferSource, iterations },
+    key,
+    256,
+  );
+  return new Uint8Array(bits);
+}
+
+function associatedData(accountId: string, credentialId: string): Uint8Array {
+  return new TextEncoder().encode(
+    `${AAD_PREFIX}\0${accountId}/${credentialId}`,
+  );
+}
@@ -0,0 +1,91 @@
+/**
+ * Simulated backend keeping payment records in localStorage, one key per
+ * record (the demo's original store), the validation log under a single
+ * key, and the redeemed PSP payments one key each.
+ */
+
+import type { Backend, ValidationEvent } from "./backend";
+import { createSimulatedBackend } from "./fakeBackend";
+import type { PaymentRecord, RecordStore } from "./fakeBackend";
+
+const STORAGE_PREFIX = "dosipas:";
+const VALIDATION_LOG_KEY = "dosipas-validations";
+const REDEEMED_PREFIX = "dosipas-redeemed:";
+/** Oldest validation events are dropped past this many */
+const VALIDATION_LOG_LIMIT = 500;
+
+export function createLocalStorageBackend(): Backend {
+  return createSimulatedBackend(
+    "localStorage",
+    `localStorage, keys "${STORAGE_PREFIX}<thumbprint>"`,
+    localStorageStore,
+  );
+}
+
+const localStorageStore: RecordStore = {
+  async get(thumbprint) {
+    const raw = localStorage.getItem(STORAGE_PREFIX + thumbprint);
+    return raw ? (JSON.parse(raw) as PaymentRecord) : null;
+  },
+
+  async put(record) {
+    localStorage.setItem(
+      STORAGE_PREFIX + record.thumbprint,
+      JSON.stringify(record),
+    );
+  },
+
+  async all() {
+    const records: PaymentRecord[] = [];
+    for (const key of recordKeys()) {
+      try {
+        records.push(JSON.parse(localStorage.getItem(key)!) as PaymentRecord);
+      } catch {
+        // skip malformed entries
+      }
+    }
+    return records;
+  },
+
+  async delete(thumbprint) {
+    localStorage.removeItem(STORAGE_PREFIX + thumbprint);
+  },
+
+  async clear() {
+    recordKeys().forEach((k) => localStorage.removeItem(k));
+  },
+
+  async appendValidation(event) {
+    const log = [...validationLog(), event];
+    localStorage.setItem(
+      VALIDATION_LOG_KEY,
+      JSON.stringify(log.slice(-VALIDATION_LOG_LIMIT)),
+    );
+  },
+
+  async validations() {
+    return validationLog();
+  },
+
+  async redeemedPayment(paymentRef) {
+    return localStorage.getItem(REDEEMED_PREFIX + paymentRef);
+  },
+
+  async markPaymentRedeemed(paymentRef, thumbprint) {
+    localStorage.setItem(REDEEMED_PREFIX + paymentRef, thumbprint);
+  },
+};
+
+function validationLog(): ValidationEvent[] {
+  const raw = localStorage.getItem(VALIDATION_LOG_KEY);
+  return raw ? (JSON.parse(raw) as ValidationEvent[]) : [];
+}
+
+function recordKeys(): string[] {
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key && key.startsWith(STORAGE_PREFIX)) keys.push(key);
+  }
+  return keys;
+}
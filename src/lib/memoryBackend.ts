@@ -0,0 +1,47 @@
+/**
+ * Simulated backend keeping payment records in a Map. Nothing survives a
+ * reload, which makes it the backend for tests and throwaway sessions.
+ */
+
+import type { Backend, ValidationEvent } from "./backend";
+import { createSimulatedBackend } from "./fakeBackend";
+import type { PaymentRecord, RecordStore } from "./fakeBackend";
+
+/** A fresh, empty (or `seed`-filled) in-memory backend. */
+export function createMemoryBackend(seed: PaymentRecord[] = []): Backend {
+  const records = new Map(seed.map((r) => [r.thumbprint, r]));
+  const validations: ValidationEvent[] = [];
+  const redeemed = new Map<string, string>();
+
+  const store: RecordStore = {
+    async get(thumbprint) {
+      return records.get(thumbprint) ?? null;
+    },
+    async put(record) {
+      records.set(record.thumbprint, record);
+    },
+    async all() {
+      return [...records.values()];
+    },
+    async delete(thumbprint) {
+      records.delete(thumbprint);
+    },
+    async clear() {
+      records.clear();
+    },
+    async appendValidation(event) {
+      validations.push(event);
+    },
+    async validations() {
+      return [...validations];
+    },
+    async redeemedPayment(paymentRef) {
+      return redeemed.get(paymentRef) ?? null;
+    },
+    async markPaymentRedeemed(paymentRef, thumbprint) {
+      redeemed.set(paymentRef, thumbprint);
+    },
+  };
+
+  return createSimulatedBackend("memory", "in-memory, lost on reload", store);
+}
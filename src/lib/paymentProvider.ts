@@ -0,0 +1,274 @@
+/**
+ * Simulated payment service provider (PSP).
+ *
+ * Stands in for a card processor so the payment screen can exercise
+ * declines, 3-D Secure challenges and timeouts with test card numbers.
+ * Payments are kept in localStorage and follow a status lifecycle:
+ *
+ *   pending → authorized → captured
+ *      └────→ failed
+ *
+ * A payment needing 3-D Secure stays pending until the cardholder answers
+ * the challenge. Every payment is created with an idempotency key: the
+ * same key again (double click, retry after a timeout) returns the
+ * original payment instead of charging twice, and reusing it for another
+ * amount or card is refused.
+ *
+ * The payment screen drives the provider its backend takes payments
+ * through (Backend.paymentProvider): this in-page one for the simulated
+ * backends, the mock server's for the HTTP one. Before issuing a ticket
+ * the backend looks the payment up (getPayment()) to check it was
+ * captured for the order's price.
+ *
+ * This module simulates these REST endpoints:
+ *   - POST /payments (Idempotency-Key header) → createPayment()
+ *   - POST /payments/:id/3ds                  → completeThreeDSecure()
+ *   - POST /payments/:id/capture              → capturePayment()
+ *   - GET  /payments/:id                      → getPayment()
+ */
+
+const PAYMENT_PREFIX = "dosipas-psp:";
+/** Simulated processing time of a provider call */
+const PROVIDER_LATENCY_MS = 800;
+/** How long the client waits for the provider before giving up */
+const CLIENT_TIMEOUT_MS = 5000;
+
+export type PaymentStatus = "pending" | "authorized" | "captured" | "failed";
+
+export type TestCardBehavior =
+  | "succeed"
+  | "threeDSecure"
+  | "decline"
+  | "insufficientFunds"
+  /** The provider authorizes the payment but its answer never arrives */
+  | "timeout";
+
+export const TEST_CARDS: {
+  number: string;
+  behavior: TestCardBehavior;
+  label: string;
+}[] = [
+  { number: "4242424242424242", behavior: "succeed", label: "Succeeds" },
+  {
+    number: "4000000000003220",
+    behavior: "threeDSecure",
+    label: "3-D Secure challenge",
+  },
+  { number: "4000000000000002", behavior: "decline", label: "Declined" },
+  {
+    number: "4000000000009995",
+    behavior: "insufficientFunds",
+    label: "Insufficient funds",
+  },
+  { number: "4000000000000119", behavior: "timeout", label: "Times out" },
+];
+
+export interface ProviderPayment {
+  /** Provider payment ID, used as the ticket's payment reference */
+  id: string;
+  idempotencyKey: string;
+  /** Minor units */
+  amount: number;
+  currency: string;
+  cardLast4: string;
+  status: PaymentStatus;
+  /** State of the 3-D Secure challenge, for cards that require one */
+  threeDSecure?: "required" | "succeeded" | "failed";
+  /** Why the payment failed, in words */
+  failureReason?: string;
+  /** Status changes, oldest first */
+  history: { status: PaymentStatus; at: string }[];
+}
+
+export interface CreatePaymentRequest {
+  idempotencyKey: string;
+  /** Minor units */
+  amount: number;
+  currency: string;
+  cardNumber: string;
+}
+
+/** A provider as the payment screen uses it. */
+export interface PaymentProvider {
+  createPayment(request: CreatePaymentRequest): Promise<ProviderPayment>;
+  completeThreeDSecure(
+    paymentId: string,
+    approved: boolean,
+  ): Promise<ProviderPayment>;
+  capturePayment(paymentId: string): Promise<ProviderPayment>;
+}
+
+/** The provider did not answer in time; the payment may have gone through. */
+export class PaymentTimeoutError extends Error {
+  constructor() {
+    super(
+      "The payment provider did not answer in time. Retrying is safe: you will not be charged twice.",
+    );
+    this.name = new.target.name;
+  }
+}
+
+/** Calls in flight per idempotency key, so concurrent repeats share one. */
+const inFlight = new Map<string, Promise<ProviderPayment>>();
+
+/**
+ * Create and authorize a payment. Resolves with the payment whatever its
+ * outcome (failed, or pending a 3-D Secure challenge); rejects with
+ * PaymentTimeoutError when the provider's answer is lost.
+ */
+export function createPayment(
+  request: CreatePaymentRequest,
+): Promise<ProviderPayment> {
+  const { idempotencyKey } = request;
+  const running = inFlight.get(idempotencyKey);
+  if (running) return running;
+  const promise = processPayment(request).finally(() =>
+    inFlight.delete(idempotencyKey),
+  );
+  inFlight.set(idempotencyKey, promise);
+  return promise;
+}
+
+async function processPayment(
+  request: CreatePaymentRequest,
+): Promise<ProviderPayment> {
+  const cardNumber = request.cardNumber.replace(/\D/g, "");
+  const existing = listPayments().find(
+    (p) => p.idempotencyKey === request.idempotencyKey,
+  );
+  if (existing) {
+    if (
+      existing.amount !== request.amount ||
+      existing.currency !== request.currency ||
+      existing.cardLast4 !== cardNumber.slice(-4)
+    ) {
+      throw new Error(
+        `Idempotency key ${request.idempotencyKey} was used for another payment.`,
+      );
+    }
+    await delay(PROVIDER_LATENCY_MS);
+    return existing;
+  }
+
+  let payment = savePayment({
+    id: `PAY-${crypto.randomUUID()}`,
+    idempotencyKey: request.idempotencyKey,
+    amount: request.amount,
+    currency: request.currency,
+    cardLast4: cardNumber.slice(-4),
+    status: "pending",
+    history: [{ status: "pending", at: new Date().toISOString() }],
+  });
+  await delay(PROVIDER_LATENCY_MS);
+
+  const card = TEST_CARDS.find((c) => c.number === cardNumber);
+  switch (card?.behavior) {
+    case "succeed":
+    case "timeout":
+      payment = transition(payment, "authorized");
+      break;
+    case "threeDSecure":
+      payment = savePayment({ ...payment, threeDSecure: "required" });
+      break;
+    case "decline":
+      payment = transition(payment, "failed", "The card was declined.");
+      break;
+    case "insufficientFunds":
+      payment = transition(payment, "failed", "Insufficient funds.");
+      break;
+    default:
+      payment = transition(
+        payment,
+        "failed",
+        "Unknown card number: use one of the test cards.",
+      );
+  }
+
+  if (card?.behavior === "timeout") {
+    await delay(CLIENT_TIMEOUT_MS - PROVIDER_LATENCY_MS);
+    throw new PaymentTimeoutError();
+  }
+  return payment;
+}
+
+/** Answer a payment's 3-D Secure challenge, as the cardholder's bank. */
+export async function completeThreeDSecure(
+  paymentId: string,
+  approved: boolean,
+): Promise<ProviderPayment> {
+  const payment = getPayment(paymentId);
+  if (payment.status !== "pending" || payment.threeDSecure !== "required") {
+    throw new Error(`Payment ${paymentId} has no 3-D Secure challenge.`);
+  }
+  await delay(PROVIDER_LATENCY_MS);
+  return approved
+    ? transition({ ...payment, threeDSecure: "succeeded" }, "authorized")
+    : transition(
+        { ...payment, threeDSecure: "failed" },
+        "failed",
+        "3-D Secure authentication failed.",
+      );
+}
+
+/** Capture an authorized payment. Capturing it again is a no-op. */
+export async function capturePayment(
+  paymentId: string,
+): Promise<ProviderPayment> {
+  const payment = getPayment(paymentId);
+  if (payment.status === "captured") return payment;
+  if (payment.status !== "authorized") {
+    throw new Error(`Payment ${paymentId} is ${payment.status}.`);
+  }
+  await delay(PROVIDER_LATENCY_MS);
+  return transition(payment, "captured");
+}
+
+/** The in-page provider, shared by the simulated backends. */
+export const simulatedPaymentProvider: PaymentProvider = {
+  createPayment,
+  completeThreeDSecure,
+  capturePayment,
+};
+
+export function getPayment(paymentId: string): ProviderPayment {
+  const raw = localStorage.getItem(PAYMENT_PREFIX + paymentId);
+  if (!raw) throw new Error(`Unknown payment ${paymentId}.`);
+  return JSON.parse(raw) as ProviderPayment;
+}
+
+/** All payments known to the provider. */
+export function listPayments(): ProviderPayment[] {
+  const payments: ProviderPayment[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key || !key.startsWith(PAYMENT_PREFIX)) continue;
+    payments.push(JSON.parse(localStorage.getItem(key)!) as ProviderPayment);
+  }
+  return payments;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function transition(
+  payment: ProviderPayment,
+  status: PaymentStatus,
+  failureReason?: string,
+): ProviderPayment {
+  return savePayment({
+    ...payment,
+    status,
+    failureReason,
+    history: [...payment.history, { status, at: new Date().toISOString() }],
+  });
+}
+
+function savePayment(payment: ProviderPayment): ProviderPayment {
+  localStorage.setItem(PAYMENT_PREFIX + payment.id, JSON.stringify(payment));
+  return payment;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((r) => setTimeout(r, ms));
+}
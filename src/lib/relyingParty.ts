@@ -0,0 +1,790 @@
+/**
+ * Fake backend WebAuthn relying party.
+ *
+ * Issues single-use challenges and verifies what the authenticator returns,
+ * the way a server-side RP library would:
+ *   - registration: clientDataJSON (type, challenge, origin), the CBOR
+ *     attestation object (authenticator data, attestation statement) and
+ *     the credential's COSE public key, stored per account;
+ *   - authentication: clientDataJSON, authenticator data (rpIdHash, UP/UV
+ *     flags, sign counter) and the ES256 assertion signature against the
+ *     stored public key. A verified assertion opens a session, whose
+ *     signed token (sessionToken.ts) authorizes account changes and the
+ *     storage of wrapped master secrets.
+ *
+ * Only ES256 credentials are accepted (the only algorithm the app offers).
+ * Attestation formats "none" and self-attested "packed" are supported; the
+ * app requests no attestation, so certificate chains are not expected.
+ *
+ * Simulated REST endpoints:
+ *   - POST /webauthn/register/options → beginRegistration()
+ *   - POST /webauthn/register         → finishRegistration()
+ *   - POST /webauthn/login/options    → beginAuthentication()
+ *   - POST /webauthn/login            → finishAuthentication()
+ *   - POST /credentials/options (session token) → beginAddCredential()
+ *   - PATCH  /credentials/:id (session token) → renameCredential()
+ *   - DELETE /credentials/:id (session token) → revokeCredential()
+ */
+
+import { decodeCbor, decodeCborPrefix, cborMapGet } from "./cbor";
+import type { CborValue } from "./cbor";
+import {
+  base64urlDecode,
+  base64urlEncode,
+  bytesEqual,
+  bytesToHex,
+  importEcdsaPublicKey,
+  verifyBytes,
+} from "./crypto";
+import { assertOnline, deleteWrappedSecret } from "./fakeBackend";
+import { signSessionToken } from "./sessionToken";
+import type { AssertionResponse, AttestationResponse } from "./webauthn";
+
+const ACCOUNT_PREFIX = "dosipas-rp-account:";
+const CREDENTIAL_PREFIX = "dosipas-rp-credential:";
+const CHALLENGE_PREFIX = "dosipas-rp-challenge:";
+const SESSION_PREFIX = "dosipas-rp-session:";
+
+/** Lifetime of an issued challenge. */
+const CHALLENGE_TTL_MS = 5 * 60_000;
+
+/** Lifetime of a session opened by a verified assertion. */
+const SESSION_TTL_MS = 30 * 60_000;
+
+/** How recent the assertion must be to add a passkey to the account. */
+const REAUTHENTICATION_WINDOW_MS = 5 * 60_000;
+
+/** COSE algorithm identifier for ECDSA P-256 / SHA-256. */
+const COSE_ALG_ES256 = -7;
+
+const MAX_CREDENTIAL_NAME_LENGTH = 64;
+
+type Ceremony = "webauthn.create" | "webauthn.get";
+
+export interface RpAccount {
+  /** WebAuthn user handle (base64url) */
+  userHandle: string;
+  email: string;
+  createdAt: string;
+}
+
+export interface StoredCredential {
+  /** Credential ID (base64url) */
+  credentialId: string;
+  /** Owning account's user handle (base64url) */
+  userHandle: string;
+  /** User-chosen label */
+  name: string;
+  publicKeyJwk: JsonWebKey;
+  /** COSE algorithm identifier */
+  algorithm: number;
+  signCount: number;
+  /** Authenticator model (hex, all zeros when not disclosed) */
+  aaguid: string;
+  attestationFormat: string;
+  transports: string[];
+  /** The client reported the PRF extension enabled at registration */
+  prfEnabled: boolean;
+  backupEligible: boolean;
+  backedUp: boolean;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+interface StoredChallenge {
+  ceremony: Ceremony;
+  expiresAt: string;
+  /** Registration: account to create once the credential verifies */
+  userHandle?: string;
+  email?: string;
+  /** Authentication: credential the challenge was issued for, if any */
+  credentialId?: string;
+}
+
+interface StoredSession {
+  /** Account the session is signed in to */
+  userHandle: string;
+  /** Credential whose assertion opened the session */
+  credentialId: string;
+  authenticatedAt: string;
+  expiresAt: string;
+}
+
+export interface AuthenticatorFlags {
+  userPresent: boolean;
+  userVerified: boolean;
+  backupEligible: boolean;
+  backedUp: boolean;
+  attestedCredentialData: boolean;
+  extensionData: boolean;
+}
+
+export interface AuthenticatorData {
+  rpIdHash: Uint8Array;
+  flags: AuthenticatorFlags;
+  signCount: number;
+  attestedCredentialData?: {
+    aaguid: Uint8Array;
+    credentialId: Uint8Array;
+    credentialPublicKey: CborValue;
+  };
+}
+
+/** A credential the authenticator must not register again. */
+export interface ExcludedCredential {
+  id: Uint8Array;
+  transports: string[];
+}
+
+// ---------------------------------------------------------------------------
+// Registration
+// ---------------------------------------------------------------------------
+
+/**
+ * Issue a registration challenge and the user handle of a new account.
+ * If the email already has an account, its credentials are excluded so an
+ * authenticator holding one refuses to create a duplicate.
+ */
+export async function beginRegistration(email: string): Promise<{
+  challenge: Uint8Array;
+  userHandle: Uint8Array;
+  excludeCredentials: ExcludedCredential[];
+}> {
+  assertOnline();
+  const userHandle = crypto.getRandomValues(new Uint8Array(16));
+  const challenge = issueChallenge({
+    ceremony: "webauthn.create",
+    userHandle: base64urlEncode(userHandle),
+    email,
+  });
+  const existing = findAccountByEmail(email);
+  return {
+    challenge,
+    userHandle,
+    excludeCredentials: existing ? excludedCredentials(existing.userHandle) : [],
+  };
+}
+
+/**
+ * Issue a registration challenge for an additional (backup) credential of
+ * the session's account. The session must come from an assertion of the
+ * last few minutes: a stolen or forgotten session cannot add a passkey.
+ */
+export async function beginAddCredential(sessionToken: string): Promise<{
+  challenge: Uint8Array;
+  userHandle: Uint8Array;
+  email: string;
+  excludeCredentials: ExcludedCredential[];
+}> {
+  assertOnline();
+  const { userHandle } = activeSession(
+    sessionToken,
+    REAUTHENTICATION_WINDOW_MS,
+  );
+  const account = getAccount(userHandle);
+  if (!account) throw new Error("Unknown account.");
+  const challenge = issueChallenge({
+    ceremony: "webauthn.create",
+    userHandle,
+    email: account.email,
+  });
+  return {
+    challenge,
+    userHandle: base64urlDecode(userHandle),
+    email: account.email,
+    excludeCredentials: excludedCredentials(userHandle),
+  };
+}
+
+/**
+ * Verify a registration response and store the credential's public key
+ * under the account of the challenge (created on first registration).
+ * A second account is never created for an email: further passkeys are
+ * added from a signed-in session (beginAddCredential).
+ */
+export async function finishRegistration(
+  credentialId: Uint8Array,
+  response: AttestationResponse,
+): Promise<{ account: RpAccount; credential: StoredCredential }> {
+  assertOnline();
+  const pending = verifyClientData(response.clientDataJSON, "webauthn.create");
+
+  const attestation = decodeCbor(response.attestationObject);
+  const fmt = cborMapGet(attestation, "fmt");
+  const attStmt = cborMapGet(attestation, "attStmt");
+  const authDataBytes = cborMapGet(attestation, "authData");
+  if (typeof fmt !== "string" || !(authDataBytes instanceof Uint8Array)) {
+    throw new Error("Malformed attestation object.");
+  }
+
+  const authData = parseAuthenticatorData(authDataBytes);
+  await verifyAuthenticatorData(authData);
+  const attested = authData.attestedCredentialData;
+  if (!attested) {
+    throw new Error("Authenticator data has no attested credential data.");
+  }
+  if (!bytesEqual(attested.credentialId, credentialId)) {
+    throw new Error("Attested credential ID does not match the response.");
+  }
+
+  const credentialIdB64u = base64urlEncode(credentialId);
+  if (localStorage.getItem(CREDENTIAL_PREFIX + credentialIdB64u)) {
+    throw new Error("Credential is already registered.");
+  }
+
+  const { jwk, alg } = coseKeyToJwk(attested.credentialPublicKey);
+  await verifyAttestationStatement(
+    fmt,
+    attStmt,
+    authDataBytes,
+    response.clientDataJSON,
+    jwk,
+  );
+
+  const now = new Date().toISOString();
+  const existing = getAccount(pending.userHandle!);
+  if (!existing && findAccountByEmail(pending.email!)) {
+    throw new Error(
+      `An account already exists for ${pending.email}: sign in with one of its passkeys and add this one as a backup.`,
+    );
+  }
+  const account: RpAccount = existing ?? {
+    userHandle: pending.userHandle!,
+    email: pending.email!,
+    createdAt: now,
+  };
+  const credential: StoredCredential = {
+    credentialId: credentialIdB64u,
+    userHandle: account.userHandle,
+    name: defaultCredentialName(
+      response.transports,
+      listCredentials(account.userHandle).length,
+    ),
+    publicKeyJwk: jwk,
+    algorithm: alg,
+    signCount: authData.signCount,
+    aaguid: bytesToHex(attested.aaguid),
+    attestationFormat: fmt,
+    transports: response.transports,
+    prfEnabled: response.prfEnabled,
+    backupEligible: authData.flags.backupEligible,
+    backedUp: authData.flags.backedUp,
+    createdAt: now,
+    lastUsedAt: null,
+  };
+  localStorage.setItem(
+    ACCOUNT_PREFIX + account.userHandle,
+    JSON.stringify(account),
+  );
+  saveCredential(credential);
+  return { account, credential };
+}
+
+// ---------------------------------------------------------------------------
+// Authentication
+// ---------------------------------------------------------------------------
+
+/** Issue an authentication challenge, optionally scoped to one credential. */
+export async function beginAuthentication(
+  credentialId?: Uint8Array,
+): Promise<{ challenge: Uint8Array }> {
+  assertOnline();
+  const challenge = issueChallenge({
+    ceremony: "webauthn.get",
+    credentialId: credentialId && base64urlEncode(credentialId),
+  });
+  return { challenge };
+}
+
+/**
+ * Verify an assertion against the stored credential public key, enforce
+ * the sign counter and return the authenticated account, with the token of
+ * the session the assertion opens.
+ */
+export async function finishAuthentication(
+  credentialId: Uint8Array,
+  response: AssertionResponse,
+): Promise<{
+  account: RpAccount;
+  credential: StoredCredential;
+  sessionToken: string;
+}> {
+  assertOnline();
+  const pending = verifyClientData(response.clientDataJSON, "webauthn.get");
+
+  const credentialIdB64u = base64urlEncode(credentialId);
+  if (pending.credentialId && pending.credentialId !== credentialIdB64u) {
+    throw new Error("Challenge was issued for a different credential.");
+  }
+  const credential = getCredential(credentialIdB64u);
+  if (!credential) throw new Error("Unknown credential.");
+  if (
+    response.userHandle &&
+    base64urlEncode(response.userHandle) !== credential.userHandle
+  ) {
+    throw new Error("User handle does not match the credential's account.");
+  }
+
+  const authData = parseAuthenticatorData(response.authenticatorData);
+  await verifyAuthenticatorData(authData);
+
+  const clientDataHash = await sha256(response.clientDataJSON);
+  const signedData = new Uint8Array(
+    response.authenticatorData.length + clientDataHash.length,
+  );
+  signedData.set(response.authenticatorData);
+  signedData.set(clientDataHash, response.authenticatorData.length);
+  const publicKey = await importEcdsaPublicKey(credential.publicKeyJwk);
+  const valid = await verifyBytes(
+    publicKey,
+    signedData,
+    response.signature,
+  ).catch(() => false);
+  if (!valid) throw new Error("Assertion signature is invalid.");
+
+  // A counter of zero on both sides means the authenticator does not count
+  // (typical of synced passkeys); otherwise it must strictly increase.
+  if (
+    (authData.signCount !== 0 || credential.signCount !== 0) &&
+    authData.signCount <= credential.signCount
+  ) {
+    throw new Error(
+      `Sign counter did not increase (${authData.signCount} ≤ ${credential.signCount}): the authenticator may have been cloned.`,
+    );
+  }
+
+  const updated: StoredCredential = {
+    ...credential,
+    signCount: authData.signCount,
+    backedUp: authData.flags.backedUp,
+    lastUsedAt: new Date().toISOString(),
+  };
+  saveCredential(updated);
+
+  const account = getAccount(credential.userHandle);
+  if (!account) throw new Error("Credential has no account.");
+  return {
+    account,
+    credential: updated,
+    sessionToken: await openSession(account.userHandle, credentialIdB64u),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Accounts and credentials
+// ---------------------------------------------------------------------------
+
+export function getAccount(userHandle: string): RpAccount | null {
+  const raw = localStorage.getItem(ACCOUNT_PREFIX + userHandle);
+  return raw ? (JSON.parse(raw) as RpAccount) : null;
+}
+
+export function getCredential(credentialId: string): StoredCredential | null {
+  const raw = localStorage.getItem(CREDENTIAL_PREFIX + credentialId);
+  return raw ? (JSON.parse(raw) as StoredCredential) : null;
+}
+
+/** All accounts (for the backend explorer UI). */
+export function listAccounts(): RpAccount[] {
+  return listByPrefix<RpAccount>(ACCOUNT_PREFIX).sort((a, b) =>
+    a.createdAt.localeCompare(b.createdAt),
+  );
+}
+
+/** Credentials registered to an account, oldest first. */
+export function listCredentials(userHandle: string): StoredCredential[] {
+  return listByPrefix<StoredCredential>(CREDENTIAL_PREFIX)
+    .filter((c) => c.userHandle === userHandle)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/** Rename a credential of the session's account. */
+export async function renameCredential(
+  sessionToken: string,
+  credentialId: string,
+  name: string,
+): Promise<StoredCredential> {
+  assertOnline();
+  const target = ownedCredential(activeSession(sessionToken), credentialId);
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error("A passkey name cannot be empty.");
+  if (trimmed.length > MAX_CREDENTIAL_NAME_LENGTH) {
+    throw new Error(
+      `A passkey name is at most ${MAX_CREDENTIAL_NAME_LENGTH} characters.`,
+    );
+  }
+  const updated = { ...target, name: trimmed };
+  saveCredential(updated);
+  return updated;
+}
+
+/**
+ * Revoke a credential of the session's account (e.g. a lost passkey): it
+ * can no longer sign in, its sessions end and its wrapped master secret is
+ * deleted. The credential that opened the session cannot be revoked, so
+ * neither can an account's last credential.
+ */
+export async function revokeCredential(
+  sessionToken: string,
+  credentialId: string,
+): Promise<void> {
+  assertOnline();
+  const session = activeSession(sessionToken);
+  ownedCredential(session, credentialId);
+  if (credentialId === session.credentialId) {
+    throw new Error("Sign in with another passkey to revoke this one.");
+  }
+  localStorage.removeItem(CREDENTIAL_PREFIX + credentialId);
+  deleteWrappedSecret(credentialId);
+}
+
+// ---------------------------------------------------------------------------
+// Authenticator data and COSE keys
+// ---------------------------------------------------------------------------
+
+/** Parse the binary authenticator data (WebAuthn §6.1). */
+export function parseAuthenticatorData(bytes: Uint8Array): AuthenticatorData {
+  if (bytes.length < 37) throw new Error("Authenticator data is too short.");
+  const flagsByte = bytes[32];
+  const flags: AuthenticatorFlags = {
+    userPresent: (flagsByte & 0x01) !== 0,
+    userVerified: (flagsByte & 0x04) !== 0,
+    backupEligible: (flagsByte & 0x08) !== 0,
+    backedUp: (flagsByte & 0x10) !== 0,
+    attestedCredentialData: (flagsByte & 0x40) !== 0,
+    extensionData: (flagsByte & 0x80) !== 0,
+  };
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const data: AuthenticatorData = {
+    rpIdHash: bytes.slice(0, 32),
+    flags,
+    signCount: view.getUint32(33),
+  };
+
+  if (flags.attestedCredentialData) {
+    if (bytes.length < 55) {
+      throw new Error("Attested credential data is truncated.");
+    }
+    const idLength = view.getUint16(53);
+    const keyStart = 55 + idLength;
+    const { value } = decodeCborPrefix(bytes.subarray(keyStart));
+    data.attestedCredentialData = {
+      aaguid: bytes.slice(37, 53),
+      credentialId: bytes.slice(55, keyStart),
+      credentialPublicKey: value,
+    };
+  }
+  return data;
+}
+
+/** Convert an EC2 P-256 COSE key (ES256) to a public JWK. */
+export function coseKeyToJwk(key: CborValue): {
+  jwk: JsonWebKey;
+  alg: number;
+} {
+  // COSE labels: 1 kty, 3 alg, -1 crv, -2 x, -3 y
+  const kty = cborMapGet(key, 1);
+  const alg = cborMapGet(key, 3);
+  const crv = cborMapGet(key, -1);
+  const x = cborMapGet(key, -2);
+  const y = cborMapGet(key, -3);
+  if (alg !== COSE_ALG_ES256) {
+    throw new Error(`Unsupported credential algorithm ${String(alg)}.`);
+  }
+  if (
+    kty !== 2 ||
+    crv !== 1 ||
+    !(x instanceof Uint8Array) ||
+    !(y instanceof Uint8Array) ||
+    x.length !== 32 ||
+    y.length !== 32
+  ) {
+    throw new Error("Credential public key is not an EC2 P-256 key.");
+  }
+  return {
+    jwk: {
+      kty: "EC",
+      crv: "P-256",
+      x: base64urlEncode(x),
+      y: base64urlEncode(y),
+    },
+    alg,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Checks
+// ---------------------------------------------------------------------------
+
+/**
+ * Origin the backend accepts. The demo app and its backend share the page
+ * origin; a real RP would pin its configured origins here.
+ */
+function expectedOrigin(): string {
+  return window.location.origin;
+}
+
+function expectedRpId(): string {
+  return window.location.hostname;
+}
+
+/** Check type, challenge and origin; consumes the challenge. */
+function verifyClientData(
+  clientDataJSON: Uint8Array,
+  ceremony: Ceremony,
+): StoredChallenge {
+  let clientData: {
+    type?: string;
+    challenge?: string;
+    origin?: string;
+    crossOrigin?: boolean;
+  };
+  try {
+    clientData = JSON.parse(new TextDecoder().decode(clientDataJSON));
+  } catch {
+    throw new Error("clientDataJSON is not valid JSON.");
+  }
+  if (clientData.type !== ceremony) {
+    throw new Error(
+      `Unexpected client data type "${clientData.type}" (expected ${ceremony}).`,
+    );
+  }
+  const pending = consumeChallenge(clientData.challenge ?? "", ceremony);
+  if (clientData.origin !== expectedOrigin()) {
+    throw new Error(`Unexpected origin ${clientData.origin}.`);
+  }
+  if (clientData.crossOrigin) {
+    throw new Error("Cross-origin ceremonies are not accepted.");
+  }
+  return pending;
+}
+
+/** Check rpIdHash and the user presence / verification flags. */
+async function verifyAuthenticatorData(
+  authData: AuthenticatorData,
+): Promise<void> {
+  const rpIdHash = await sha256(new TextEncoder().encode(expectedRpId()));
+  if (!bytesEqual(authData.rpIdHash, rpIdHash)) {
+    throw new Error("rpIdHash does not match this relying party.");
+  }
+  if (!authData.flags.userPresent) {
+    throw new Error("User presence flag (UP) is not set.");
+  }
+  if (!authData.flags.userVerified) {
+    throw new Error("User verification flag (UV) is not set.");
+  }
+}
+
+async function verifyAttestationStatement(
+  fmt: string,
+  attStmt: CborValue,
+  authDataBytes: Uint8Array,
+  clientDataJSON: Uint8Array,
+  credentialJwk: JsonWebKey,
+): Promise<void> {
+  if (fmt === "none") return;
+  if (fmt !== "packed") {
+    throw new Error(`Unsupported attestation format "${fmt}".`);
+  }
+  // Packed self attestation: signed by the credential key itself
+  if (cborMapGet(attStmt, "x5c") !== undefined) {
+    throw new Error("Packed attestation with a certificate chain is not supported.");
+  }
+  const alg = cborMapGet(attStmt, "alg");
+  const sig = cborMapGet(attStmt, "sig");
+  if (alg !== COSE_ALG_ES256 || !(sig instanceof Uint8Array)) {
+    throw new Error("Malformed packed attestation statement.");
+  }
+  const clientDataHash = await sha256(clientDataJSON);
+  const signedData = new Uint8Array(
+    authDataBytes.length + clientDataHash.length,
+  );
+  signedData.set(authDataBytes);
+  signedData.set(clientDataHash, authDataBytes.length);
+  const publicKey = await importEcdsaPublicKey(credentialJwk);
+  const valid = await verifyBytes(publicKey, signedData, sig).catch(
+    () => false,
+  );
+  if (!valid) throw new Error("Attestation signature is invalid.");
+}
+
+// ---------------------------------------------------------------------------
+// Internals
+// ---------------------------------------------------------------------------
+
+function issueChallenge(data: Omit<StoredChallenge, "expiresAt">): Uint8Array {
+  purgeExpiredChallenges();
+  const challenge = crypto.getRandomValues(new Uint8Array(32));
+  const stored: StoredChallenge = {
+    ...data,
+    expiresAt: new Date(Date.now() + CHALLENGE_TTL_MS).toISOString(),
+  };
+  localStorage.setItem(
+    CHALLENGE_PREFIX + base64urlEncode(challenge),
+    JSON.stringify(stored),
+  );
+  return challenge;
+}
+
+/** Look up and delete a challenge: each one verifies a single response. */
+function consumeChallenge(
+  challengeB64u: string,
+  ceremony: Ceremony,
+): StoredChallenge {
+  // Normalise the encoding before using it as a storage key
+  const key = CHALLENGE_PREFIX + base64urlEncode(base64urlDecode(challengeB64u));
+  const raw = localStorage.getItem(key);
+  localStorage.removeItem(key);
+  if (!raw) throw new Error("Unknown or already used challenge.");
+  const stored = JSON.parse(raw) as StoredChallenge;
+  if (stored.ceremony !== ceremony) {
+    throw new Error("Challenge was issued for another ceremony.");
+  }
+  if (new Date(stored.expiresAt).getTime() < Date.now()) {
+    throw new Error("Challenge has expired.");
+  }
+  return stored;
+}
+
+/** Drop challenges of abandoned ceremonies. */
+function purgeExpiredChallenges(): void {
+  const expired: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key || !key.startsWith(CHALLENGE_PREFIX)) continue;
+    try {
+      const stored = JSON.parse(localStorage.getItem(key)!) as StoredChallenge;
+      if (new Date(stored.expiresAt).getTime() < Date.now()) expired.push(key);
+    } catch {
+      expired.push(key);
+    }
+  }
+  expired.forEach((k) => localStorage.removeItem(k));
+}
+
+/** Open a session for a verified assertion and return its signed token. */
+async function openSession(
+  userHandle: string,
+  credentialId: string,
+): Promise<string> {
+  purgeExpiredSessions();
+  const now = Date.now();
+  const session: StoredSession = {
+    userHandle,
+    credentialId,
+    authenticatedAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + SESSION_TTL_MS).toISOString(),
+  };
+  const token = await signSessionToken({
+    ...session,
+    nonce: base64urlEncode(crypto.getRandomValues(new Uint8Array(16))),
+  });
+  localStorage.setItem(SESSION_PREFIX + token, JSON.stringify(session));
+  return token;
+}
+
+/**
+ * The session of a token, if it has not expired, its credential was not
+ * revoked since, and (with `maxAgeMs`) its assertion is recent enough.
+ */
+function activeSession(token: string, maxAgeMs?: number): StoredSession {
+  const raw = localStorage.getItem(SESSION_PREFIX + token);
+  if (!raw) throw new Error("Not signed in: sign in with a passkey.");
+  const session = JSON.parse(raw) as StoredSession;
+  if (
+    new Date(session.expiresAt).getTime() < Date.now() ||
+    !getCredential(session.credentialId)
+  ) {
+    localStorage.removeItem(SESSION_PREFIX + token);
+    throw new Error("The session has ended: sign in again.");
+  }
+  if (
+    maxAgeMs !== undefined &&
+    Date.now() - new Date(session.authenticatedAt).getTime() > maxAgeMs
+  ) {
+    throw new Error("Confirm with one of the account's passkeys first.");
+  }
+  return session;
+}
+
+/** Drop sessions that have expired. */
+function purgeExpiredSessions(): void {
+  const expired: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key || !key.startsWith(SESSION_PREFIX)) continue;
+    try {
+      const stored = JSON.parse(localStorage.getItem(key)!) as StoredSession;
+      if (new Date(stored.expiresAt).getTime() < Date.now()) expired.push(key);
+    } catch {
+      expired.push(key);
+    }
+  }
+  expired.forEach((k) => localStorage.removeItem(k));
+}
+
+function findAccountByEmail(email: string): RpAccount | null {
+  const normalized = email.trim().toLowerCase();
+  return (
+    listAccounts().find((a) => a.email.toLowerCase() === normalized) ?? null
+  );
+}
+
+function excludedCredentials(userHandle: string): ExcludedCredential[] {
+  return listCredentials(userHandle).map((c) => ({
+    id: base64urlDecode(c.credentialId),
+    transports: c.transports,
+  }));
+}
+
+/** Label for a new credential, from how its authenticator is reached. */
+function defaultCredentialName(transports: string[], index: number): string {
+  const kind = transports.includes("internal")
+    ? "Platform passkey"
+    : transports.includes("hybrid")
+      ? "Phone passkey"
+      : transports.some((t) => t === "usb" || t === "nfc" || t === "ble")
+        ? "Security key"
+        : "Passkey";
+  return `${kind} ${index + 1}`;
+}
+
+/** A credential of the session's account. */
+function ownedCredential(
+  session: StoredSession,
+  credentialId: string,
+): StoredCredential {
+  const target = getCredential(credentialId);
+  if (!target || target.userHandle !== session.userHandle) {
+    throw new Error("Credential does not belong to this account.");
+  }
+  return target;
+}
+
+function saveCredential(credential: StoredCredential): void {
+  localStorage.setItem(
+    CREDENTIAL_PREFIX + credential.credentialId,
+    JSON.stringify(credential),
+  );
+}
+
+function listByPrefix<T>(prefix: string): T[] {
+  const items: T[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key && key.startsWith(prefix)) {
+      try {
+        items.push(JSON.parse(localStorage.getItem(key)!) as T);
+      } catch {
+        // skip malformed entries
+      }
+    }
+  }
+  return items;
+}
+
+async function sha256(data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(
+    await crypto.subtle.digest("SHA-256", data as BufferSource),
+  );
+}
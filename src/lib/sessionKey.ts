@@ -0,0 +1,165 @@
+/**
+ * Short-lived session keys for the holder's dynamic signature.
+ *
+ * The ticket's long-term holder key (derived from the PRF secret and bound
+ * to the ticket by the issuer in level 1) does not sign the rotating
+ * barcodes itself. It signs a delegation to an ephemeral P-256 key pair,
+ * generated non-extractable in the page and valid for a few minutes:
+ *
+ *   SessionKeyDelegation ::= SEQUENCE {
+ *     sessionPublicKey  OCTET STRING,      -- uncompressed P-256 point
+ *     validFrom         INTEGER (0..MAX),  -- ms since the Unix epoch
+ *     validUntil        INTEGER (0..MAX),
+ *     ...
+ *   }
+ *
+ * The session key signs level 2; the barcode carries the delegation and
+ * its signature next to the dynamic content (ticketBarcode.ts). A verifier
+ * checks the chain issuer → holder key → session key → dynamic content
+ * and that the delegation has not expired.
+ */
+
+import {
+  importEcdsaPublicKey,
+  jwkToRawPublicKey,
+  rawPublicKeyToJwk,
+  signBytes,
+  verifyBytes,
+} from "./crypto";
+import { UperReader, UperWriter } from "./uper";
+
+/** Validity of a delegation */
+export const SESSION_KEY_LIFETIME_MS = 5 * 60_000;
+/** The holder switches to a new session key this long before expiry */
+export const SESSION_KEY_RENEWAL_MS = 60_000;
+/** Delegations start this far in the past, for verifier clocks behind ours */
+const BACKDATE_MS = 30_000;
+
+export interface SessionKeyDelegation {
+  /** Raw uncompressed P-256 point */
+  sessionPublicKey: Uint8Array;
+  validFrom: number;
+  validUntil: number;
+}
+
+/** A delegation as carried in the barcode. */
+export interface DelegationProof {
+  /** UPER-encoded SessionKeyDelegation, as signed */
+  certificate: Uint8Array;
+  /** Holder key signature over the certificate (DER) */
+  signature: Uint8Array;
+}
+
+// ---------------------------------------------------------------------------
+// Holder side
+// ---------------------------------------------------------------------------
+
+export interface SessionKey {
+  /** Non-extractable: the key cannot leave the page */
+  privateKey: CryptoKey;
+  delegation: SessionKeyDelegation;
+  proof: DelegationProof;
+}
+
+/**
+ * Generate a session key pair and delegate to it with the holder's
+ * long-term key, valid from `now` for SESSION_KEY_LIFETIME_MS.
+ */
+export async function createSessionKey(
+  holderPrivateKey: CryptoKey,
+  now: Date,
+): Promise<SessionKey> {
+  const keyPair = await crypto.subtle.generateKey(
+    { name: "ECDSA", namedCurve: "P-256" },
+    false,
+    ["sign", "verify"],
+  );
+  const publicKeyJwk = await crypto.subtle.exportKey("jwk", keyPair.publicKey);
+  const delegation: SessionKeyDelegation = {
+    sessionPublicKey: jwkToRawPublicKey(publicKeyJwk),
+    validFrom: now.getTime() - BACKDATE_MS,
+    validUntil: now.getTime() + SESSION_KEY_LIFETIME_MS,
+  };
+  const certificate = encodeDelegation(delegation);
+  return {
+    privateKey: keyPair.privateKey,
+    delegation,
+    proof: {
+      certificate,
+      signature: await signBytes(holderPrivateKey, certificate),
+    },
+  };
+}
+
+/** The session key expires within SESSION_KEY_RENEWAL_MS of `now`. */
+export function isSessionKeyExpiring(session: SessionKey, now: Date): boolean {
+  return (
+    session.delegation.validUntil - now.getTime() < SESSION_KEY_RENEWAL_MS
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Verifier side
+// ---------------------------------------------------------------------------
+
+export type DelegationStatus =
+  | "valid"
+  | "badSignature"
+  | "expired"
+  | "notYetValid";
+
+export interface DelegationReport {
+  status: DelegationStatus;
+  sessionPublicKey: JsonWebKey;
+  validFrom: Date;
+  validUntil: Date;
+}
+
+/** Check a delegation against the holder key from level 1, at `now`. */
+export async function verifyDelegation(
+  proof: DelegationProof,
+  holderPublicKey: JsonWebKey,
+  now: Date,
+): Promise<DelegationReport> {
+  const delegation = decodeDelegation(proof.certificate);
+  const signatureValid = await verifyBytes(
+    await importEcdsaPublicKey(holderPublicKey),
+    proof.certificate,
+    proof.signature,
+  ).catch(() => false);
+  let status: DelegationStatus = "valid";
+  if (!signatureValid) status = "badSignature";
+  else if (now.getTime() < delegation.validFrom) status = "notYetValid";
+  else if (now.getTime() > delegation.validUntil) status = "expired";
+  return {
+    status,
+    sessionPublicKey: rawPublicKeyToJwk(delegation.sessionPublicKey),
+    validFrom: new Date(delegation.validFrom),
+    validUntil: new Date(delegation.validUntil),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// SessionKeyDelegation codec
+// ---------------------------------------------------------------------------
+
+function encodeDelegation(delegation: SessionKeyDelegation): Uint8Array {
+  const w = new UperWriter();
+  w.writePreamble([], true);
+  w.writeOctetString(delegation.sessionPublicKey);
+  w.writeSemiConstrainedInt(delegation.validFrom, 0);
+  w.writeSemiConstrainedInt(delegation.validUntil, 0);
+  return w.toBytes();
+}
+
+function decodeDelegation(bytes: Uint8Array): SessionKeyDelegation {
+  const r = new UperReader(bytes);
+  const { extended } = r.readPreamble(0, true);
+  const delegation = {
+    sessionPublicKey: r.readOctetString(),
+    validFrom: r.readSemiConstrainedInt(0),
+    validUntil: r.readSemiConstrainedInt(0),
+  };
+  if (extended) r.skipExtensions();
+  return delegation;
+}
@@ -0,0 +1,101 @@
+/**
+ * Relying-party session tokens.
+ *
+ * A verified assertion opens a session (relyingParty.ts). Its token carries
+ * the session's claims, authenticated by the backend:
+ *
+ *   token = base64url(JSON claims) "." base64url(HMAC-SHA256(claims))
+ *
+ * so the backend services that take it — the wrapped secret store, in the
+ * page or on the mock server — check it without the relying party's
+ * session store. The relying party still keeps its sessions, to end those
+ * of revoked credentials.
+ *
+ * The demo MAC key is derived from a fixed seed shared by the page and the
+ * mock server; a real backend would keep it secret.
+ */
+
+import { base64urlDecode, base64urlEncode } from "./crypto";
+
+const SESSION_KEY_SEED = "dosipas-demo-session-key-v1";
+
+export interface SessionClaims {
+  /** Account the session is signed in to */
+  userHandle: string;
+  /** Credential whose assertion opened the session */
+  credentialId: string;
+  authenticatedAt: string;
+  expiresAt: string;
+  /** Random, so that every session has its own token */
+  nonce: string;
+}
+
+/** The session token is missing, forged or expired. */
+export class SessionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/** Issue the token of a session. */
+export async function signSessionToken(claims: SessionClaims): Promise<string> {
+  const payload = new TextEncoder().encode(JSON.stringify(claims));
+  const mac = await crypto.subtle.sign(
+    "HMAC",
+    await sessionKey(),
+    payload as BufferSource,
+  );
+  return `${base64urlEncode(payload)}.${base64urlEncode(new Uint8Array(mac))}`;
+}
+
+/** The claims of a token the backend issued, unless it has expired. */
+export async function verifySessionToken(
+  token: string,
+  now = new Date(),
+): Promise<SessionClaims> {
+  const [payload, mac, ...rest] = token.split(".");
+  let valid = false;
+  try {
+    valid =
+      rest.length === 0 &&
+      mac !== undefined &&
+      (await crypto.subtle.verify(
+        "HMAC",
+        await sessionKey(),
+        base64urlDecode(mac) as BufferSource,
+        base64urlDecode(payload) as BufferSource,
+      ));
+  } catch {
+    valid = false;
+  }
+  if (!valid) throw new SessionError("Not signed in: sign in with a passkey.");
+  const claims = JSON.parse(
+    new TextDecoder().decode(base64urlDecode(payload)),
+  ) as SessionClaims;
+  if (new Date(claims.expiresAt).getTime() < now.getTime()) {
+    throw new SessionError("The session has ended: sign in again.");
+  }
+  return claims;
+}
+
+let sessionKeyPromise: Promise<CryptoKey> | null = null;
+
+function sessionKey(): Promise<CryptoKey> {
+  if (!sessionKeyPromise) {
+    sessionKeyPromise = (async () => {
+      const seed = await crypto.subtle.digest(
+        "SHA-256",
+        new TextEncoder().encode(SESSION_KEY_SEED),
+      );
+      return crypto.subtle.importKey(
+        "raw",
+        seed,
+        { name: "HMAC", hash: "SHA-256" },
+        false,
+        ["sign", "verify"],
+      );
+    })();
+  }
+  return sessionKeyPromise;
+}
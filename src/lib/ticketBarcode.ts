@@ -0,0 +1,543 @@
+/**
+ * Ticket barcode assembly on top of the DOSIPAS container.
+ *
+ * Level 1 carries the FCB ticket data and the holder's public key and is
+ * signed once by the issuer at purchase time. Level 2 carries the FDC1
+ * dynamic content and is signed once per time slot (antiReplay.ts) by a
+ * short-lived session key that the holder's derived ECDSA key delegates to
+ * (sessionKey.ts). A verifier checks the chain
+ * issuer → holder key → session key → dynamic signature with no backend
+ * access.
+ *
+ * The dynamic content's time stamp is the start of the slot, and its
+ * extension carries the slot counter itself:
+ *
+ *   TimeSlot ::= SEQUENCE {
+ *     slot    INTEGER (0..MAX),     -- SLOT_SECONDS slots since the Unix epoch
+ *     anchor  TimeAnchor OPTIONAL,  -- backend time the slot was read from
+ *     ...
+ *   }
+ *
+ *   TimeAnchor ::= SEQUENCE {
+ *     token           OCTET STRING,       -- UPER TimeToken, as signed
+ *     tokenSignature  OCTET STRING,       -- issuer signature (DER)
+ *     offsetMs        INTEGER (0..MAX),   -- from token receipt to signing
+ *     deviceSkewMs    INTEGER,            -- device clock − token on receipt
+ *     ...
+ *   }
+ *
+ * The anchor is present once the app has received a time token from the
+ * backend (timeAnchor.ts), until that token expires; its slot is then read
+ * from the token plus a monotonic offset instead of the device clock.
+ *
+ * When the verifier issued a challenge, the nonce the holder typed in is
+ * signed as responseToChallenge, under extension ID `_9999.CHN1` (ASCII).
+ * The session key delegation travels in the same list, since FDC1 has a
+ * single extension, under `_9999.DLG1`:
+ *
+ *   DelegationProof ::= SEQUENCE {
+ *     certificate  OCTET STRING,   -- UPER SessionKeyDelegation, as signed
+ *     signature    OCTET STRING,   -- holder key signature (DER)
+ *     ...
+ *   }
+ *
+ * Level 1 also carries a proprietary block stating how the holder key is
+ * protected, so verifiers can set policy on weaker passphrase accounts:
+ *
+ *   HolderKeyAssurance ::= SEQUENCE {
+ *     level  ENUMERATED { prf, passphrase, ... },
+ *     ...
+ *   }
+ */
+
+import {
+  DYNAMIC_CONTENT_FORMAT,
+  HEADER_FORMAT,
+  OID_EC_P256,
+  OID_ECDSA_WITH_SHA256,
+  dateToTimeStamp,
+  decodeDynamicContent,
+  decodeUicBarcodeHeader,
+  encodeDynamicContent,
+  encodeLevel1Data,
+  encodeLevel2SignedData,
+  encodeUicBarcodeHeader,
+  timeStampToDate,
+} from "./dosipas";
+import type {
+  ExtensionData,
+  Level1Data,
+  UicBarcodeHeader,
+} from "./dosipas";
+import {
+  base64urlDecode,
+  hexToBytes,
+  importEcdsaPublicKey,
+  jwkToRawPublicKey,
+  rawPublicKeyToJwk,
+  signBytes,
+  verifyBytes,
+} from "./crypto";
+import { FCB_DATA_FORMAT, decodeFcbTicket, encodeFcbTicket } from "./fcb";
+import { decodeLegacyFcbTicket, isLegacyFcbDataFormat } from "./fcbLegacy";
+import type { FcbTicket } from "./fcb";
+import type { PaymentRecord } from "./fakeBackend";
+import { UperReader, UperWriter } from "./uper";
+import { resolveIssuerKey } from "./trust";
+import type { IssuerKeyStatus, PublishedIssuerKey } from "./trust";
+import { slotStart, timeSlot } from "./antiReplay";
+import {
+  anchoredNow,
+  timeAnchorProof,
+  verifyTimeAnchor,
+} from "./timeAnchor";
+import type {
+  TimeAnchor,
+  TimeAnchorProof,
+  TimeAnchorReport,
+} from "./timeAnchor";
+import { verifyDelegation } from "./sessionKey";
+import type {
+  DelegationProof,
+  DelegationReport,
+  SessionKey,
+  SessionKeyDelegation,
+} from "./sessionKey";
+
+/** Mobile app identifier written into the dynamic content. */
+const MOBILE_APP_ID = "dosipas-demo";
+
+/** Level 1 data format of the HolderKeyAssurance block. */
+export const KEY_ASSURANCE_DATA_FORMAT = "_9999.HKA1";
+
+/** FDC1 extension ID of the TimeSlot block. */
+export const TIME_SLOT_EXTENSION_ID = "_9999.TSC1";
+
+/** FDC1 responseToChallenge ID of a verifier's challenge nonce. */
+export const CHALLENGE_RESPONSE_ID = "_9999.CHN1";
+
+/** FDC1 responseToChallenge ID of the session key delegation. */
+export const SESSION_KEY_DELEGATION_ID = "_9999.DLG1";
+
+/**
+ * How the holder key's master secret is protected: hardware-bound PRF, or
+ * the weaker passphrase fallback (brute-forceable offline).
+ */
+export const KEY_ASSURANCE_LEVELS = ["prf", "passphrase"] as const;
+export type KeyAssurance = (typeof KEY_ASSURANCE_LEVELS)[number];
+
+export interface TicketBarcode {
+  bytes: Uint8Array;
+  header: UicBarcodeHeader;
+  /** Start of the signed time slot */
+  signatureDate: Date;
+  slot: number;
+  /** Challenge nonce signed with the slot, if any */
+  challengeResponse: string | null;
+  /** Backend time anchor signed with the slot, if any */
+  timeAnchor: TimeAnchorProof | null;
+  /** Session key delegation the barcode was signed under, if any */
+  delegation: SessionKeyDelegation | null;
+}
+
+export interface DecodedTicketBarcode {
+  header: UicBarcodeHeader;
+  ticket: FcbTicket;
+  /** UPER encoding of the FCB block, as carried in level 1 */
+  ticketBytes: Uint8Array;
+  ecdsaPublicKey: JsonWebKey;
+  /** Declared holder key assurance (null when level 1 has no such block) */
+  keyAssurance: KeyAssurance | null;
+  signatureDate: Date;
+  /** Signed time slot (null when the dynamic content has none) */
+  slot: number | null;
+  /** Signed challenge nonce (null when there is none) */
+  challengeResponse: string | null;
+  /** Checked time anchor (null when the time slot has none) */
+  timeAnchor: TimeAnchorReport | null;
+  /**
+   * Checked session key delegation (null when the holder key signed level
+   * 2 directly)
+   */
+  delegation: DelegationReport | null;
+  /** Issuer key referenced by level 1 (null if not in the trusted list) */
+  issuerKey: PublishedIssuerKey | null;
+  /** Validity of that key at verification time */
+  issuerKeyStatus: IssuerKeyStatus;
+  /** Level 1 signature verifies against the issuer key */
+  issuerSignatureValid: boolean;
+  /**
+   * Level 2 signature verifies against level2PublicKey, or against a
+   * session key that level2PublicKey delegated to
+   */
+  signatureValid: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Level 1 (issuer side)
+// ---------------------------------------------------------------------------
+
+/**
+ * Build the level 1 data of a ticket. Deterministic, so the issuer can sign
+ * it at purchase time and the holder can rebuild identical bytes later.
+ */
+export function buildLevel1Data(params: {
+  ticket: FcbTicket;
+  ecdsaPublicKeyJwk: JsonWebKey;
+  securityProviderNum: number;
+  keyId: number;
+  keyAssurance: KeyAssurance;
+}): Level1Data {
+  return {
+    securityProviderNum: params.securityProviderNum,
+    keyId: params.keyId,
+    dataSequence: [
+      { dataFormat: FCB_DATA_FORMAT, data: encodeFcbTicket(params.ticket) },
+      {
+        dataFormat: KEY_ASSURANCE_DATA_FORMAT,
+        data: encodeKeyAssurance(params.keyAssurance),
+      },
+    ],
+    level1KeyAlg: OID_EC_P256,
+    level2KeyAlg: OID_EC_P256,
+    level1SigningAlg: OID_ECDSA_WITH_SHA256,
+    level2SigningAlg: OID_ECDSA_WITH_SHA256,
+    level2PublicKey: jwkToRawPublicKey(params.ecdsaPublicKeyJwk),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Build (holder side)
+// ---------------------------------------------------------------------------
+
+/**
+ * Build and sign a DOSIPAS barcode for the given record, for the time slot
+ * of `signatureDate` (now by default) and optionally a verifier's challenge.
+ * With a time anchor, "now" is the anchored time and the anchor is signed
+ * along with the slot. With a session key, that key signs level 2 and its
+ * delegation is carried along; otherwise the holder key signs directly.
+ */
+export async function buildTicketBarcode(params: {
+  record: PaymentRecord;
+  ecdsaPrivateKey: CryptoKey;
+  ecdsaPublicKeyJwk: JsonWebKey;
+  signatureDate?: Date;
+  challenge?: string;
+  timeAnchor?: TimeAnchor;
+  sessionKey?: SessionKey;
+}): Promise<TicketBarcode> {
+  const timeAnchor = params.timeAnchor
+    ? timeAnchorProof(params.timeAnchor)
+    : null;
+  const slot = timeSlot(
+    params.signatureDate ?? anchoredNow(params.timeAnchor ?? null),
+  );
+  const signatureDate = slotStart(slot);
+  const challengeResponse = params.challenge || null;
+  const { sessionKey } = params;
+  const responses: ExtensionData[] = [];
+  if (challengeResponse) {
+    responses.push({
+      extensionId: CHALLENGE_RESPONSE_ID,
+      extensionData: new TextEncoder().encode(challengeResponse),
+    });
+  }
+  if (sessionKey) {
+    responses.push({
+      extensionId: SESSION_KEY_DELEGATION_ID,
+      extensionData: encodeDelegationProof(sessionKey.proof),
+    });
+  }
+
+  const { record } = params;
+  const level2SignedData = {
+    level1Data: buildLevel1Data({
+      ticket: record.ticket,
+      ecdsaPublicKeyJwk: params.ecdsaPublicKeyJwk,
+      securityProviderNum: record.securityProviderNum,
+      keyId: record.issuerKeyId,
+      keyAssurance: record.keyAssurance,
+    }),
+    level1Signature: base64urlDecode(record.level1Signature),
+    level2Data: {
+      dataFormat: DYNAMIC_CONTENT_FORMAT,
+      data: encodeDynamicContent({
+        mobileAppId: MOBILE_APP_ID,
+        timeStamp: dateToTimeStamp(signatureDate),
+        ...(responses.length > 0 && { responseToChallenge: responses }),
+        extension: {
+          extensionId: TIME_SLOT_EXTENSION_ID,
+          extensionData: encodeTimeSlot(slot, timeAnchor),
+        },
+      }),
+    },
+  };
+
+  const level2Signature = await signBytes(
+    sessionKey?.privateKey ?? params.ecdsaPrivateKey,
+    encodeLevel2SignedData(level2SignedData),
+  );
+
+  const header: UicBarcodeHeader = {
+    format: HEADER_FORMAT,
+    level2SignedData,
+    level2Signature,
+  };
+  return {
+    bytes: encodeUicBarcodeHeader(header),
+    header,
+    signatureDate,
+    slot,
+    challengeResponse,
+    timeAnchor,
+    delegation: sessionKey?.delegation ?? null,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Read (verifier side)
+// ---------------------------------------------------------------------------
+
+/**
+ * Decode a DOSIPAS barcode and verify both signatures: level 1 against the
+ * issuer key it references (looked up by ID in the trusted key list), level
+ * 2 against the holder key that level 1 carries. Throws on structurally
+ * invalid barcodes.
+ */
+export async function readTicketBarcode(
+  bytes: Uint8Array,
+  issuerKeys: PublishedIssuerKey[],
+): Promise<DecodedTicketBarcode> {
+  const header = decodeUicBarcodeHeader(bytes);
+  const { level1Data, level2Data } = header.level2SignedData;
+
+  const fcbBlock = level1Data.dataSequence.find(
+    (d) =>
+      d.dataFormat === FCB_DATA_FORMAT || isLegacyFcbDataFormat(d.dataFormat),
+  );
+  if (!fcbBlock) {
+    throw new Error(`Level 1 data has no ${FCB_DATA_FORMAT} block.`);
+  }
+  const ticket =
+    fcbBlock.dataFormat === FCB_DATA_FORMAT
+      ? decodeFcbTicket(fcbBlock.data)
+      : decodeLegacyFcbTicket(fcbBlock.data, fcbBlock.dataFormat);
+  const assuranceBlock = level1Data.dataSequence.find(
+    (d) => d.dataFormat === KEY_ASSURANCE_DATA_FORMAT,
+  );
+  const keyAssurance = assuranceBlock
+    ? decodeKeyAssurance(assuranceBlock.data)
+    : null;
+
+  if (!level1Data.level2PublicKey) {
+    throw new Error("Level 1 data has no level2PublicKey.");
+  }
+  if (
+    level1Data.level2SigningAlg &&
+    level1Data.level2SigningAlg !== OID_ECDSA_WITH_SHA256
+  ) {
+    throw new Error(
+      `Unsupported level 2 signing algorithm ${level1Data.level2SigningAlg}.`,
+    );
+  }
+  const ecdsaPublicKey = rawPublicKeyToJwk(level1Data.level2PublicKey);
+
+  if (level2Data?.dataFormat !== DYNAMIC_CONTENT_FORMAT) {
+    throw new Error(`Level 2 data is not ${DYNAMIC_CONTENT_FORMAT}.`);
+  }
+  const dynamic = decodeDynamicContent(level2Data.data);
+  if (!dynamic.timeStamp) {
+    throw new Error("Dynamic content has no time stamp.");
+  }
+  const signatureDate = timeStampToDate(dynamic.timeStamp);
+  const timeSlotBlock =
+    dynamic.extension?.extensionId === TIME_SLOT_EXTENSION_ID
+      ? decodeTimeSlot(dynamic.extension.extensionData)
+      : null;
+  const slot = timeSlotBlock?.slot ?? null;
+  const challengeBlock = dynamic.responseToChallenge?.find(
+    (e) => e.extensionId === CHALLENGE_RESPONSE_ID,
+  );
+  const challengeResponse = challengeBlock
+    ? new TextDecoder().decode(challengeBlock.extensionData)
+    : null;
+  const delegationBlock = dynamic.responseToChallenge?.find(
+    (e) => e.extensionId === SESSION_KEY_DELEGATION_ID,
+  );
+
+  // Level 1: issuer → holder key + ticket data
+  const { level1Signature } = header.level2SignedData;
+  const { key: issuerKey, status: issuerKeyStatus } = resolveIssuerKey(
+    issuerKeys,
+    level1Data.securityProviderNum,
+    level1Data.keyId,
+  );
+  let issuerSignatureValid = false;
+  if (issuerKey && level1Signature) {
+    const publicKey = await importEcdsaPublicKey(issuerKey.publicKeyJwk);
+    issuerSignatureValid = await verifyBytes(
+      publicKey,
+      encodeLevel1Data(level1Data),
+      level1Signature,
+    ).catch(() => false);
+  }
+
+  // Holder key → session key, when the holder delegated
+  const delegation = delegationBlock
+    ? await verifyDelegation(
+        decodeDelegationProof(delegationBlock.extensionData),
+        ecdsaPublicKey,
+        new Date(),
+      )
+    : null;
+  const level2Key =
+    delegation === null
+      ? ecdsaPublicKey
+      : delegation.status === "badSignature"
+        ? null
+        : delegation.sessionPublicKey;
+
+  // Level 2: holder (or session) key → dynamic content
+  let signatureValid = false;
+  if (header.level2Signature && level2Key) {
+    const publicKey = await importEcdsaPublicKey(level2Key);
+    signatureValid = await verifyBytes(
+      publicKey,
+      encodeLevel2SignedData(header.level2SignedData),
+      header.level2Signature,
+    ).catch(() => false);
+  }
+
+  // Time anchor: issuer → backend time the slot was read from
+  const timeAnchor = timeSlotBlock?.anchor
+    ? await verifyTimeAnchor(
+        timeSlotBlock.anchor,
+        issuerKeys,
+        timeSlotBlock.slot,
+        new Date(),
+      )
+    : null;
+
+  return {
+    header,
+    ticket,
+    ticketBytes: fcbBlock.data,
+    ecdsaPublicKey,
+    keyAssurance,
+    signatureDate,
+    slot,
+    challengeResponse,
+    timeAnchor,
+    delegation,
+    issuerKey,
+    issuerKeyStatus,
+    issuerSignatureValid,
+    signatureValid,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// HolderKeyAssurance codec
+// ---------------------------------------------------------------------------
+
+function encodeKeyAssurance(level: KeyAssurance): Uint8Array {
+  const w = new UperWriter();
+  w.writePreamble([], true);
+  w.writeEnumerated(
+    KEY_ASSURANCE_LEVELS.indexOf(level),
+    KEY_ASSURANCE_LEVELS.length,
+    true,
+  );
+  return w.toBytes();
+}
+
+function decodeKeyAssurance(bytes: Uint8Array): KeyAssurance {
+  const r = new UperReader(bytes);
+  const { extended } = r.readPreamble(0, true);
+  const level =
+    KEY_ASSURANCE_LEVELS[r.readEnumerated(KEY_ASSURANCE_LEVELS.length, true)];
+  if (extended) r.skipExtensions();
+  return level;
+}
+
+// ---------------------------------------------------------------------------
+// TimeSlot codec
+// ---------------------------------------------------------------------------
+
+function encodeTimeSlot(
+  slot: number,
+  anchor: TimeAnchorProof | null,
+): Uint8Array {
+  const w = new UperWriter();
+  w.writePreamble([anchor !== null], true);
+  w.writeSemiConstrainedInt(slot, 0);
+  if (anchor) {
+    w.writePreamble([], true);
+    w.writeOctetString(anchor.token);
+    w.writeOctetString(anchor.tokenSignature);
+    w.writeSemiConstrainedInt(anchor.offsetMs, 0);
+    w.writeUnconstrainedInt(anchor.deviceSkewMs);
+  }
+  return w.toBytes();
+}
+
+function decodeTimeSlot(bytes: Uint8Array): {
+  slot: number;
+  anchor: TimeAnchorProof | null;
+} {
+  const r = new UperReader(bytes);
+  const {
+    present: [hasAnchor],
+    extended,
+  } = r.readPreamble(1, true);
+  const slot = r.readSemiConstrainedInt(0);
+  let anchor: TimeAnchorProof | null = null;
+  if (hasAnchor) {
+    const { extended: anchorExtended } = r.readPreamble(0, true);
+    anchor = {
+      token: r.readOctetString(),
+      tokenSignature: r.readOctetString(),
+      offsetMs: r.readSemiConstrainedInt(0),
+      deviceSkewMs: r.readUnconstrainedInt(),
+    };
+    if (anchorExtended) r.skipExtensions();
+  }
+  if (extended) r.skipExtensions();
+  return { slot, anchor };
+}
+
+// ---------------------------------------------------------------------------
+// DelegationProof codec
+// ---------------------------------------------------------------------------
+
+function encodeDelegationProof(proof: DelegationProof): Uint8Array {
+  const w = new UperWriter();
+  w.writePreamble([], true);
+  w.writeOctetString(proof.certificate);
+  w.writeOctetString(proof.signature);
+  return w.toBytes();
+}
+
+function decodeDelegationProof(bytes: Uint8Array): DelegationProof {
+  const r = new UperReader(bytes);
+  const { extended } = r.readPreamble(0, true);
+  const proof = {
+    certificate: r.readOctetString(),
+    signature: r.readOctetString(),
+  };
+  if (extended) r.skipExtensions();
+  return proof;
+}
+
+/**
+ * Parse scanner output pasted as text: hex (what the ticket screen shows)
+ * or base64url.
+ */
+export function parseBarcodeText(text: string): Uint8Array {
+  const trimmed = text.trim();
+  if (/^[0-9a-fA-F\s]+$/.test(trimmed)) return hexToBytes(trimmed);
+  if (/^[A-Za-z0-9_\-+/=]+$/.test(trimmed)) {
+    return base64urlDecode(trimmed.replace(/=+$/, ""));
+  }
+  throw new Error("Barcode data must be hex or base64url.");
+}
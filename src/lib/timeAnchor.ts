@@ -0,0 +1,268 @@
+/**
+ * Trusted time for the holder's dynamic signature.
+ *
+ * The holder's device clock cannot be trusted: skewed or set on purpose,
+ * it would let the app sign "fresh" slots for any time. Whenever the app
+ * is online the backend hands out time tokens — its own clock reading,
+ * signed with the active issuer key:
+ *
+ *   TimeToken ::= SEQUENCE {
+ *     securityProviderNum  INTEGER (1..32000),
+ *     keyId                INTEGER (0..99999),
+ *     issuedAt             INTEGER (0..MAX),   -- ms since the Unix epoch
+ *     ...
+ *   }
+ *
+ * The ticket screen then reads time as the latest token plus a monotonic
+ * offset (performance.now()), which device clock changes do not affect,
+ * and signs the token with that offset and its device clock skew into
+ * each barcode (the TimeAnchor block, see ticketBarcode.ts). An anchor
+ * expires MAX_ANCHOR_OFFSET_MS after it arrived; the app then falls back to
+ * the device clock until the next token.
+ *
+ * The verifier checks the token against its trusted issuer keys, that the
+ * declared offset is within that bound and agrees with the token's age by
+ * its own clock, and reports the anchor's age and the holder's and its own
+ * clock skew.
+ *
+ * Simulated REST endpoint:
+ *   - POST /time-tokens → Backend.issueTimeToken()
+ */
+
+import {
+  base64urlDecode,
+  base64urlEncode,
+  importEcdsaPublicKey,
+  verifyBytes,
+} from "./crypto";
+import { UperReader, UperWriter } from "./uper";
+import { resolveIssuerKey } from "./trust";
+import type { PublishedIssuerKey } from "./trust";
+import { SLOT_SECONDS, SLOT_TOLERANCE, slotAge } from "./antiReplay";
+
+/** How often the holder app asks for a new token while online */
+export const ANCHOR_REFRESH_MS = 5 * 60_000;
+/** Oldest anchor a verifier accepts */
+export const MAX_ANCHOR_AGE_MS = 4 * 60 * 60_000;
+/** Longest the holder reads time from one anchor; largest offset accepted */
+export const MAX_ANCHOR_OFFSET_MS = MAX_ANCHOR_AGE_MS;
+/**
+ * Largest difference a verifier accepts between its clock and the anchored
+ * signing time: clock drift on either side, plus the accepted slots.
+ */
+export const ANCHOR_SKEW_TOLERANCE_MS =
+  60_000 + (SLOT_TOLERANCE + 1) * SLOT_SECONDS * 1000;
+
+export interface TimeToken {
+  securityProviderNum: number;
+  keyId: number;
+  /** Backend clock, ms since the Unix epoch */
+  issuedAt: number;
+}
+
+/** A time token as served by the backend. */
+export interface SignedTimeToken {
+  /** UPER-encoded TimeToken (base64url) */
+  token: string;
+  /** Issuer signature over the token bytes (DER, base64url) */
+  signature: string;
+}
+
+/** What the holder signs into the barcode. */
+export interface TimeAnchorProof {
+  token: Uint8Array;
+  tokenSignature: Uint8Array;
+  offsetMs: number;
+  deviceSkewMs: number;
+}
+
+// ---------------------------------------------------------------------------
+// Holder side
+// ---------------------------------------------------------------------------
+
+export interface TimeAnchor {
+  token: TimeToken;
+  tokenBytes: Uint8Array;
+  tokenSignature: Uint8Array;
+  /** performance.now() when the token arrived */
+  receivedAt: number;
+  /** Device clock minus token time on arrival */
+  deviceSkewMs: number;
+}
+
+/**
+ * Latest anchor. Kept in memory only: performance.now() restarts with the
+ * page, so an anchor cannot survive a reload.
+ */
+let currentAnchor: TimeAnchor | null = null;
+
+/** Adopt a token just received from the backend as the current anchor. */
+export function acceptTimeToken(signed: SignedTimeToken): TimeAnchor {
+  const tokenBytes = base64urlDecode(signed.token);
+  const token = decodeTimeToken(tokenBytes);
+  currentAnchor = {
+    token,
+    tokenBytes,
+    tokenSignature: base64urlDecode(signed.signature),
+    receivedAt: performance.now(),
+    deviceSkewMs: Date.now() - token.issuedAt,
+  };
+  return currentAnchor;
+}
+
+export function getTimeAnchor(): TimeAnchor | null {
+  return currentAnchor;
+}
+
+/** Past MAX_ANCHOR_OFFSET_MS since arrival: time is no longer read from it. */
+export function isTimeAnchorExpired(anchor: TimeAnchor): boolean {
+  return anchorOffset(anchor) > MAX_ANCHOR_OFFSET_MS;
+}
+
+/** Time read from the anchor; the device clock without a live one. */
+export function anchoredNow(anchor = currentAnchor): Date {
+  if (!anchor || isTimeAnchorExpired(anchor)) return new Date();
+  return new Date(anchor.token.issuedAt + anchorOffset(anchor));
+}
+
+/** The anchor as signed at this moment; null once it expired. */
+export function timeAnchorProof(anchor: TimeAnchor): TimeAnchorProof | null {
+  if (isTimeAnchorExpired(anchor)) return null;
+  return {
+    token: anchor.tokenBytes,
+    tokenSignature: anchor.tokenSignature,
+    offsetMs: anchorOffset(anchor),
+    deviceSkewMs: anchor.deviceSkewMs,
+  };
+}
+
+/** A clock difference for display, e.g. "+1.2 s" or "−3 min". */
+export function formatSkew(ms: number): string {
+  return (ms < 0 ? "−" : "+") + formatInterval(Math.abs(ms));
+}
+
+/** A duration for display, e.g. "1.2 s", "3 min" or "5.0 h". */
+export function formatInterval(ms: number): string {
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)} s`;
+  if (ms < 3_600_000) return `${Math.round(ms / 60_000)} min`;
+  return `${(ms / 3_600_000).toFixed(1)} h`;
+}
+
+function anchorOffset(anchor: TimeAnchor): number {
+  return Math.max(0, Math.round(performance.now() - anchor.receivedAt));
+}
+
+// ---------------------------------------------------------------------------
+// Verifier side
+// ---------------------------------------------------------------------------
+
+export type TimeAnchorStatus = "valid" | "unknownKey" | "badSignature";
+
+export interface TimeAnchorReport {
+  status: TimeAnchorStatus;
+  /** Backend time in the token */
+  issuedAt: Date;
+  /** Signing time by the anchor: token time plus the holder's offset */
+  anchoredAt: Date;
+  /** Time since the token was issued, by the verifier's clock */
+  ageMs: number;
+  /** Holder device clock minus backend time, as declared by the holder */
+  holderSkewMs: number;
+  /**
+   * Verifier clock minus the anchored signing time. Includes the time
+   * between signing and scanning, so it is an upper bound of the skew.
+   */
+  verifierSkewMs: number;
+  /** The signed slot is the anchored signing time's (or one before) */
+  slotConsistent: boolean;
+  /** The declared offset is within 0..MAX_ANCHOR_OFFSET_MS */
+  offsetInRange: boolean;
+  /**
+   * The anchored signing time is within ANCHOR_SKEW_TOLERANCE_MS of the
+   * verifier's clock: the declared offset agrees with the token's age.
+   */
+  offsetConsistent: boolean;
+}
+
+/**
+ * Check a barcode's time anchor: the token signature against the trusted
+ * issuer keys, the signed slot against the anchored time, and the declared
+ * offset against its bound and the token's age.
+ */
+export async function verifyTimeAnchor(
+  proof: TimeAnchorProof,
+  issuerKeys: PublishedIssuerKey[],
+  slot: number,
+  now: Date,
+): Promise<TimeAnchorReport> {
+  const token = decodeTimeToken(proof.token);
+  const issuedAt = new Date(token.issuedAt);
+  const { key } = resolveIssuerKey(
+    issuerKeys,
+    token.securityProviderNum,
+    token.keyId,
+    issuedAt,
+  );
+  let status: TimeAnchorStatus = "unknownKey";
+  if (key) {
+    const publicKey = await importEcdsaPublicKey(key.publicKeyJwk);
+    const signatureValid = await verifyBytes(
+      publicKey,
+      proof.token,
+      proof.tokenSignature,
+    ).catch(() => false);
+    status = signatureValid ? "valid" : "badSignature";
+  }
+
+  const anchoredAt = new Date(token.issuedAt + proof.offsetMs);
+  const age = slotAge(slot, anchoredAt);
+  const verifierSkewMs = now.getTime() - anchoredAt.getTime();
+  return {
+    status,
+    issuedAt,
+    anchoredAt,
+    ageMs: now.getTime() - token.issuedAt,
+    holderSkewMs: proof.deviceSkewMs,
+    verifierSkewMs,
+    slotConsistent: age >= 0 && age <= SLOT_TOLERANCE,
+    offsetInRange:
+      proof.offsetMs >= 0 && proof.offsetMs <= MAX_ANCHOR_OFFSET_MS,
+    offsetConsistent: Math.abs(verifierSkewMs) <= ANCHOR_SKEW_TOLERANCE_MS,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Codecs
+// ---------------------------------------------------------------------------
+
+export function encodeTimeToken(token: TimeToken): Uint8Array {
+  const w = new UperWriter();
+  w.writePreamble([], true);
+  w.writeConstrainedInt(token.securityProviderNum, 1, 32000);
+  w.writeConstrainedInt(token.keyId, 0, 99999);
+  w.writeSemiConstrainedInt(token.issuedAt, 0);
+  return w.toBytes();
+}
+
+export function decodeTimeToken(bytes: Uint8Array): TimeToken {
+  const r = new UperReader(bytes);
+  const { extended } = r.readPreamble(0, true);
+  const token = {
+    securityProviderNum: r.readConstrainedInt(1, 32000),
+    keyId: r.readConstrainedInt(0, 99999),
+    issuedAt: r.readSemiConstrainedInt(0),
+  };
+  if (extended) r.skipExtensions();
+  return token;
+}
+
+/** Serve a signed token over JSON. */
+export function toSignedTimeToken(
+  tokenBytes: Uint8Array,
+  signature: Uint8Array,
+): SignedTimeToken {
+  return {
+    token: base64urlEncode(tokenBytes),
+    signature: base64urlEncode(signature),
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * Verifier trust anchors and issuer key list.
+ *
+ * The verifier pins a single root public key. Issuer signing keys are
+ * distributed as a key list signed by that root, imported into the verifier
+ * and kept in its own storage. Level 1 data references its signing key by
+ * (securityProviderNum, keyId); tickets referencing a key that is absent
+ * from the imported list, expired or not yet valid are rejected.
+ */
+
+import {
+  canonicalJsonStringify,
+  importEcdsaPublicKey,
+  verifySignature,
+} from "./crypto";
+
+/** Registry root public key (signs the issuer key list, see keyRegistry.ts). */
+export const ROOT_PUBLIC_KEY_JWK: JsonWebKey = {
+  kty: "EC",
+  crv: "P-256",
+  x: "cCt2OQz0HmB9zcEiVwFL38A4ApW6xLV_EhowSlR1RPY",
+  y: "jbNuMexjlJ1_-9a_2-yDWQfN9nhU29_MKaLND5RNeBc",
+};
+
+const KEY_LIST_STORAGE_KEY = "dosipas-verifier:key-list";
+
+export interface PublishedIssuerKey {
+  securityProviderNum: number;
+  keyId: number;
+  publicKeyJwk: JsonWebKey;
+  validFrom: string;
+  validUntil: string;
+}
+
+export interface KeyList {
+  /** Monotonic list version, bumped on every rotation / retirement */
+  version: number;
+  issuedAt: string;
+  keys: PublishedIssuerKey[];
+}
+
+export interface SignedKeyList extends KeyList {
+  /** Root signature over canonical JSON of the list (DER, base64url) */
+  signature: string;
+}
+
+export type IssuerKeyStatus = "valid" | "unknown" | "expired" | "notYetValid";
+
+// ---------------------------------------------------------------------------
+// Key list verification and storage (verifier device)
+// ---------------------------------------------------------------------------
+
+/** Canonical bytes signed by the root: the list without its signature. */
+export function keyListSigningInput(list: KeyList): string {
+  return canonicalJsonStringify({
+    version: list.version,
+    issuedAt: list.issuedAt,
+    keys: list.keys,
+  });
+}
+
+export async function verifyKeyList(list: SignedKeyList): Promise<boolean> {
+  const rootKey = await importEcdsaPublicKey(ROOT_PUBLIC_KEY_JWK);
+  return verifySignature(
+    rootKey,
+    keyListSigningInput(list),
+    list.signature,
+  ).catch(() => false);
+}
+
+/** The key list currently trusted by this verifier, if any. */
+export function loadKeyList(): SignedKeyList | null {
+  const raw = localStorage.getItem(KEY_LIST_STORAGE_KEY);
+  return raw ? (JSON.parse(raw) as SignedKeyList) : null;
+}
+
+/**
+ * Import a signed key list: checks the root signature and refuses to roll
+ * back to an older version than the one already trusted.
+ */
+export async function importKeyList(list: SignedKeyList): Promise<void> {
+  if (!Array.isArray(list.keys) || typeof list.version !== "number") {
+    throw new Error("Malformed issuer key list.");
+  }
+  if (!(await verifyKeyList(list))) {
+    throw new Error("Issuer key list signature is invalid.");
+  }
+  const current = loadKeyList();
+  if (current && list.version < current.version) {
+    throw new Error(
+      `Key list version ${list.version} is older than the trusted version ${current.version}.`,
+    );
+  }
+  localStorage.setItem(KEY_LIST_STORAGE_KEY, JSON.stringify(list));
+}
+
+// ---------------------------------------------------------------------------
+// Key lookup
+// ---------------------------------------------------------------------------
+
+/**
+ * Find the issuer key referenced by level 1 data and check its validity
+ * period against the verification time.
+ */
+export function resolveIssuerKey(
+  keys: PublishedIssuerKey[],
+  securityProviderNum: number | undefined,
+  keyId: number | undefined,
+  now: Date = new Date(),
+): { key: PublishedIssuerKey | null; status: IssuerKeyStatus } {
+  const key = keys.find(
+    (k) => k.securityProviderNum === securityProviderNum && k.keyId === keyId,
+  );
+  if (!key) return { key: null, status: "unknown" };
+  if (now.getTime() < new Date(key.validFrom).getTime()) {
+    return { key, status: "notYetValid" };
+  }
+  if (now.getTime() > new Date(key.validUntil).getTime()) {
+    return { key, status: "expired" };
+  }
+  return { key, status: "valid" };
+}
@@ -0,0 +1,348 @@
+/**
+ * ASN.1 Unaligned Packed Encoding Rules (UPER, ITU-T X.691) primitives.
+ *
+ * Only the subset needed by the UIC barcode specifications is implemented:
+ * constrained / semi-constrained / unconstrained INTEGER, BOOLEAN,
+ * ENUMERATED, IA5String (unconstrained or fixed size), UTF8String,
+ * OCTET STRING, OBJECT IDENTIFIER, SEQUENCE preambles (extension bit +
+ * optional bitmap) and length determinants up to 16383 (no fragmentation).
+ */
+
+// ---------------------------------------------------------------------------
+// Writer
+// ---------------------------------------------------------------------------
+
+export class UperWriter {
+  private bytes: number[] = [];
+  private bitLength = 0;
+
+  /** Append the `count` low-order bits of `value`, most significant first. */
+  writeBits(value: number, count: number): void {
+    for (let i = count - 1; i >= 0; i--) {
+      this.writeBit(Math.floor(value / 2 ** i) % 2 === 1);
+    }
+  }
+
+  writeBit(bit: boolean): void {
+    const byteIndex = this.bitLength >> 3;
+    if (byteIndex === this.bytes.length) this.bytes.push(0);
+    if (bit) this.bytes[byteIndex] |= 0x80 >> (this.bitLength & 7);
+    this.bitLength++;
+  }
+
+  writeBoolean(value: boolean): void {
+    this.writeBit(value);
+  }
+
+  /** Write whole octets without alignment. */
+  writeOctets(octets: Uint8Array): void {
+    for (const b of octets) this.writeBits(b, 8);
+  }
+
+  /** Length determinant for unconstrained lengths (X.691 §11.9). */
+  writeLength(length: number): void {
+    if (length < 0x80) {
+      this.writeBits(length, 8);
+    } else if (length < 0x4000) {
+      this.writeBits(0x8000 | length, 16);
+    } else {
+      throw new Error(`UPER: length ${length} requires fragmentation`);
+    }
+  }
+
+  /** Constrained whole number in [min, max]. */
+  writeConstrainedInt(value: number, min: number, max: number): void {
+    if (!Number.isInteger(value) || value < min || value > max) {
+      throw new Error(`UPER: ${value} out of range ${min}..${max}`);
+    }
+    this.writeBits(value - min, bitsForRange(min, max));
+  }
+
+  /** Semi-constrained whole number (min..MAX). */
+  writeSemiConstrainedInt(value: number, min: number): void {
+    if (!Number.isInteger(value) || value < min) {
+      throw new Error(`UPER: ${value} below lower bound ${min}`);
+    }
+    const octets = unsignedToOctets(value - min);
+    this.writeLength(octets.length);
+    this.writeOctets(octets);
+  }
+
+  /** Unconstrained INTEGER (two's complement). */
+  writeUnconstrainedInt(value: number): void {
+    if (!Number.isSafeInteger(value)) {
+      throw new Error(`UPER: ${value} is not a safe integer`);
+    }
+    const octets = signedToOctets(value);
+    this.writeLength(octets.length);
+    this.writeOctets(octets);
+  }
+
+  /** ENUMERATED, optionally with an extension marker (root values only). */
+  writeEnumerated(index: number, count: number, extensible = false): void {
+    if (extensible) this.writeBit(false);
+    this.writeConstrainedInt(index, 0, count - 1);
+  }
+
+  /** Unconstrained IA5String (7 bits per character). */
+  writeIA5String(value: string): void {
+    this.writeLength(value.length);
+    this.writeIA5Characters(value);
+  }
+
+  /** IA5String (SIZE(size)): characters only, no length determinant. */
+  writeFixedIA5String(value: string, size: number): void {
+    if (value.length !== size) {
+      throw new Error(`UPER: "${value}" is not ${size} characters long`);
+    }
+    this.writeIA5Characters(value);
+  }
+
+  private writeIA5Characters(value: string): void {
+    for (let i = 0; i < value.length; i++) {
+      const code = value.charCodeAt(i);
+      if (code > 0x7f) {
+        throw new Error(`UPER: non-IA5 character in "${value}"`);
+      }
+      this.writeBits(code, 7);
+    }
+  }
+
+  /** Unconstrained UTF8String (length in octets). */
+  writeUTF8String(value: string): void {
+    this.writeOctetString(new TextEncoder().encode(value));
+  }
+
+  /** Unconstrained OCTET STRING. */
+  writeOctetString(value: Uint8Array): void {
+    this.writeLength(value.length);
+    this.writeOctets(value);
+  }
+
+  /** OBJECT IDENTIFIER in dotted notation (length + BER contents). */
+  writeObjectIdentifier(oid: string): void {
+    this.writeOctetString(encodeOidContents(oid));
+  }
+
+  /**
+   * SEQUENCE preamble: extension bit (if the type is extensible) followed
+   * by one presence bit per OPTIONAL / DEFAULT component.
+   */
+  writePreamble(present: boolean[], extensible: boolean): void {
+    if (extensible) this.writeBit(false);
+    for (const p of present) this.writeBit(p);
+  }
+
+  /** Finished encoding, zero-padded to a whole number of octets. */
+  toBytes(): Uint8Array {
+    return new Uint8Array(this.bytes);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Reader
+// ---------------------------------------------------------------------------
+
+export class UperReader {
+  private readonly bytes: Uint8Array;
+  private bitOffset = 0;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+  }
+
+  readBit(): boolean {
+    const byteIndex = this.bitOffset >> 3;
+    if (byteIndex >= this.bytes.length) {
+      throw new Error("UPER: unexpected end of data");
+    }
+    const bit = (this.bytes[byteIndex] & (0x80 >> (this.bitOffset & 7))) !== 0;
+    this.bitOffset++;
+    return bit;
+  }
+
+  readBits(count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i++) value = value * 2 + (this.readBit() ? 1 : 0);
+    return value;
+  }
+
+  readBoolean(): boolean {
+    return this.readBit();
+  }
+
+  readOctets(count: number): Uint8Array {
+    const out = new Uint8Array(count);
+    for (let i = 0; i < count; i++) out[i] = this.readBits(8);
+    return out;
+  }
+
+  readLength(): number {
+    if (!this.readBit()) return this.readBits(7);
+    if (!this.readBit()) return this.readBits(14);
+    throw new Error("UPER: fragmented lengths are not supported");
+  }
+
+  readConstrainedInt(min: number, max: number): number {
+    const value = min + this.readBits(bitsForRange(min, max));
+    if (value > max) {
+      throw new Error(`UPER: decoded ${value} out of range ${min}..${max}`);
+    }
+    return value;
+  }
+
+  readSemiConstrainedInt(min: number): number {
+    return min + octetsToUnsigned(this.readOctets(this.readLength()));
+  }
+
+  readUnconstrainedInt(): number {
+    return octetsToSigned(this.readOctets(this.readLength()));
+  }
+
+  readEnumerated(count: number, extensible = false): number {
+    if (extensible && this.readBit()) {
+      throw new Error("UPER: extension enumeration values are not supported");
+    }
+    return this.readConstrainedInt(0, count - 1);
+  }
+
+  readIA5String(): string {
+    return this.readFixedIA5String(this.readLength());
+  }
+
+  readFixedIA5String(size: number): string {
+    let out = "";
+    for (let i = 0; i < size; i++) out += String.fromCharCode(this.readBits(7));
+    return out;
+  }
+
+  readUTF8String(): string {
+    return new TextDecoder().decode(this.readOctetString());
+  }
+
+  readOctetString(): Uint8Array {
+    return this.readOctets(this.readLength());
+  }
+
+  readObjectIdentifier(): string {
+    return decodeOidContents(this.readOctetString());
+  }
+
+  /**
+   * Read a SEQUENCE preamble. Returns the presence bitmap and whether the
+   * extension bit was set (the caller then skips extension additions).
+   */
+  readPreamble(
+    optionalCount: number,
+    extensible: boolean,
+  ): { present: boolean[]; extended: boolean } {
+    const extended = extensible ? this.readBit() : false;
+    const present: boolean[] = [];
+    for (let i = 0; i < optionalCount; i++) present.push(this.readBit());
+    return { present, extended };
+  }
+
+  /**
+   * Skip the extension additions of an extensible SEQUENCE whose extension
+   * bit was set. Each addition is an open type (length-prefixed octets).
+   */
+  skipExtensions(): void {
+    // Normally-small length of the extension bitmap
+    if (this.readBit()) {
+      throw new Error("UPER: extension bitmap too large");
+    }
+    const count = this.readBits(6) + 1;
+    let present = 0;
+    for (let i = 0; i < count; i++) if (this.readBit()) present++;
+    for (let i = 0; i < present; i++) this.readOctetString();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Number of bits needed to encode a value of the range [min, max]. */
+function bitsForRange(min: number, max: number): number {
+  const range = max - min + 1;
+  let bits = 0;
+  while (2 ** bits < range) bits++;
+  return bits;
+}
+
+function unsignedToOctets(value: number): Uint8Array {
+  const out: number[] = [];
+  do {
+    out.unshift(value % 256);
+    value = Math.floor(value / 256);
+  } while (value > 0);
+  return new Uint8Array(out);
+}
+
+function octetsToUnsigned(octets: Uint8Array): number {
+  let value = 0;
+  for (const b of octets) value = value * 256 + b;
+  return value;
+}
+
+function signedToOctets(value: number): Uint8Array {
+  if (value >= 0) {
+    const octets = unsignedToOctets(value);
+    if (octets[0] & 0x80) return new Uint8Array([0, ...octets]);
+    return octets;
+  }
+  // Smallest two's complement representation of a negative number
+  let length = 1;
+  while (value < -(2 ** (8 * length - 1))) length++;
+  return unsignedToOctets(2 ** (8 * length) + value);
+}
+
+function octetsToSigned(octets: Uint8Array): number {
+  const unsigned = octetsToUnsigned(octets);
+  if (octets.length > 0 && octets[0] & 0x80) {
+    return unsigned - 2 ** (8 * octets.length);
+  }
+  return unsigned;
+}
+
+function encodeOidContents(oid: string): Uint8Array {
+  const arcs = oid.split(".").map((a) => {
+    const n = Number(a);
+    if (!Number.isSafeInteger(n) || n < 0) {
+      throw new Error(`UPER: invalid OBJECT IDENTIFIER "${oid}"`);
+    }
+    return n;
+  });
+  if (arcs.length < 2) {
+    throw new Error(`UPER: invalid OBJECT IDENTIFIER "${oid}"`);
+  }
+  const out: number[] = [];
+  const subIds = [arcs[0] * 40 + arcs[1], ...arcs.slice(2)];
+  for (const id of subIds) {
+    const base128: number[] = [];
+    let v = id;
+    do {
+      base128.unshift(v % 128);
+      v = Math.floor(v / 128);
+    } while (v > 0);
+    for (let i = 0; i < base128.length - 1; i++) base128[i] |= 0x80;
+    out.push(...base128);
+  }
+  return new Uint8Array(out);
+}
+
+function decodeOidContents(contents: Uint8Array): string {
+  const subIds: number[] = [];
+  let v = 0;
+  for (const b of contents) {
+    v = v * 128 + (b & 0x7f);
+    if (!(b & 0x80)) {
+      subIds.push(v);
+      v = 0;
+    }
+  }
+  if (subIds.length === 0) throw new Error("UPER: empty OBJECT IDENTIFIER");
+  const first = subIds[0];
+  const head = first < 80 ? [Math.floor(first / 40), first % 40] : [2, first - 80];
+  return [...head, ...subIds.slice(1)].join(".");
+}
@@ -0,0 +1,175 @@
+/**
+ * Offline validation bundle, for inspection devices without connectivity.
+ *
+ * The backend exports what a verifier needs to judge tickets on its own:
+ * the thumbprints of valid tickets with their validity windows, revoked
+ * thumbprints, and the signed issuer key list. The bundle is signed by the
+ * registry root key the verifier already pins (trust.ts).
+ *
+ * Bundles are versioned by the backend time they are current as of. A
+ * delta carries only the tickets issued or revoked since an earlier
+ * version; the verifier applies it on top of the bundle it holds, as long
+ * as that bundle is at least as recent as the delta's base. Tickets past
+ * their validity window are left out and dropped from the stored bundle.
+ *
+ * REST endpoints (Backend.exportValidationBundle(), see backend.ts):
+ *   - GET /validation-bundle                → full bundle
+ *   - GET /validation-bundle/since/:version → delta since a version
+ */
+
+import {
+  canonicalJsonStringify,
+  importEcdsaPublicKey,
+  verifySignature,
+} from "./crypto";
+import { ROOT_PUBLIC_KEY_JWK, importKeyList, loadKeyList } from "./trust";
+import type { SignedKeyList } from "./trust";
+
+const BUNDLE_STORAGE_KEY = "dosipas-verifier:validation-bundle";
+
+export interface BundleTicket {
+  thumbprint: string;
+  validFrom: string;
+  validUntil: string;
+}
+
+export interface BundleRevocation {
+  thumbprint: string;
+  revokedAt: string;
+  reason: string;
+  /** Kept until the ticket would have expired anyway */
+  validUntil: string;
+}
+
+export interface ValidationBundle {
+  /** Backend time (ms since the Unix epoch) the bundle is current as of */
+  version: number;
+  /** Version a delta applies on top of; null for a full bundle */
+  since: number | null;
+  tickets: BundleTicket[];
+  revoked: BundleRevocation[];
+  keyList: SignedKeyList;
+}
+
+export interface SignedValidationBundle extends ValidationBundle {
+  /** Root signature over canonical JSON of the bundle (DER, base64url) */
+  signature: string;
+}
+
+/** The verifier's merged bundle: the last full one plus later deltas. */
+export interface StoredBundle {
+  version: number;
+  importedAt: string;
+  tickets: BundleTicket[];
+  revoked: BundleRevocation[];
+}
+
+export type BundleStatus = "valid" | "revoked" | "notListed";
+
+/** Canonical bytes signed by the root: the bundle without its signature. */
+export function validationBundleSigningInput(
+  bundle: ValidationBundle,
+): string {
+  return canonicalJsonStringify({
+    version: bundle.version,
+    since: bundle.since,
+    tickets: bundle.tickets,
+    revoked: bundle.revoked,
+    keyList: bundle.keyList,
+  });
+}
+
+export async function verifyValidationBundle(
+  bundle: SignedValidationBundle,
+): Promise<boolean> {
+  const rootKey = await importEcdsaPublicKey(ROOT_PUBLIC_KEY_JWK);
+  return verifySignature(
+    rootKey,
+    validationBundleSigningInput(bundle),
+    bundle.signature,
+  ).catch(() => false);
+}
+
+// ---------------------------------------------------------------------------
+// Verifier storage
+// ---------------------------------------------------------------------------
+
+export function loadValidationBundle(): StoredBundle | null {
+  const raw = localStorage.getItem(BUNDLE_STORAGE_KEY);
+  return raw ? (JSON.parse(raw) as StoredBundle) : null;
+}
+
+/**
+ * Import a full bundle or apply a delta: checks the root signature, refuses
+ * to roll back to an older version and deltas based on a version newer
+ * than the stored one. Also imports the bundle's key list when it is not
+ * older than the trusted one.
+ */
+export async function importValidationBundle(
+  bundle: SignedValidationBundle,
+  now: Date = new Date(),
+): Promise<StoredBundle> {
+  if (
+    typeof bundle.version !== "number" ||
+    !Array.isArray(bundle.tickets) ||
+    !Array.isArray(bundle.revoked)
+  ) {
+    throw new Error("Malformed validation bundle.");
+  }
+  if (!(await verifyValidationBundle(bundle))) {
+    throw new Error("Validation bundle signature is invalid.");
+  }
+  const current = loadValidationBundle();
+  if (current && bundle.version < current.version) {
+    throw new Error(
+      `Validation bundle version ${bundle.version} is older than the stored version ${current.version}.`,
+    );
+  }
+  if (bundle.since !== null && (!current || bundle.since > current.version)) {
+    throw new Error(
+      `Delta since version ${bundle.since} does not apply to ${current ? `version ${current.version}` : "an empty store"}: import a full bundle.`,
+    );
+  }
+
+  const tickets = new Map<string, BundleTicket>();
+  const revoked = new Map<string, BundleRevocation>();
+  if (bundle.since !== null) {
+    for (const t of current!.tickets) tickets.set(t.thumbprint, t);
+    for (const r of current!.revoked) revoked.set(r.thumbprint, r);
+  }
+  for (const t of bundle.tickets) tickets.set(t.thumbprint, t);
+  for (const r of bundle.revoked) {
+    tickets.delete(r.thumbprint);
+    revoked.set(r.thumbprint, r);
+  }
+  const unexpired = (entry: { validUntil: string }) =>
+    new Date(entry.validUntil).getTime() >= now.getTime();
+
+  const stored: StoredBundle = {
+    version: bundle.version,
+    importedAt: now.toISOString(),
+    tickets: [...tickets.values()].filter(unexpired),
+    revoked: [...revoked.values()].filter(unexpired),
+  };
+  const keyList = loadKeyList();
+  if (!keyList || bundle.keyList.version >= keyList.version) {
+    await importKeyList(bundle.keyList);
+  }
+  localStorage.setItem(BUNDLE_STORAGE_KEY, JSON.stringify(stored));
+  return stored;
+}
+
+/** What the stored bundle says about a ticket public key's thumbprint. */
+export function lookupValidationBundle(
+  bundle: StoredBundle,
+  thumbprint: string,
+): { status: BundleStatus; revocation: BundleRevocation | null } {
+  const revocation = bundle.revoked.find((r) => r.thumbprint === thumbprint);
+  if (revocation) return { status: "revoked", revocation };
+  return {
+    status: bundle.tickets.some((t) => t.thumbprint === thumbprint)
+      ? "valid"
+      : "notListed",
+    revocation: null,
+  };
+}
@@ -0,0 +1,222 @@
+/**
+ * Encrypted local ticket vault backed by IndexedDB.
+ *
+ * Entries are encrypted with AES-GCM-256 under the account-level key
+ * derived from the master secret (see keyWrapping.ts), so the vault can be
+ * opened right after a passkey unlock with any enrolled passkey, before any
+ * ticket key is derived and without reaching the backend.
+ *
+ * Each entry has its own random 96-bit nonce. The associated data binds the
+ * ciphertext to its slot (vault version + account + entry kind + ID), so
+ * entries cannot be swapped between slots or accounts undetected.
+ *
+ * Entry kinds:
+ *   - ticket   → PaymentRecord (one per ticket)
+ *   - payload  → last signed barcode of a ticket
+ *   - meta     → user metadata (one per account)
+ */
+
+import type { PaymentRecord } from "./fakeBackend";
+
+const DB_NAME = "dosipas-vault";
+const DB_VERSION = 2;
+const STORE = "entries";
+const AAD_PREFIX = "dosipas-vault-v2";
+
+type EntryKind = "ticket" | "payload" | "meta";
+
+/** Stored (encrypted) IndexedDB row. */
+interface VaultRow {
+  /** `${accountId}/${kind}/${entryId}` */
+  id: string;
+  accountId: string;
+  kind: EntryKind;
+  iv: Uint8Array;
+  ciphertext: Uint8Array;
+  updatedAt: string;
+}
+
+export interface Vault {
+  db: IDBDatabase;
+  aesKey: CryptoKey;
+  /** Account (WebAuthn user handle, base64url) owning the entries */
+  accountId: string;
+}
+
+export interface SignedPayloadEntry {
+  ticketId: string;
+  /** UicBarcodeHeader bytes, hex */
+  barcodeHex: string;
+  signatureDate: string;
+}
+
+export interface VaultMetadata {
+  email: string;
+  accountId: string;
+  /** Passkey used for the last unlock */
+  credentialId: string;
+  createdAt: string;
+  lastUnlockAt: string;
+}
+
+// ---------------------------------------------------------------------------
+// Open
+// ---------------------------------------------------------------------------
+
+/** Open (or create) the vault of an account. */
+export async function openVault(
+  aesKey: CryptoKey,
+  accountId: string,
+): Promise<Vault> {
+  const open = indexedDB.open(DB_NAME, DB_VERSION);
+  open.onupgradeneeded = () => {
+    // v1 entries were keyed per credential under keys that no longer exist
+    if (open.result.objectStoreNames.contains(STORE)) {
+      open.result.deleteObjectStore(STORE);
+    }
+    const store = open.result.createObjectStore(STORE, { keyPath: "id" });
+    store.createIndex("accountId", "accountId");
+  };
+  const db = await request(open);
+  return { db, aesKey, accountId };
+}
+
+// ---------------------------------------------------------------------------
+// Typed accessors
+// ---------------------------------------------------------------------------
+
+export async function putTicket(
+  vault: Vault,
+  record: PaymentRecord,
+): Promise<void> {
+  await putEntry(vault, "ticket", record.ticketId, record);
+}
+
+export async function listTickets(vault: Vault): Promise<PaymentRecord[]> {
+  const records = await listEntries<PaymentRecord>(vault, "ticket");
+  return records.sort((a, b) => a.paymentDate.localeCompare(b.paymentDate));
+}
+
+export async function putLastPayload(
+  vault: Vault,
+  payload: SignedPayloadEntry,
+): Promise<void> {
+  await putEntry(vault, "payload", payload.ticketId, payload);
+}
+
+export async function getLastPayload(
+  vault: Vault,
+  ticketId: string,
+): Promise<SignedPayloadEntry | null> {
+  return getEntry<SignedPayloadEntry>(vault, "payload", ticketId);
+}
+
+export async function putMetadata(
+  vault: Vault,
+  meta: VaultMetadata,
+): Promise<void> {
+  await putEntry(vault, "meta", "user", meta);
+}
+
+export async function getMetadata(vault: Vault): Promise<VaultMetadata | null> {
+  return getEntry<VaultMetadata>(vault, "meta", "user");
+}
+
+/** Number of encrypted entries held for the vault's account. */
+export async function countEntries(vault: Vault): Promise<number> {
+  const index = vault.db
+    .transaction(STORE, "readonly")
+    .objectStore(STORE)
+    .index("accountId");
+  return request(index.count(vault.accountId));
+}
+
+// ---------------------------------------------------------------------------
+// Encrypted entries
+// ---------------------------------------------------------------------------
+
+function rowId(vault: Vault, kind: EntryKind, entryId: string): string {
+  return `${vault.accountId}/${kind}/${entryId}`;
+}
+
+function associatedData(id: string): Uint8Array {
+  return new TextEncoder().encode(`${AAD_PREFIX}\0${id}`);
+}
+
+async function putEntry(
+  vault: Vault,
+  kind: EntryKind,
+  entryId: string,
+  value: unknown,
+): Promise<void> {
+  const id = rowId(vault, kind, entryId);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    {
+      name: "AES-GCM",
+      iv: iv as BufferSource,
+      additionalData: associatedData(id) as BufferSource,
+    },
+    vault.aesKey,
+    new TextEncoder().encode(JSON.stringify(value)) as BufferSource,
+  );
+  const row: VaultRow = {
+    id,
+    accountId: vault.accountId,
+    kind,
+    iv,
+    ciphertext: new Uint8Array(ciphertext),
+    updatedAt: new Date().toISOString(),
+  };
+  const store = vault.db.transaction(STORE, "readwrite").objectStore(STORE);
+  await request(store.put(row));
+}
+
+async function getEntry<T>(
+  vault: Vault,
+  kind: EntryKind,
+  entryId: string,
+): Promise<T | null> {
+  const store = vault.db.transaction(STORE, "readonly").objectStore(STORE);
+  const row = (await request(store.get(rowId(vault, kind, entryId)))) as
+    | VaultRow
+    | undefined;
+  return row ? decryptRow<T>(vault, row) : null;
+}
+
+async function listEntries<T>(vault: Vault, kind: EntryKind): Promise<T[]> {
+  const index = vault.db
+    .transaction(STORE, "readonly")
+    .objectStore(STORE)
+    .index("accountId");
+  const rows = (await request(index.getAll(vault.accountId))) as VaultRow[];
+  return Promise.all(
+    rows.filter((r) => r.kind === kind).map((r) => decryptRow<T>(vault, r)),
+  );
+}
+
+async function decryptRow<T>(vault: Vault, row: VaultRow): Promise<T> {
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      {
+        name: "AES-GCM",
+        iv: row.iv as BufferSource,
+        additionalData: associatedData(row.id) as BufferSource,
+      },
+      vault.aesKey,
+      row.ciphertext as BufferSource,
+    );
+  } catch {
+    throw new Error(`Vault entry ${row.id} failed authentication.`);
+  }
+  return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+}
+
+/** Promisify an IndexedDB request. */
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
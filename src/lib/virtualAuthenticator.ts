@@ -0,0 +1,409 @@
+/**
+ * Software WebAuthn authenticator for development and headless testing.
+ *
+ * Stands in for navigator.credentials (see webauthn.ts) when enabled by
+ * the dev setting below, so the whole register → pay → ticket → verify
+ * loop runs without a security key — in a plain browser or a headless one
+ * on CI. It behaves like a platform authenticator holding discoverable
+ * credentials:
+ *   - create(): a fresh ES256 key pair, "none" attestation with attested
+ *     credential data (COSE key, zero AAGUID), UP + UV set;
+ *   - get(): an ES256 assertion over authenticatorData || SHA-256(clientData)
+ *     with an incrementing sign counter. Without allowCredentials it
+ *     answers with the most recently used credential (no account picker);
+ *   - PRF: emulated like CTAP2 hmac-secret, as HMAC-SHA-256 under a random
+ *     per-credential secret of the salt SHA-256("WebAuthn PRF" || 0x00 ||
+ *     input). It can be switched off to exercise the passphrase fallback.
+ *
+ * Credentials, including their private keys, sit in localStorage in the
+ * clear: this is a development tool, never a real authenticator.
+ *
+ * Enabled by the "Software authenticator" setting in the Backend tab, or
+ * by default with VITE_VIRTUAL_AUTHENTICATOR=true at build time.
+ */
+
+import { encodeCbor } from "./cbor";
+import type { CborValue } from "./cbor";
+import { base64urlDecode, base64urlEncode, signBytes } from "./crypto";
+
+const SETTINGS_KEY = "dosipas-dev:virtual-authenticator";
+const CREDENTIAL_PREFIX = "dosipas-dev:virtual-credential:";
+
+/** COSE algorithm identifier for ECDSA P-256 / SHA-256. */
+const COSE_ALG_ES256 = -7;
+
+/** Authenticator data flags. */
+const FLAG_UP = 0x01;
+const FLAG_UV = 0x04;
+const FLAG_AT = 0x40;
+
+export interface VirtualAuthenticatorSettings {
+  enabled: boolean;
+  /** Support the PRF extension (off: behave like an authenticator without it) */
+  prf: boolean;
+}
+
+export interface VirtualCredential {
+  /** Credential ID (base64url) */
+  credentialId: string;
+  rpId: string;
+  /** User handle (base64url) */
+  userHandle: string;
+  userName: string;
+  privateKeyJwk: JsonWebKey;
+  /** hmac-secret CredRandom (base64url), null without PRF support */
+  prfSecret: string | null;
+  signCount: number;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// Settings
+// ---------------------------------------------------------------------------
+
+export function getVirtualAuthenticatorSettings(): VirtualAuthenticatorSettings {
+  const raw = localStorage.getItem(SETTINGS_KEY);
+  if (raw) return JSON.parse(raw) as VirtualAuthenticatorSettings;
+  return {
+    enabled: import.meta.env.VITE_VIRTUAL_AUTHENTICATOR === "true",
+    prf: true,
+  };
+}
+
+export function setVirtualAuthenticatorSettings(
+  settings: VirtualAuthenticatorSettings,
+): void {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+export function isVirtualAuthenticatorEnabled(): boolean {
+  return getVirtualAuthenticatorSettings().enabled;
+}
+
+// ---------------------------------------------------------------------------
+// Credential store
+// ---------------------------------------------------------------------------
+
+/** Credentials held by the software authenticator, newest first. */
+export function listVirtualCredentials(): VirtualCredential[] {
+  const credentials: VirtualCredential[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key && key.startsWith(CREDENTIAL_PREFIX)) {
+      try {
+        credentials.push(
+          JSON.parse(localStorage.getItem(key)!) as VirtualCredential,
+        );
+      } catch {
+        // skip malformed entries
+      }
+    }
+  }
+  return credentials.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/** Drop a credential, as an authenticator does on a signal or user request. */
+export function deleteVirtualCredential(credentialId: string): void {
+  localStorage.removeItem(CREDENTIAL_PREFIX + credentialId);
+}
+
+/** Drop a user's credentials that are not in the accepted list. */
+export function retainVirtualCredentials(
+  rpId: string,
+  userHandle: string,
+  acceptedCredentialIds: string[],
+): void {
+  for (const c of listVirtualCredentials()) {
+    if (
+      c.rpId === rpId &&
+      c.userHandle === userHandle &&
+      !acceptedCredentialIds.includes(c.credentialId)
+    ) {
+      deleteVirtualCredential(c.credentialId);
+    }
+  }
+}
+
+export function clearVirtualCredentials(): void {
+  for (const c of listVirtualCredentials()) {
+    deleteVirtualCredential(c.credentialId);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// CredentialsContainer stand-in
+// ---------------------------------------------------------------------------
+
+/** navigator.credentials.create() for a public key credential. */
+export async function virtualCreate(
+  options: CredentialCreationOptions,
+): Promise<PublicKeyCredential> {
+  const publicKey = options.publicKey;
+  if (!publicKey) {
+    throw new DOMException("Only public key credentials.", "NotSupportedError");
+  }
+  throwIfAborted(options.signal);
+  if (!publicKey.pubKeyCredParams.some((p) => p.alg === COSE_ALG_ES256)) {
+    throw new DOMException("ES256 is required.", "NotSupportedError");
+  }
+
+  const rpId = publicKey.rp.id ?? window.location.hostname;
+  const excluded = (publicKey.excludeCredentials ?? []).map((c) =>
+    base64urlEncode(toBytes(c.id)),
+  );
+  if (
+    listVirtualCredentials().some(
+      (c) => c.rpId === rpId && excluded.includes(c.credentialId),
+    )
+  ) {
+    throw new DOMException(
+      "The authenticator holds an excluded credential.",
+      "InvalidStateError",
+    );
+  }
+
+  const pair = (await crypto.subtle.generateKey(
+    { name: "ECDSA", namedCurve: "P-256" },
+    true,
+    ["sign", "verify"],
+  )) as CryptoKeyPair;
+  const publicJwk = await crypto.subtle.exportKey("jwk", pair.publicKey);
+  const credentialId = crypto.getRandomValues(new Uint8Array(32));
+  const { prf } = getVirtualAuthenticatorSettings();
+  const credential: VirtualCredential = {
+    credentialId: base64urlEncode(credentialId),
+    rpId,
+    userHandle: base64urlEncode(toBytes(publicKey.user.id)),
+    userName: publicKey.user.name,
+    privateKeyJwk: await crypto.subtle.exportKey("jwk", pair.privateKey),
+    prfSecret: prf
+      ? base64urlEncode(crypto.getRandomValues(new Uint8Array(32)))
+      : null,
+    signCount: 0,
+    createdAt: new Date().toISOString(),
+    lastUsedAt: null,
+  };
+
+  const coseKey = encodeCbor(
+    new Map<CborValue, CborValue>([
+      [1, 2], // kty: EC2
+      [3, COSE_ALG_ES256],
+      [-1, 1], // crv: P-256
+      [-2, base64urlDecode(publicJwk.x!)],
+      [-3, base64urlDecode(publicJwk.y!)],
+    ]),
+  );
+  const authData = concat(
+    await sha256(new TextEncoder().encode(rpId)),
+    new Uint8Array([FLAG_UP | FLAG_UV | FLAG_AT]),
+    uint32(credential.signCount),
+    new Uint8Array(16), // AAGUID: not disclosed
+    new Uint8Array([credentialId.length >> 8, credentialId.length & 0xff]),
+    credentialId,
+    coseKey,
+  );
+  const clientDataJSON = clientData("webauthn.create", publicKey.challenge);
+  const attestationObject = encodeCbor(
+    new Map<CborValue, CborValue>([
+      ["fmt", "none"],
+      ["attStmt", new Map()],
+      ["authData", authData],
+    ]),
+  );
+
+  localStorage.setItem(
+    CREDENTIAL_PREFIX + credential.credentialId,
+    JSON.stringify(credential),
+  );
+
+  const requested = publicKey.extensions as { prf?: unknown } | undefined;
+  return fakeCredential(credentialId, {
+    response: {
+      clientDataJSON: toBuffer(clientDataJSON),
+      attestationObject: toBuffer(attestationObject),
+      getTransports: () => ["internal"],
+    },
+    extensions: requested?.prf ? { prf: { enabled: prf } } : {},
+  });
+}
+
+/**
+ * navigator.credentials.get() for a public key credential. A conditional
+ * request never resolves (there is no autofill UI): it waits to be aborted.
+ */
+export async function virtualGet(
+  options: CredentialRequestOptions,
+): Promise<PublicKeyCredential | null> {
+  const publicKey = options.publicKey;
+  if (!publicKey) {
+    throw new DOMException("Only public key credentials.", "NotSupportedError");
+  }
+  throwIfAborted(options.signal);
+  if (options.mediation === "conditional") {
+    return new Promise((_, reject) => {
+      options.signal?.addEventListener("abort", () =>
+        reject(new DOMException("Aborted.", "AbortError")),
+      );
+    });
+  }
+
+  const rpId = publicKey.rpId ?? window.location.hostname;
+  const allowed = (publicKey.allowCredentials ?? []).map((c) =>
+    base64urlEncode(toBytes(c.id)),
+  );
+  const candidates = listVirtualCredentials()
+    .filter((c) => c.rpId === rpId)
+    .filter((c) => allowed.length === 0 || allowed.includes(c.credentialId))
+    .sort((a, b) =>
+      (b.lastUsedAt ?? b.createdAt).localeCompare(a.lastUsedAt ?? a.createdAt),
+    );
+  const credential = candidates[0];
+  if (!credential) {
+    // What a browser reports when the user has no matching passkey
+    throw new DOMException(
+      "No matching credential on the software authenticator.",
+      "NotAllowedError",
+    );
+  }
+
+  const updated: VirtualCredential = {
+    ...credential,
+    signCount: credential.signCount + 1,
+    lastUsedAt: new Date().toISOString(),
+  };
+  localStorage.setItem(
+    CREDENTIAL_PREFIX + updated.credentialId,
+    JSON.stringify(updated),
+  );
+
+  const authData = concat(
+    await sha256(new TextEncoder().encode(rpId)),
+    new Uint8Array([FLAG_UP | FLAG_UV]),
+    uint32(updated.signCount),
+  );
+  const clientDataJSON = clientData("webauthn.get", publicKey.challenge);
+  const privateKey = await crypto.subtle.importKey(
+    "jwk",
+    updated.privateKeyJwk,
+    { name: "ECDSA", namedCurve: "P-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await signBytes(
+    privateKey,
+    concat(authData, await sha256(clientDataJSON)),
+  );
+
+  return fakeCredential(base64urlDecode(updated.credentialId), {
+    response: {
+      clientDataJSON: toBuffer(clientDataJSON),
+      authenticatorData: toBuffer(authData),
+      signature: toBuffer(signature),
+      userHandle: toBuffer(base64urlDecode(updated.userHandle)),
+    },
+    extensions: await evaluatePrf(updated, publicKey.extensions),
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Internals
+// ---------------------------------------------------------------------------
+
+/** PRF results for the credential, as the client would report them. */
+async function evaluatePrf(
+  credential: VirtualCredential,
+  extensions: AuthenticationExtensionsClientInputs | undefined,
+): Promise<Record<string, unknown>> {
+  const prf = extensions?.prf;
+  if (!prf || !credential.prfSecret) return {};
+  const values = prf.evalByCredential?.[credential.credentialId] ?? prf.eval;
+  if (!values) return { prf: {} };
+
+  const key = await crypto.subtle.importKey(
+    "raw",
+    base64urlDecode(credential.prfSecret) as BufferSource,
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const evaluate = async (input: BufferSource) => {
+    const salt = await sha256(
+      concat(new TextEncoder().encode("WebAuthn PRF\0"), toBytes(input)),
+    );
+    return crypto.subtle.sign("HMAC", key, salt as BufferSource);
+  };
+  return {
+    prf: {
+      results: {
+        first: await evaluate(values.first),
+        ...(values.second && { second: await evaluate(values.second) }),
+      },
+    },
+  };
+}
+
+function fakeCredential(
+  rawId: Uint8Array,
+  parts: { response: object; extensions: Record<string, unknown> },
+): PublicKeyCredential {
+  return {
+    id: base64urlEncode(rawId),
+    rawId: toBuffer(rawId),
+    type: "public-key",
+    authenticatorAttachment: "platform",
+    response: parts.response,
+    getClientExtensionResults: () => parts.extensions,
+  } as unknown as PublicKeyCredential;
+}
+
+function clientData(type: string, challenge: BufferSource): Uint8Array {
+  return new TextEncoder().encode(
+    JSON.stringify({
+      type,
+      challenge: base64urlEncode(toBytes(challenge)),
+      origin: window.location.origin,
+      crossOrigin: false,
+    }),
+  );
+}
+
+function throwIfAborted(signal: AbortSignal | null | undefined): void {
+  if (signal?.aborted) throw new DOMException("Aborted.", "AbortError");
+}
+
+async function sha256(data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(
+    await crypto.subtle.digest("SHA-256", data as BufferSource),
+  );
+}
+
+function uint32(value: number): Uint8Array {
+  return new Uint8Array([
+    (value >>> 24) & 0xff,
+    (value >>> 16) & 0xff,
+    (value >>> 8) & 0xff,
+    value & 0xff,
+  ]);
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function toBytes(source: BufferSource): Uint8Array {
+  return source instanceof ArrayBuffer
+    ? new Uint8Array(source)
+    : new Uint8Array(source.buffer, source.byteOffset, source.byteLength);
+}
+
+function toBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.slice().buffer as ArrayBuffer;
+}
+
@@ -3,48 +3,119 @@
  *
  * Flow:
  *  1. register(email): create a discoverable credential with PRF enabled.
- *  2. authenticate(credentialId?): authenticate + evaluate PRF → 32 bytes.
+ *  2. authenticate(options): authenticate + evaluate PRF → 32 bytes,
+ *     either from a modal prompt or, with conditional mediation, from the
+ *     browser's autofill on an `autocomplete="webauthn"` input.
  *
- * The PRF salt is a fixed application-specific value so that the same
- * credential always produces the same 32-byte output (one credential =
- * one identity = one deterministic key set).
+ * PRF is evaluated with a fixed application salt, giving one output per
+ * credential. That output only unwraps the account master secret (see
+ * keyWrapping.ts); every key the app uses derives from the master secret,
+ * so any enrolled passkey yields the same keys. Authenticators without PRF
+ * return no output; the caller then falls back to a passphrase.
+ *
+ * Ceremonies that the backend must verify (see relyingParty.ts) take their
+ * challenge (and user handle) from it and return the raw authenticator
+ * response; other ceremonies use a local random challenge.
+ *
+ * Rejections are mapped to the typed errors of webauthnErrors.ts.
+ *
+ * With the dev setting on, every ceremony goes to the software
+ * authenticator of virtualAuthenticator.ts instead of navigator.credentials.
+ *
+ * The signal API helpers tell the authenticator (password manager) which
+ * credentials the backend no longer accepts, where the browser supports it.
  */
 
+import { base64urlEncode } from "./crypto";
+import { UserCancelledError, toWebAuthnError } from "./webauthnErrors";
+import {
+  deleteVirtualCredential,
+  getVirtualAuthenticatorSettings,
+  isVirtualAuthenticatorEnabled,
+  retainVirtualCredentials,
+  virtualCreate,
+  virtualGet,
+} from "./virtualAuthenticator";
+
 const RP_NAME = "DOSIPAS Ticket";
 
+/** Modal ceremony timeout; a NotAllowedError after it means "timed out". */
+const CEREMONY_TIMEOUT_MS = 120_000;
+
 function rpId(): string {
   return window.location.hostname;
 }
 
-function randomChallenge(): BufferSource {
-  return crypto.getRandomValues(new Uint8Array(32)) as BufferSource;
+/** navigator.credentials, or the software authenticator in dev mode. */
+function credentialsContainer(): Pick<CredentialsContainer, "create" | "get"> {
+  return isVirtualAuthenticatorEnabled()
+    ? { create: virtualCreate, get: virtualGet }
+    : navigator.credentials;
+}
+
+function randomChallenge(): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(32));
 }
 
-/** Fixed PRF salt — SHA-256("dosipas-prf-v1") */
+/** Fixed account PRF salt — SHA-256("dosipas-prf-v1") */
 async function prfSalt(): Promise<Uint8Array> {
   const input = new TextEncoder().encode("dosipas-prf-v1");
   const hash = await crypto.subtle.digest("SHA-256", input);
   return new Uint8Array(hash);
 }
 
+/** Raw registration response, as sent to the relying party. */
+export interface AttestationResponse {
+  clientDataJSON: Uint8Array;
+  attestationObject: Uint8Array;
+  transports: string[];
+  /** PRF support, from the client extension results */
+  prfEnabled: boolean;
+}
+
+/** Raw authentication response, as sent to the relying party. */
+export interface AssertionResponse {
+  clientDataJSON: Uint8Array;
+  authenticatorData: Uint8Array;
+  /** ASN.1 DER ECDSA signature over authenticatorData || SHA-256(clientDataJSON) */
+  signature: Uint8Array;
+  userHandle: Uint8Array | null;
+}
+
+export interface RegisterOptions {
+  /** Challenge issued by the relying party */
+  challenge?: Uint8Array;
+  /** User handle assigned by the relying party */
+  userId?: Uint8Array;
+  /** Credentials the account already has, not to be created again */
+  excludeCredentials?: { id: Uint8Array; transports: string[] }[];
+}
+
 export interface RegisterResult {
   credentialId: Uint8Array;
   prfSupported: boolean;
+  attestation: AttestationResponse;
 }
 
 /**
  * Register a new discoverable credential with PRF enabled.
- * Returns the credential ID and whether PRF is supported.
+ * Returns the credential ID, whether PRF is supported and the attestation
+ * response for the relying party.
  */
-export async function register(email: string): Promise<RegisterResult> {
+export async function register(
+  email: string,
+  options: RegisterOptions = {},
+): Promise<RegisterResult> {
   const createOptions: PublicKeyCredentialCreationOptions = {
     rp: { name: RP_NAME, id: rpId() },
     user: {
-      id: crypto.getRandomValues(new Uint8Array(16)) as BufferSource,
+      id: (options.userId ??
+        crypto.getRandomValues(new Uint8Array(16))) as BufferSource,
       name: email,
       displayName: email,
     },
-    challenge: randomChallenge(),
+    challenge: (options.challenge ?? randomChallenge()) as BufferSource,
+    timeout: CEREMONY_TIMEOUT_MS,
     pubKeyCredParams: [{ alg: -7, type: "public-key" }], // ES256
     authenticatorSelection: {
       residentKey: "required",
@@ -53,44 +124,228 @@ export async function register(email: string): Promise<RegisterResult> {
     extensions: {
       prf: {},
     },
+    excludeCredentials: (options.excludeCredentials ?? []).map((c) => ({
+      id: c.id as BufferSource,
+      type: "public-key" as const,
+      transports: c.transports as AuthenticatorTransport[],
+    })),
   };
 
-  const credential = (await navigator.credentials.create({
-    publicKey: createOptions,
-  })) as PublicKeyCredential | null;
+  const startedAt = Date.now();
+  let credential: PublicKeyCredential | null;
+  try {
+    credential = (await credentialsContainer().create({
+      publicKey: createOptions,
+    })) as PublicKeyCredential | null;
+  } catch (err) {
+    throw toWebAuthnError(err, { startedAt, timeoutMs: CEREMONY_TIMEOUT_MS });
+  }
 
-  if (!credential) throw new Error("Registration cancelled.");
+  if (!credential) throw new UserCancelledError();
 
   const extResults = credential.getClientExtensionResults() as Record<
     string,
     unknown
   >;
   const prfResult = extResults.prf as { enabled?: boolean } | undefined;
+  const response = credential.response as AuthenticatorAttestationResponse;
 
   return {
     credentialId: new Uint8Array(credential.rawId),
     prfSupported: prfResult?.enabled === true,
+    attestation: {
+      clientDataJSON: new Uint8Array(response.clientDataJSON),
+      attestationObject: new Uint8Array(response.attestationObject),
+      transports: response.getTransports?.() ?? [],
+      prfEnabled: prfResult?.enabled === true,
+    },
   };
 }
 
+// ---------------------------------------------------------------------------
+// Capabilities
+// ---------------------------------------------------------------------------
+
+/** Answer of one capability check; "unknown" when the browser can't tell. */
+export type Capability = "supported" | "unsupported" | "unknown";
+
+/** What the browser and its authenticators can do, probed before registering. */
+export interface WebAuthnCapabilities {
+  /** PublicKeyCredential and navigator.credentials exist */
+  webauthn: boolean;
+  /** HTTPS or localhost: WebAuthn refuses anything else */
+  secureContext: boolean;
+  /** Raw PublicKeyCredential.getClientCapabilities() result, if implemented */
+  clientCapabilities: Record<string, boolean> | null;
+  /** Built-in user-verifying authenticator (Touch ID, Windows Hello…) */
+  platformAuthenticator: Capability;
+  /** Passkeys offered in input autofill */
+  conditionalMediation: Capability;
+  /** Cross-device sign-in with a phone */
+  hybridTransport: Capability;
+  /**
+   * The browser passes the PRF extension through. A given authenticator may
+   * still lack it; registration reports that for the new credential.
+   */
+  prf: Capability;
+  /** The CTAP2 hmac-secret extension that PRF builds on */
+  hmacSecret: Capability;
+  /** WebAuthn signal API (removed credentials) */
+  signalApi: boolean;
+  /** Ceremonies go to the software authenticator (dev setting) */
+  virtualAuthenticator: boolean;
+}
+
+/**
+ * Probe WebAuthn support without a ceremony: getClientCapabilities()
+ * where implemented, else the older individual feature checks.
+ */
+export async function probeCapabilities(): Promise<WebAuthnCapabilities> {
+  if (isVirtualAuthenticatorEnabled()) {
+    const prf = getVirtualAuthenticatorSettings().prf
+      ? "supported"
+      : "unsupported";
+    return {
+      webauthn: true,
+      secureContext: window.isSecureContext,
+      clientCapabilities: null,
+      platformAuthenticator: "supported",
+      conditionalMediation: "unsupported",
+      hybridTransport: "unsupported",
+      prf,
+      hmacSecret: prf,
+      signalApi: true,
+      virtualAuthenticator: true,
+    };
+  }
+
+  const webauthn =
+    typeof PublicKeyCredential !== "undefined" && !!navigator.credentials;
+  const secureContext = window.isSecureContext;
+
+  let clientCapabilities: Record<string, boolean> | null = null;
+  if (
+    webauthn &&
+    typeof PublicKeyCredential.getClientCapabilities === "function"
+  ) {
+    try {
+      clientCapabilities = {
+        ...(await PublicKeyCredential.getClientCapabilities()),
+      } as Record<string, boolean>;
+    } catch {
+      // treated as not implemented
+    }
+  }
+  const reported = (key: string): Capability =>
+    clientCapabilities && key in clientCapabilities
+      ? clientCapabilities[key]
+        ? "supported"
+        : "unsupported"
+      : "unknown";
+  const checked = async (check: () => Promise<boolean>): Promise<Capability> =>
+    check().then(
+      (ok) => (ok ? "supported" : "unsupported"),
+      () => "unknown",
+    );
+
+  let platformAuthenticator = reported("userVerifyingPlatformAuthenticator");
+  if (platformAuthenticator === "unknown" && webauthn) {
+    platformAuthenticator = await checked(() =>
+      PublicKeyCredential.isUserVerifyingPlatformAuthenticatorAvailable(),
+    );
+  }
+  let conditionalMediation = reported("conditionalGet");
+  if (conditionalMediation === "unknown" && webauthn) {
+    conditionalMediation = await checked(isConditionalMediationAvailable);
+  }
+
+  return {
+    webauthn,
+    secureContext,
+    clientCapabilities,
+    platformAuthenticator,
+    conditionalMediation,
+    hybridTransport: reported("hybridTransport"),
+    prf: reported("extension:prf"),
+    hmacSecret: reported("extension:hmacCreateSecret"),
+    signalApi: isSignalApiAvailable(),
+    virtualAuthenticator: false,
+  };
+}
+
+/**
+ * Whether the browser can offer passkeys in input autofill
+ * (conditional mediation).
+ */
+export async function isConditionalMediationAvailable(): Promise<boolean> {
+  // The software authenticator has no autofill UI
+  if (isVirtualAuthenticatorEnabled()) return false;
+  if (typeof PublicKeyCredential === "undefined") return false;
+  if (typeof PublicKeyCredential.isConditionalMediationAvailable !== "function") {
+    return false;
+  }
+  try {
+    return await PublicKeyCredential.isConditionalMediationAvailable();
+  } catch {
+    return false;
+  }
+}
+
+/** Whether an error is the abort of a pending ceremony (not a failure). */
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === "AbortError";
+}
+
+export interface AuthenticateOptions {
+  /** Scope the ceremony to this credential (PRF via evalByCredential) */
+  credentialId?: Uint8Array;
+  /** Challenge issued by the relying party */
+  challenge?: Uint8Array;
+  /**
+   * "conditional" waits for the user to pick a passkey from autofill
+   * instead of showing a modal prompt. Cannot be scoped to a credential.
+   */
+  mediation?: "conditional";
+  /** Aborts a pending (typically conditional) ceremony */
+  signal?: AbortSignal;
+}
+
+export interface AuthenticateResult {
+  /** Credential that answered the ceremony */
+  credentialId: Uint8Array;
+  /** User handle the credential was registered with (null if not returned) */
+  userHandle: Uint8Array | null;
+  /** The client returned a PRF extension result (supports PRF) */
+  prfSupported: boolean;
+  /** PRF output for the fixed application salt (null without PRF support) */
+  prfOutput: Uint8Array | null;
+  assertion: AssertionResponse;
+}
+
 /**
- * Authenticate with PRF evaluation using the fixed application salt.
+ * Authenticate with PRF evaluation of the fixed application salt.
  * If credentialId is provided, scopes to that credential.
- * Returns the raw 32-byte PRF output.
  */
 export async function authenticate(
-  credentialId?: Uint8Array,
-): Promise<Uint8Array> {
-  const salt = await prfSalt();
+  options: AuthenticateOptions = {},
+): Promise<AuthenticateResult> {
+  const { credentialId, challenge, mediation, signal } = options;
+  if (mediation === "conditional" && credentialId) {
+    throw new Error("Conditional mediation cannot target a credential.");
+  }
+  const prfValues: AuthenticationExtensionsPRFValues = {
+    first: (await prfSalt()) as BufferSource,
+  };
 
   const getOptions: PublicKeyCredentialRequestOptions = {
-    challenge: randomChallenge(),
+    challenge: (challenge ?? randomChallenge()) as BufferSource,
+    timeout: CEREMONY_TIMEOUT_MS,
     rpId: rpId(),
     userVerification: "required",
     extensions: {
-      prf: {
-        eval: { first: salt as BufferSource },
-      },
+      prf: credentialId
+        ? { evalByCredential: { [base64urlEncode(credentialId)]: prfValues } }
+        : { eval: prfValues },
     },
     ...(credentialId && {
       allowCredentials: [
@@ -99,11 +354,23 @@ export async function authenticate(
     }),
   };
 
-  const assertion = (await navigator.credentials.get({
-    publicKey: getOptions,
-  })) as PublicKeyCredential | null;
+  const startedAt = Date.now();
+  let assertion: PublicKeyCredential | null;
+  try {
+    assertion = (await credentialsContainer().get({
+      publicKey: getOptions,
+      ...(mediation && { mediation }),
+      ...(signal && { signal }),
+    })) as PublicKeyCredential | null;
+  } catch (err) {
+    // A conditional request has no timeout: it waits for autofill
+    throw toWebAuthnError(err, {
+      startedAt,
+      timeoutMs: mediation ? Infinity : CEREMONY_TIMEOUT_MS,
+    });
+  }
 
-  if (!assertion) throw new Error("Authentication cancelled.");
+  if (!assertion) throw new UserCancelledError();
 
   const extResults = assertion.getClientExtensionResults() as Record<
     string,
@@ -113,12 +380,99 @@ export async function authenticate(
     results?: { first?: ArrayBuffer };
   } | undefined;
 
-  if (!prfResult?.results?.first) {
-    throw new Error(
-      "PRF evaluation returned no result. " +
-        "Make sure you registered with a PRF-capable authenticator.",
-    );
+  const output = prfResult?.results?.first;
+  const response = assertion.response as AuthenticatorAssertionResponse;
+  const userHandle = response.userHandle
+    ? new Uint8Array(response.userHandle)
+    : null;
+  return {
+    credentialId: new Uint8Array(assertion.rawId),
+    userHandle,
+    prfSupported: prfResult !== undefined,
+    prfOutput: output ? new Uint8Array(output) : null,
+    assertion: {
+      clientDataJSON: new Uint8Array(response.clientDataJSON),
+      authenticatorData: new Uint8Array(response.authenticatorData),
+      signature: new Uint8Array(response.signature),
+      userHandle,
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Signal API
+// ---------------------------------------------------------------------------
+
+/** Signal methods (WebAuthn Level 3), not yet in the DOM typings. */
+interface SignalingPublicKeyCredential {
+  signalUnknownCredential?: (options: {
+    rpId: string;
+    credentialId: string;
+  }) => Promise<void>;
+  signalAllAcceptedCredentials?: (options: {
+    rpId: string;
+    userId: string;
+    allAcceptedCredentialIds: string[];
+  }) => Promise<void>;
+}
+
+function signalApi(): SignalingPublicKeyCredential {
+  return typeof PublicKeyCredential === "undefined"
+    ? {}
+    : (PublicKeyCredential as unknown as SignalingPublicKeyCredential);
+}
+
+/** Whether the browser implements the signal API. */
+export function isSignalApiAvailable(): boolean {
+  return (
+    isVirtualAuthenticatorEnabled() ||
+    typeof signalApi().signalUnknownCredential === "function"
+  );
+}
+
+/**
+ * Tell the authenticator a credential was removed from the backend, so it
+ * stops offering it. Best effort: returns false when unsupported or failed.
+ */
+export async function signalUnknownCredential(
+  credentialId: string,
+): Promise<boolean> {
+  if (isVirtualAuthenticatorEnabled()) {
+    deleteVirtualCredential(credentialId);
+    return true;
   }
+  const api = signalApi();
+  if (!api.signalUnknownCredential) return false;
+  try {
+    await api.signalUnknownCredential({ rpId: rpId(), credentialId });
+    return true;
+  } catch {
+    return false;
+  }
+}
 
-  return new Uint8Array(prfResult.results.first);
+/**
+ * Tell the authenticator the complete list of an account's credentials
+ * (base64url), so it can drop any other it holds for that user handle.
+ */
+export async function signalAcceptedCredentials(
+  userHandle: string,
+  credentialIds: string[],
+): Promise<boolean> {
+  if (isVirtualAuthenticatorEnabled()) {
+    retainVirtualCredentials(rpId(), userHandle, credentialIds);
+    return true;
+  }
+  const api = signalApi();
+  if (!api.signalAllAcceptedCredentials) return false;
+  try {
+    await api.signalAllAcceptedCredentials({
+      rpId: rpId(),
+      userId: userHandle,
+      allAcceptedCredentialIds: credentialIds,
+    });
+    return true;
+  } catch {
+    return false;
+  }
 }
@@ -0,0 +1,149 @@
+/**
+ * Typed WebAuthn failures.
+ *
+ * navigator.credentials rejects with a handful of DOMException names that
+ * mean very different things to the user (a closed prompt, a duplicate
+ * credential, an insecure origin). Each class below carries what went
+ * wrong, what the user can do about it, and the action the UI should offer
+ * instead of a dead end.
+ */
+
+/** What the UI should offer after a failed ceremony. */
+export type RecoveryAction =
+  /** Run the same ceremony again */
+  | "retry"
+  /** Sign in with the passkey that already exists */
+  | "sign-in"
+  /** Pick a different passkey or authenticator */
+  | "use-another-authenticator"
+  /** Continue without PRF: protect the keys with a passphrase */
+  | "use-fallback"
+  /** Nothing the user can do in the app */
+  | "none";
+
+export abstract class WebAuthnError extends Error {
+  abstract readonly action: RecoveryAction;
+  /** What the user should do next, in plain words */
+  readonly remediation: string;
+
+  constructor(message: string, remediation: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = new.target.name;
+    this.remediation = remediation;
+  }
+}
+
+/** The user dismissed the passkey prompt (NotAllowedError). */
+export class UserCancelledError extends WebAuthnError {
+  readonly action = "retry";
+
+  constructor(cause?: unknown) {
+    super(
+      "The passkey prompt was closed before it completed.",
+      "Try again and confirm with your fingerprint, face, PIN or security key.",
+      cause,
+    );
+  }
+}
+
+/** The prompt stayed open past the ceremony timeout. */
+export class CeremonyTimeoutError extends WebAuthnError {
+  readonly action = "retry";
+
+  constructor(cause?: unknown) {
+    super(
+      "The passkey prompt timed out.",
+      "Try again, and have your authenticator ready before you start.",
+      cause,
+    );
+  }
+}
+
+/** The authenticator already holds an excluded credential (InvalidStateError). */
+export class DuplicateCredentialError extends WebAuthnError {
+  readonly action = "sign-in";
+
+  constructor(cause?: unknown) {
+    super(
+      "This authenticator already holds a passkey for this account.",
+      "Sign in with that passkey instead, or use another authenticator to add a backup passkey.",
+      cause,
+    );
+  }
+}
+
+/** The browser refused the request for this origin (SecurityError). */
+export class InsecureContextError extends WebAuthnError {
+  readonly action = "none";
+
+  constructor(cause?: unknown) {
+    super(
+      "The browser refused the passkey request for this site.",
+      "Passkeys need a secure context whose domain matches the relying party ID: open the app over HTTPS (or on localhost) at its own address.",
+      cause,
+    );
+  }
+}
+
+/** The passkey supports PRF but the ceremony returned no output. */
+export class PrfNoResultError extends WebAuthnError {
+  readonly action = "retry";
+
+  constructor(cause?: unknown) {
+    super(
+      "The authenticator returned no PRF output for this passkey.",
+      "Try again directly on the authenticator that holds the passkey; some cross-device and browser combinations drop the PRF result.",
+      cause,
+    );
+  }
+}
+
+/**
+ * PRF is not available: at registration the authenticator lacks it (the
+ * passphrase fallback applies); at sign-in this browser or authenticator
+ * cannot evaluate it for a PRF-protected passkey.
+ */
+export class PrfUnsupportedError extends WebAuthnError {
+  readonly action: RecoveryAction;
+
+  constructor(context: "registration" | "sign-in", cause?: unknown) {
+    super(
+      context === "registration"
+        ? "This authenticator does not support the PRF extension."
+        : "This browser or authenticator cannot evaluate PRF, which this passkey needs.",
+      context === "registration"
+        ? "Protect your keys with a passphrase instead — a weaker assurance level — or register with an authenticator that supports PRF."
+        : "Sign in with a backup passkey, or use a browser with PRF support.",
+      cause,
+    );
+    this.action =
+      context === "registration" ? "use-fallback" : "use-another-authenticator";
+  }
+}
+
+/**
+ * Map a navigator.credentials rejection to a typed error. NotAllowedError
+ * covers both a dismissed prompt and a timeout; the elapsed time tells
+ * them apart. AbortError (a deliberately aborted ceremony) and unknown
+ * errors are returned unchanged.
+ */
+export function toWebAuthnError(
+  err: unknown,
+  timing: { startedAt: number; timeoutMs: number },
+): unknown {
+  if (!(err instanceof DOMException)) return err;
+  switch (err.name) {
+    case "NotAllowedError":
+      return Date.now() - timing.startedAt >= timing.timeoutMs - 1000
+        ? new CeremonyTimeoutError(err)
+        : new UserCancelledError(err);
+    case "TimeoutError":
+      return new CeremonyTimeoutError(err);
+    case "InvalidStateError":
+      return new DuplicateCredentialError(err);
+    case "SecurityError":
+      return new InsecureContextError(err);
+    default:
+      return err;
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * The browser globals src/lib relies on, for running it under Node: an
+ * in-memory localStorage, and the page location that WebAuthn ceremonies
+ * and the relying party's client data checks read.
+ *
+ * Imported first by the tests, so every module sees them.
+ */
+
+export const TEST_ORIGIN = "http://localhost:5173";
+
+function createMemoryStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    key: (index) => [...items.keys()][index] ?? null,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, String(value));
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+    clear: () => {
+      items.clear();
+    },
+  };
+}
+
+globalThis.localStorage = createMemoryStorage();
+Object.defineProperty(globalThis, "window", {
+  value: { location: new URL(TEST_ORIGIN), isSecureContext: true },
+  configurable: true,
+});
@@ -0,0 +1,531 @@
+/**
+ * End-to-end test of the register → pay → ticket → verify loop, headless:
+ * the software authenticator (virtualAuthenticator.ts) stands in for a
+ * passkey, the memory backend for the server, and the simulated PSP for
+ * the bank. Steps run in order and share the account, keys and ticket.
+ * The last steps run against the mock server (server/start.js) instead.
+ *
+ * Run with `npm test` (test/run.js).
+ */
+
+import "./browserGlobals";
+import assert from "node:assert/strict";
+import { spawn } from "node:child_process";
+import { once } from "node:events";
+import { mkdtemp, rm } from "node:fs/promises";
+import { createServer } from "node:net";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { test } from "node:test";
+import { fileURLToPath } from "node:url";
+import { createReplayCache, isSlotFresh } from "../src/lib/antiReplay";
+import { countRide } from "../src/lib/backend";
+import { priceOrder } from "../src/lib/catalog";
+import type { Order } from "../src/lib/catalog";
+import {
+  base64urlDecode,
+  base64urlEncode,
+  deriveTicketKeys,
+} from "../src/lib/crypto";
+import type { DerivedKeys } from "../src/lib/crypto";
+import {
+  PaymentRejectedError,
+  WrappedSecretRejectedError,
+  assertRefundable,
+} from "../src/lib/fakeBackend";
+import type { PaymentRecord } from "../src/lib/fakeBackend";
+import { encodeFcbTicket, ticketValidity, validityPhase } from "../src/lib/fcb";
+import {
+  enrollCredential,
+  generateMasterSecret,
+  loadWrappedSecret,
+  unwrapMasterSecret,
+} from "../src/lib/keyWrapping";
+import { createHttpBackend } from "../src/lib/httpBackend";
+import { createMemoryBackend } from "../src/lib/memoryBackend";
+import {
+  beginAddCredential,
+  beginAuthentication,
+  beginRegistration,
+  finishAuthentication,
+  finishRegistration,
+  listCredentials,
+  renameCredential,
+  revokeCredential,
+} from "../src/lib/relyingParty";
+import { createSessionKey } from "../src/lib/sessionKey";
+import { SessionError } from "../src/lib/sessionToken";
+import type { SessionClaims } from "../src/lib/sessionToken";
+import {
+  buildTicketBarcode,
+  readTicketBarcode,
+} from "../src/lib/ticketBarcode";
+import type { TicketBarcode } from "../src/lib/ticketBarcode";
+import { acceptTimeToken } from "../src/lib/timeAnchor";
+import { verifyKeyList } from "../src/lib/trust";
+import type { PublishedIssuerKey } from "../src/lib/trust";
+import { setVirtualAuthenticatorSettings } from "../src/lib/virtualAuthenticator";
+import { authenticate, register } from "../src/lib/webauthn";
+import { DuplicateCredentialError } from "../src/lib/webauthnErrors";
+
+const EMAIL = "holder@example.com";
+const SUCCEEDING_CARD = "4242424242424242";
+const ORDER: Order = {
+  productId: "SINGLE-90",
+  quantities: { adult: 1, child: 1 },
+};
+
+setVirtualAuthenticatorSettings({ enabled: true, prf: true });
+const backend = createMemoryBackend();
+
+let accountId = "";
+let credentialId: Uint8Array = new Uint8Array();
+let masterSecret: Uint8Array = new Uint8Array();
+let keys: DerivedKeys;
+let record: PaymentRecord;
+let issuerKeys: PublishedIssuerKey[] = [];
+let barcode: TicketBarcode;
+
+/** Authenticate with a backend-issued challenge and have it verified. */
+async function verifiedAuthenticate(credential?: Uint8Array) {
+  const { challenge } = await beginAuthentication(credential);
+  const auth = await authenticate({ credentialId: credential, challenge });
+  const verified = await finishAuthentication(
+    auth.credentialId,
+    auth.assertion,
+  );
+  return { auth, ...verified };
+}
+
+/** Start the mock server on a free port, over a fresh data file. */
+async function startMockServer() {
+  const dir = await mkdtemp(join(tmpdir(), "dosipas-e2e-"));
+  const probe = createServer().listen(0);
+  await once(probe, "listening");
+  const { port } = probe.address() as AddressInfo;
+  await new Promise((resolve) => probe.close(resolve));
+
+  const server = spawn(
+    process.execPath,
+    [fileURLToPath(new URL("../server/start.js", import.meta.url))],
+    {
+      env: {
+        ...process.env,
+        PORT: String(port),
+        DATA_FILE: join(dir, "db.json"),
+      },
+      stdio: ["ignore", "pipe", "inherit"],
+    },
+  );
+  await new Promise<void>((resolve, reject) => {
+    server.once("exit", (code) =>
+      reject(new Error(`The mock server exited with code ${code}.`)),
+    );
+    // Read on, so its request log never fills the pipe
+    server.stdout.on("data", (chunk: Buffer) => {
+      if (chunk.toString().includes("Mock server on")) resolve();
+    });
+  });
+  return {
+    baseUrl: `http://localhost:${port}`,
+    async stop() {
+      server.kill();
+      await once(server, "exit");
+      await rm(dir, { recursive: true, force: true });
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Register
+// ---------------------------------------------------------------------------
+
+test("registers a passkey and wraps a master secret under its PRF", async () => {
+  const { challenge, userHandle, excludeCredentials } =
+    await beginRegistration(EMAIL);
+  const result = await register(EMAIL, {
+    challenge,
+    userId: userHandle,
+    excludeCredentials,
+  });
+  assert.ok(result.prfSupported);
+  const { account } = await finishRegistration(
+    result.credentialId,
+    result.attestation,
+  );
+  assert.equal(account.email, EMAIL);
+
+  const { auth, sessionToken } = await verifiedAuthenticate(
+    result.credentialId,
+  );
+  assert.ok(auth.prfOutput);
+  masterSecret = generateMasterSecret();
+  await enrollCredential({
+    backend,
+    sessionToken,
+    masterSecret,
+    unlock: { kind: "prf", prfOutput: auth.prfOutput },
+    credentialId: base64urlEncode(result.credentialId),
+    accountId: account.userHandle,
+  });
+  accountId = account.userHandle;
+  credentialId = result.credentialId;
+});
+
+test("signs in with the passkey and unwraps the same master secret", async () => {
+  const { auth, account } = await verifiedAuthenticate();
+  assert.equal(account.userHandle, accountId);
+  assert.deepEqual(auth.credentialId, credentialId);
+
+  const loaded = await loadWrappedSecret(
+    backend,
+    base64urlEncode(auth.credentialId),
+  );
+  assert.equal(loaded?.source, "backend");
+  const unwrapped = await unwrapMasterSecret(loaded!.wrapped, {
+    kind: "prf",
+    prfOutput: auth.prfOutput!,
+  });
+  assert.deepEqual(unwrapped, masterSecret);
+});
+
+test("stores a wrapped secret only from its passkey's session", async () => {
+  const wrapped = (await backend.fetchWrappedSecret(
+    base64urlEncode(credentialId),
+  ))!;
+  await assert.rejects(
+    backend.storeWrappedSecret("unknown-token", wrapped),
+    SessionError,
+  );
+  const { sessionToken } = await verifiedAuthenticate(credentialId);
+  const [claims, mac] = sessionToken.split(".");
+  const forged = JSON.parse(
+    new TextDecoder().decode(base64urlDecode(claims)),
+  ) as SessionClaims;
+  forged.userHandle = "another-account";
+  await assert.rejects(
+    backend.storeWrappedSecret(
+      `${base64urlEncode(new TextEncoder().encode(JSON.stringify(forged)))}.${mac}`,
+      { ...wrapped, accountId: "another-account" },
+    ),
+    SessionError,
+  );
+  await assert.rejects(
+    backend.storeWrappedSecret(sessionToken, {
+      ...wrapped,
+      accountId: "another-account",
+    }),
+    WrappedSecretRejectedError,
+  );
+  await backend.storeWrappedSecret(sessionToken, wrapped);
+});
+
+// ---------------------------------------------------------------------------
+// Passkey management
+// ---------------------------------------------------------------------------
+
+test("adds, renames and revokes a backup passkey from a session", async () => {
+  await assert.rejects(beginAddCredential("unknown-token"), /Not signed in/);
+
+  const { sessionToken } = await verifiedAuthenticate(credentialId);
+  const options = await beginAddCredential(sessionToken);
+  await assert.rejects(
+    register(options.email, {
+      challenge: options.challenge,
+      userId: options.userHandle,
+      excludeCredentials: options.excludeCredentials,
+    }),
+    DuplicateCredentialError,
+  );
+  // A second authenticator would not hold the excluded credential
+  const backup = await register(options.email, {
+    challenge: options.challenge,
+    userId: options.userHandle,
+  });
+  await finishRegistration(backup.credentialId, backup.attestation);
+  const backupId = base64urlEncode(backup.credentialId);
+  assert.equal(listCredentials(accountId).length, 2);
+
+  // The backup's session cannot replace the first passkey's wrapped secret
+  const { sessionToken: backupSession } = await verifiedAuthenticate(
+    backup.credentialId,
+  );
+  const wrapped = await backend.fetchWrappedSecret(
+    base64urlEncode(credentialId),
+  );
+  await assert.rejects(
+    backend.storeWrappedSecret(backupSession, {
+      ...wrapped!,
+      kdf: "pbkdf2",
+      kdfSalt: "",
+      kdfIterations: 100_000,
+    }),
+    WrappedSecretRejectedError,
+  );
+
+  await assert.rejects(
+    renameCredential("unknown-token", backupId, "Backup"),
+    /Not signed in/,
+  );
+  const renamed = await renameCredential(sessionToken, backupId, " Backup ");
+  assert.equal(renamed.name, "Backup");
+
+  await assert.rejects(
+    revokeCredential(sessionToken, base64urlEncode(credentialId)),
+    /another passkey/,
+  );
+  await revokeCredential(sessionToken, backupId);
+  assert.deepEqual(
+    listCredentials(accountId).map((c) => c.credentialId),
+    [base64urlEncode(credentialId)],
+  );
+});
+
+// ---------------------------------------------------------------------------
+// Pay
+// ---------------------------------------------------------------------------
+
+test("refuses to issue a ticket for an uncaptured payment", async () => {
+  const ticketId = `TKT-${crypto.randomUUID()}`;
+  const pending = (await deriveTicketKeys(masterSecret, [ticketId])).get(
+    ticketId,
+  )!;
+  const payment = await backend.paymentProvider.createPayment({
+    idempotencyKey: crypto.randomUUID(),
+    amount: priceOrder(ORDER).total,
+    currency: "EUR",
+    cardNumber: SUCCEEDING_CARD,
+  });
+  assert.equal(payment.status, "authorized");
+  await assert.rejects(
+    backend.storePayment({
+      ticketId,
+      accountId,
+      credentialId: base64urlEncode(credentialId),
+      paymentRef: payment.id,
+      paymentDate: payment.history[payment.history.length - 1].at,
+      ecdsaPublicKey: pending.ecdsaKeyPair.publicKeyJwk,
+      order: ORDER,
+    }),
+    PaymentRejectedError,
+  );
+});
+
+test("pays with a test card and has the backend issue the ticket", async () => {
+  const { challenge } = await beginAuthentication(credentialId);
+  const auth = await authenticate({ credentialId, challenge });
+  await finishAuthentication(auth.credentialId, auth.assertion);
+
+  const ticketId = `TKT-${crypto.randomUUID()}`;
+  keys = (await deriveTicketKeys(masterSecret, [ticketId])).get(ticketId)!;
+  const quote = priceOrder(ORDER);
+  const created = await backend.paymentProvider.createPayment({
+    idempotencyKey: crypto.randomUUID(),
+    amount: quote.total,
+    currency: quote.currency,
+    cardNumber: SUCCEEDING_CARD,
+  });
+  const captured = await backend.paymentProvider.capturePayment(created.id);
+  assert.equal(captured.status, "captured");
+
+  record = await backend.storePayment({
+    ticketId,
+    accountId,
+    credentialId: base64urlEncode(credentialId),
+    paymentRef: captured.id,
+    paymentDate: captured.history[captured.history.length - 1].at,
+    ecdsaPublicKey: keys.ecdsaKeyPair.publicKeyJwk,
+    order: ORDER,
+    timeZone: "Europe/Paris",
+  });
+  assert.equal(record.ticketId, ticketId);
+  assert.equal(record.quote.total, quote.total);
+  assert.equal(record.keyAssurance, "prf");
+  assert.deepEqual(
+    await backend.lookupByPublicKey(keys.ecdsaKeyPair.publicKeyJwk),
+    record,
+  );
+});
+
+// ---------------------------------------------------------------------------
+// Ticket
+// ---------------------------------------------------------------------------
+
+test("signs a barcode anchored to backend time under a session key", async () => {
+  const keyList = await backend.fetchKeyList();
+  assert.ok(await verifyKeyList(keyList));
+  issuerKeys = keyList.keys;
+
+  const timeAnchor = acceptTimeToken(await backend.issueTimeToken());
+  const sessionKey = await createSessionKey(
+    keys.ecdsaKeyPair.privateKey,
+    new Date(),
+  );
+  barcode = await buildTicketBarcode({
+    record,
+    ecdsaPrivateKey: keys.ecdsaKeyPair.privateKey,
+    ecdsaPublicKeyJwk: keys.ecdsaKeyPair.publicKeyJwk,
+    timeAnchor,
+    sessionKey,
+  });
+  assert.ok(barcode.timeAnchor);
+  assert.ok(barcode.delegation);
+});
+
+// ---------------------------------------------------------------------------
+// Verify
+// ---------------------------------------------------------------------------
+
+test("verifies the barcode offline against the published issuer keys", async () => {
+  const now = new Date();
+  const decoded = await readTicketBarcode(barcode.bytes, issuerKeys);
+  assert.equal(decoded.issuerKeyStatus, "valid");
+  assert.ok(decoded.issuerSignatureValid);
+  assert.ok(decoded.signatureValid);
+  assert.equal(decoded.delegation?.status, "valid");
+  assert.equal(decoded.keyAssurance, "prf");
+  assert.deepEqual(decoded.ecdsaPublicKey.x, keys.ecdsaKeyPair.publicKeyJwk.x);
+  assert.ok(decoded.slot !== null && isSlotFresh(decoded.slot, now));
+
+  const anchor = decoded.timeAnchor;
+  assert.equal(anchor?.status, "valid");
+  assert.ok(anchor.slotConsistent);
+  assert.ok(anchor.offsetInRange);
+  assert.ok(anchor.offsetConsistent);
+
+  assert.deepEqual(decoded.ticketBytes, encodeFcbTicket(record.ticket));
+  const validity = ticketValidity(decoded.ticket);
+  assert.ok(validity);
+  assert.equal(validityPhase(validity, now), "valid");
+});
+
+test("reports a replay only of a scan that was accepted", async () => {
+  const now = new Date();
+  const cache = createReplayCache();
+  const { thumbprint } = record;
+  // A refused scan is not remembered: its rescan is not a replay
+  assert.ok(!cache.hasSeen(thumbprint, barcode.slot, null, now));
+  assert.ok(!cache.hasSeen(thumbprint, barcode.slot, null, now));
+  cache.remember(thumbprint, barcode.slot, null, now);
+  assert.ok(cache.hasSeen(thumbprint, barcode.slot, null, now));
+  assert.ok(!cache.hasSeen(thumbprint, barcode.slot, "ABC123", now));
+});
+
+test("rejects a barcode whose dynamic signature was tampered with", async () => {
+  const tampered = barcode.bytes.slice();
+  // The level 2 signature ends the header; the last byte's first bit is
+  // always one of its bits, whatever the padding
+  tampered[tampered.length - 1] ^= 0x80;
+  const decoded = await readTicketBarcode(tampered, issuerKeys);
+  assert.ok(decoded.issuerSignatureValid);
+  assert.ok(!decoded.signatureValid);
+});
+
+test("counts the single ride once", async () => {
+  const first = await backend.redeemRide(record.thumbprint);
+  assert.equal(first.outcome, "accepted");
+  assert.equal(first.ridesLeft, 0);
+  const second = await backend.redeemRide(record.thumbprint);
+  assert.equal(second.outcome, "alreadyUsed");
+});
+
+test("refuses a counted ride the backend holds no record of", async () => {
+  const unknown = await countRide(backend, "unknown", "noRecord", true);
+  assert.equal(unknown.redemption, null);
+  assert.match(unknown.error ?? "", /no matching record/);
+  // Unlimited tickets are not refused for it
+  assert.equal(
+    (await countRide(backend, "unknown", "noRecord", false)).error,
+    null,
+  );
+});
+
+// ---------------------------------------------------------------------------
+// Cancel
+// ---------------------------------------------------------------------------
+
+test("refunds a day pass until its first ride only", async () => {
+  const order: Order = { productId: "EVENT-DAY", quantities: { adult: 1 } };
+  const ticketId = `TKT-${crypto.randomUUID()}`;
+  const pass = (await deriveTicketKeys(masterSecret, [ticketId])).get(
+    ticketId,
+  )!;
+  const created = await backend.paymentProvider.createPayment({
+    idempotencyKey: crypto.randomUUID(),
+    amount: priceOrder(order).total,
+    currency: "EUR",
+    cardNumber: SUCCEEDING_CARD,
+  });
+  const captured = await backend.paymentProvider.capturePayment(created.id);
+  const issued = await backend.storePayment({
+    ticketId,
+    accountId,
+    credentialId: base64urlEncode(credentialId),
+    paymentRef: captured.id,
+    paymentDate: captured.history[captured.history.length - 1].at,
+    ecdsaPublicKey: pass.ecdsaKeyPair.publicKeyJwk,
+    order,
+  });
+  assert.equal(issued.entitlement.kind, "unlimited");
+  assert.doesNotThrow(() => assertRefundable(issued, new Date()));
+
+  const ride = await backend.redeemRide(issued.thumbprint);
+  assert.equal(ride.outcome, "accepted");
+  await assert.rejects(
+    backend.refundPayment(issued.thumbprint, "Changed plans"),
+    /already ridden/,
+  );
+  const after = await backend.lookupByPublicKey(pass.ecdsaKeyPair.publicKeyJwk);
+  assert.equal(after?.revokedAt, undefined);
+  assert.equal(after?.refund, undefined);
+});
+
+// ---------------------------------------------------------------------------
+// Mock server
+// ---------------------------------------------------------------------------
+
+test("has the mock server issue a prf ticket to the PRF-enrolled account", async (t) => {
+  const server = await startMockServer();
+  t.after(() => server.stop());
+  const http = createHttpBackend(server.baseUrl);
+
+  const { auth, sessionToken } = await verifiedAuthenticate(credentialId);
+  await enrollCredential({
+    backend: http,
+    sessionToken,
+    masterSecret,
+    unlock: { kind: "prf", prfOutput: auth.prfOutput! },
+    credentialId: base64urlEncode(credentialId),
+    accountId,
+  });
+  const loaded = await loadWrappedSecret(http, base64urlEncode(credentialId));
+  assert.equal(loaded?.source, "backend");
+  assert.equal((await http.listWrappedSecrets(accountId)).length, 1);
+  await assert.rejects(
+    http.storeWrappedSecret("unknown-token", loaded!.wrapped),
+    /401/,
+  );
+
+  const ticketId = `TKT-${crypto.randomUUID()}`;
+  const ticketKeys = (await deriveTicketKeys(masterSecret, [ticketId])).get(
+    ticketId,
+  )!;
+  const created = await http.paymentProvider.createPayment({
+    idempotencyKey: crypto.randomUUID(),
+    amount: priceOrder(ORDER).total,
+    currency: "EUR",
+    cardNumber: SUCCEEDING_CARD,
+  });
+  const captured = await http.paymentProvider.capturePayment(created.id);
+  const issued = await http.storePayment({
+    ticketId,
+    accountId,
+    credentialId: base64urlEncode(credentialId),
+    paymentRef: captured.id,
+    paymentDate: captured.history[captured.history.length - 1].at,
+    ecdsaPublicKey: ticketKeys.ecdsaKeyPair.publicKeyJwk,
+    order: ORDER,
+  });
+  assert.equal(issued.keyAssurance, "prf");
+});
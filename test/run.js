@@ -0,0 +1,22 @@
+// Runs the end-to-end test (test/e2e.test.ts) headlessly: `npm test`.
+//
+// As for the mock server (server/start.js), Vite's SSR loader transpiles
+// the test and the src/lib modules it drives; node:test runs the steps and
+// sets a failing exit code if one fails.
+
+import { fileURLToPath } from "node:url";
+import { createServer } from "vite";
+
+const vite = await createServer({
+  root: fileURLToPath(new URL("..", import.meta.url)),
+  configFile: false,
+  appType: "custom",
+  logLevel: "warn",
+  server: { middlewareMode: true, hmr: false, watch: null },
+  optimizeDeps: { noDiscovery: true, include: [] },
+});
+try {
+  await vite.ssrLoadModule("/test/e2e.test.ts");
+} finally {
+  await vite.close();
+}